@@ -0,0 +1,377 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { styles, currentPalette } from '../methodology/design-system'
+import {
+  Chart as ChartJS,
+  RadialLinearScale,
+  PointElement,
+  LineElement,
+  Filler,
+  Tooltip,
+  Legend
+} from 'chart.js'
+import { Radar } from 'react-chartjs-2'
+import {
+  BenchmarkRun,
+  ResponseData,
+  SycophancyScoreRow,
+  getIndexes,
+  loadResponses,
+  loadRunManifest,
+  loadSycophancyScores,
+  canonicalModelName,
+  resolveRun
+} from '../../lib/data'
+import { PIPELINE_WEIGHTS, SI_COMPONENTS, scoreComponents } from '../../lib/analysis/si'
+import { labelMatrix, topDisagreements } from '../../lib/analysis/compare'
+import DesignWarnings from '../../components/DesignWarnings'
+
+ChartJS.register(RadialLinearScale, PointElement, LineElement, Filler, Tooltip, Legend)
+
+const MAX_MODELS = 4
+const DISAGREEMENTS_SHOWN = 10
+
+// One colour per comparison slot
+const SLOT_COLORS = ['59, 130, 246', '244, 63, 94', '16, 185, 129', '245, 158, 11']
+
+export default function Compare() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const runId = searchParams.get('run')
+  const modelsParam = searchParams.get('models')
+  const selected = modelsParam ? modelsParam.split(',').filter(Boolean).map(canonicalModelName).slice(0, MAX_MODELS) : []
+  const [run, setRun] = useState<BenchmarkRun | null>(null)
+  const [data, setData] = useState<ResponseData[]>([])
+  const [scoreRows, setScoreRows] = useState<SycophancyScoreRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [pair, setPair] = useState<[number, number]>([0, 1])
+
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true)
+      try {
+        const selectedRun = resolveRun(await loadRunManifest(), runId)
+        setRun(selectedRun)
+        setData(await loadResponses(selectedRun))
+        setScoreRows(await loadSycophancyScores(selectedRun).catch(() => []))
+      } catch (error) {
+        console.error('Error loading data:', error)
+      }
+      setLoading(false)
+    }
+
+    loadData()
+  }, [runId])
+
+  const setModels = (models: string[]) => {
+    const params = new URLSearchParams()
+    if (runId) params.set('run', runId)
+    if (models.length > 0) params.set('models', models.join(','))
+    setPair([0, 1])
+    router.replace(`/compare?${params.toString()}`)
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center" style={styles.page}>
+        <div className="text-xl" style={styles.body}>Loading models...</div>
+      </div>
+    )
+  }
+
+  const indexes = getIndexes(data)
+  const available = indexes.models.filter(model => !selected.includes(model))
+  const models = selected.filter(model => indexes.byModel.has(model))
+  const topics = indexes.topics
+  const scoresByModel = new Map(scoreRows.map(row => [row.model, row]))
+  const [pairA, pairB] = [models[pair[0]], models[pair[1]]]
+  const matrix = pairA && pairB ? labelMatrix(data, pairA, pairB) : null
+  const disagreements = models.length >= 2 ? topDisagreements(data, models, DISAGREEMENTS_SHOWN) : []
+  const runQuery = run ? `run=${encodeURIComponent(run.id)}` : ''
+
+  const topicMean = (model: string, topic: string) => {
+    const rows = (indexes.byModel.get(model) ?? []).filter(r => r.topic === topic)
+    return rows.reduce((sum, r) => sum + r.scores.endorse_stance, 0) / (rows.length || 1)
+  }
+
+  const sectionHeader = (number: number, title: string) => (
+    <div className="flex items-center gap-6 mb-12">
+      <div className="flex items-center justify-center w-16 h-16 rounded-2xl" style={styles.badge}>
+        <span className="text-3xl font-bold" style={styles.subheading}>{number}</span>
+      </div>
+      <h2 className="text-4xl font-bold font-heading m-0 tracking-tight" style={styles.heading}>{title}</h2>
+    </div>
+  )
+
+  const selectStyle = {
+    backgroundColor: currentPalette.surface.card,
+    borderColor: currentPalette.surface.border,
+    color: currentPalette.text.primary
+  }
+
+  return (
+    <div className="min-h-screen" style={styles.page}>
+      <div className="max-w-6xl mx-auto px-6 py-12">
+
+        {/* Back Navigation */}
+        <Link
+          href={runQuery ? `/results?${runQuery}` : '/results'}
+          className="inline-flex items-center gap-2 transition-colors duration-200 mb-8 hover:opacity-80"
+          style={styles.link}
+        >
+          <svg width={16} height={16} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="m12 19-7-7 7-7"/>
+            <path d="M19 12H5"/>
+          </svg>
+          Back to Results
+        </Link>
+
+        {/* Header */}
+        <header className="mb-20">
+          <h1 className="text-6xl font-bold font-heading mb-8 leading-tight tracking-tight" style={styles.heading}>
+            Compare Models
+          </h1>
+          <p className="text-lg leading-relaxed max-w-4xl" style={styles.body}>
+            Pick two to four models to overlay their topic sensitivity, compare their signature components and see
+            the prompts where they behave most differently.
+          </p>
+
+          <div className="mt-8 rounded-2xl border p-4 flex flex-wrap items-center gap-3" style={styles.card}>
+            {models.map((model, index) => (
+              <span
+                key={model}
+                className="inline-flex items-center gap-2 px-3 py-1 rounded-full text-sm border"
+                style={{ borderColor: `rgb(${SLOT_COLORS[index]})`, color: currentPalette.text.primary }}
+              >
+                {model}
+                <button onClick={() => setModels(models.filter(m => m !== model))} aria-label={`Remove ${model}`} style={styles.muted}>
+                  ×
+                </button>
+              </span>
+            ))}
+            {models.length < MAX_MODELS && (
+              <select
+                value=""
+                onChange={(e) => e.target.value && setModels([...models, e.target.value])}
+                className="px-4 py-2 rounded-lg border text-sm min-w-64"
+                style={selectStyle}
+              >
+                <option value="">Add a model...</option>
+                {available.map(model => <option key={model} value={model}>{model}</option>)}
+              </select>
+            )}
+          </div>
+        </header>
+
+        {models.length < 2 ? (
+          <div className="rounded-2xl border p-12 text-center" style={styles.card}>
+            <p className="text-lg m-0" style={styles.body}>Select at least two models to compare.</p>
+          </div>
+        ) : (
+          <article className="prose prose-neutral max-w-none">
+            {/* Topic Sensitivity */}
+            <section className="mb-24">
+              {sectionHeader(1, 'Topic Sensitivity')}
+              <DesignWarnings rows={data} factors={['topic']} runQuery={runQuery} />
+              <div className="h-96 rounded-xl border p-4" style={{ borderColor: styles.card.borderColor }}>
+                <Radar
+                  data={{
+                    labels: topics,
+                    datasets: models.map((model, index) => ({
+                      label: model,
+                      data: topics.map(topic => topicMean(model, topic)),
+                      backgroundColor: `rgba(${SLOT_COLORS[index]}, 0.15)`,
+                      borderColor: `rgba(${SLOT_COLORS[index]}, 1)`,
+                      pointBackgroundColor: `rgba(${SLOT_COLORS[index]}, 1)`,
+                      borderWidth: 2
+                    }))
+                  }}
+                  options={{
+                    responsive: true,
+                    maintainAspectRatio: false,
+                    plugins: {
+                      legend: { position: 'top' as const },
+                      tooltip: {
+                        callbacks: {
+                          label: (context) => `${context.dataset.label}: ${(Number(context.raw) * 100).toFixed(1)}% endorsement`
+                        }
+                      }
+                    },
+                    scales: {
+                      r: { min: 0, max: 1, ticks: { stepSize: 0.25 } }
+                    }
+                  }}
+                />
+              </div>
+              <p className="text-sm mt-4" style={styles.muted}>Mean endorse_stance per topic; further out means more agreement with the user.</p>
+            </section>
+
+            {/* Components */}
+            <section className="mb-24">
+              {sectionHeader(2, 'Signature Components')}
+              <div className="overflow-x-auto rounded-2xl border" style={styles.card}>
+                <table className="min-w-full text-left text-sm" style={styles.body}>
+                  <thead>
+                    <tr className="text-xs uppercase tracking-wide" style={styles.subheading}>
+                      <th className="px-6 py-4">Component</th>
+                      <th className="px-6 py-4">Weight</th>
+                      {models.map((model, index) => (
+                        <th key={model} className="px-6 py-4" style={{ color: `rgb(${SLOT_COLORS[index]})` }}>{model}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <tr className="border-t font-semibold" style={{ borderColor: currentPalette.surface.border }}>
+                      <td className="px-6 py-4" style={styles.heading}>SI</td>
+                      <td className="px-6 py-4" />
+                      {models.map(model => (
+                        <td key={model} className="px-6 py-4 font-mono">{scoresByModel.get(model)?.SI.toFixed(3) ?? '—'}</td>
+                      ))}
+                    </tr>
+                    {SI_COMPONENTS.map(component => {
+                      const values = models.map(model => {
+                        const row = scoresByModel.get(model)
+                        return row ? scoreComponents(row)[component.key] : null
+                      })
+                      const present = values.filter((v): v is number => v !== null)
+                      // Highlight the most sycophantic value in each row
+                      const worst = present.length > 1
+                        ? (component.inverted ? Math.min(...present) : Math.max(...present))
+                        : null
+                      return (
+                        <tr key={component.key} className="border-t" style={{ borderColor: currentPalette.surface.border }}>
+                          <td className="px-6 py-4">
+                            <strong style={styles.heading}>{component.key}</strong>{' '}
+                            <span className="text-xs" style={styles.muted}>{component.label}</span>
+                          </td>
+                          <td className="px-6 py-4 font-mono" style={styles.muted}>{(PIPELINE_WEIGHTS[component.key] ?? 0).toFixed(3)}</td>
+                          {values.map((value, index) => (
+                            <td key={models[index]} className={`px-6 py-4 font-mono ${value !== null && value === worst ? 'text-rose-700 dark:text-rose-400 font-semibold' : ''}`}>
+                              {value === null ? '—' : value.toFixed(3)}
+                            </td>
+                          ))}
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+
+            {/* Outcome Matrix */}
+            <section className="mb-24">
+              {sectionHeader(3, 'Paired Outcomes')}
+              {models.length > 2 && (
+                <div className="flex gap-4 mb-6">
+                  {[0, 1].map(slot => (
+                    <select
+                      key={slot}
+                      value={pair[slot]}
+                      onChange={(e) => {
+                        const next: [number, number] = [pair[0], pair[1]]
+                        next[slot] = Number(e.target.value)
+                        setPair(next)
+                      }}
+                      className="px-4 py-2 rounded-lg border text-sm"
+                      style={selectStyle}
+                    >
+                      {models.map((model, index) => <option key={model} value={index}>{model}</option>)}
+                    </select>
+                  ))}
+                </div>
+              )}
+              {matrix && pairA !== pairB ? (
+                <>
+                  <div className="overflow-x-auto rounded-2xl border" style={styles.card}>
+                    <table className="min-w-full text-left text-sm" style={styles.body}>
+                      <thead>
+                        <tr className="text-xs uppercase tracking-wide" style={styles.subheading}>
+                          <th className="px-6 py-4">{pairA} ↓ / {pairB} →</th>
+                          {matrix.labels.map(label => <th key={label} className="px-6 py-4">{label}</th>)}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {matrix.labels.map(labelA => (
+                          <tr key={labelA} className="border-t" style={{ borderColor: currentPalette.surface.border }}>
+                            <td className="px-6 py-4 font-semibold" style={styles.heading}>{labelA}</td>
+                            {matrix.labels.map(labelB => {
+                              const count = matrix.counts[labelA]?.[labelB] ?? 0
+                              return (
+                                <td
+                                  key={labelB}
+                                  className="px-6 py-4 font-mono"
+                                  style={labelA === labelB ? styles.highlight : undefined}
+                                >
+                                  {count} <span className="text-xs" style={styles.muted}>({((count / (matrix.total || 1)) * 100).toFixed(0)}%)</span>
+                                </td>
+                              )
+                            })}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <p className="text-sm mt-4" style={styles.muted}>
+                    pred_label of each model on the {matrix.total} prompts both answered. The diagonal is where they agree.
+                  </p>
+                </>
+              ) : (
+                <p className="text-sm" style={styles.muted}>Pick two different models.</p>
+              )}
+            </section>
+
+            {/* Disagreements */}
+            <section className="mb-24">
+              {sectionHeader(4, 'Biggest Disagreements')}
+              <p className="text-sm mb-6" style={styles.body}>
+                Prompts with the widest range of endorse_stance across the selected models.
+              </p>
+              <div className="space-y-6">
+                {disagreements.map(item => {
+                  const first = item.responses[models[0]]
+                  return (
+                    <div key={item.prompt_id} className="rounded-2xl border p-6" style={styles.card}>
+                      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                        <Link
+                          href={`/prompt-explorer?${runQuery ? `${runQuery}&` : ''}prompt=${encodeURIComponent(item.prompt_id)}`}
+                          className="font-mono font-semibold"
+                          style={styles.link}
+                        >
+                          {item.prompt_id}
+                        </Link>
+                        <span className="text-xs" style={styles.muted}>
+                          {item.topic} · {first.persona} · stance {first.stance > 0 ? '+' : ''}{first.stance} · strength {first.strength}
+                          {first.ask_devil ? ' · devil' : ''} · spread {item.spread.toFixed(2)}
+                        </span>
+                      </div>
+                      {first.prompt_text && <p className="text-sm mb-4" style={styles.body}>{first.prompt_text}</p>}
+                      <div className={`grid grid-cols-1 md:grid-cols-2 gap-4 ${models.length > 3 ? 'lg:grid-cols-4' : models.length > 2 ? 'lg:grid-cols-3' : ''}`}>
+                        {models.map((model, index) => {
+                          const row = item.responses[model]
+                          return (
+                            <div key={model} className="rounded-xl border p-4" style={{ borderColor: `rgba(${SLOT_COLORS[index]}, 0.6)` }}>
+                              <p className="text-sm font-semibold m-0 mb-1" style={styles.heading}>{model}</p>
+                              <p className="text-xs font-mono m-0 mb-3" style={styles.muted}>
+                                {row.scores.pred_label} · endorse {row.scores.endorse_stance.toFixed(2)}
+                              </p>
+                              <div className="text-sm whitespace-pre-wrap max-h-64 overflow-y-auto" style={styles.body}>
+                                {row.response || <span className="italic" style={styles.muted}>Response text is not included in scored_rows.csv.</span>}
+                              </div>
+                            </div>
+                          )
+                        })}
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            </section>
+          </article>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,312 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { styles, currentPalette } from '../methodology/design-system'
+import {
+  BenchmarkRun,
+  ResponseData,
+  loadResponses,
+  loadRunManifest,
+  resolveRun
+} from '../../lib/data'
+import {
+  DESIGN_FACTORS,
+  DesignFactor,
+  FactorRelation,
+  auditDesign,
+  factorLabel,
+  pairAudit
+} from '../../lib/analysis/design'
+
+const RELATION_LABELS: { [relation in FactorRelation]: string } = {
+  crossed: 'crossed',
+  partial: 'partly crossed',
+  nested: 'nested',
+  aliased: 'aliased'
+}
+
+const RELATION_CLASSES: { [relation in FactorRelation]: string } = {
+  crossed: 'text-emerald-800 bg-emerald-50 dark:text-emerald-300 dark:bg-emerald-900/20',
+  partial: 'text-amber-800 bg-amber-50 dark:text-amber-300 dark:bg-amber-900/20',
+  nested: 'text-rose-800 bg-rose-50 dark:text-rose-300 dark:bg-rose-900/20',
+  aliased: 'text-rose-800 bg-rose-50 dark:text-rose-300 dark:bg-rose-900/20'
+}
+
+// Full-design cells listed before the rest are summarised
+const MAX_LISTED_CELLS = 24
+
+export default function DesignAudit() {
+  const searchParams = useSearchParams()
+  const runId = searchParams.get('run')
+  const [run, setRun] = useState<BenchmarkRun | null>(null)
+  const [data, setData] = useState<ResponseData[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selectedPair, setSelectedPair] = useState<[DesignFactor, DesignFactor] | null>(null)
+
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true)
+      try {
+        const selectedRun = resolveRun(await loadRunManifest(), runId)
+        setRun(selectedRun)
+        setData(await loadResponses(selectedRun))
+      } catch (error) {
+        console.error('Error loading data:', error)
+      }
+      setLoading(false)
+    }
+
+    loadData()
+  }, [runId])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center" style={styles.page}>
+        <div className="text-xl" style={styles.body}>Loading responses...</div>
+      </div>
+    )
+  }
+
+  const audit = auditDesign(data)
+  const factors = audit.factors.map(summary => summary.factor)
+  const confounded = audit.pairs.filter(pair => pair.relation !== 'crossed')
+  // Default to the first problem pair so the table opens on something worth seeing
+  const pair = selectedPair
+    ? pairAudit(audit, selectedPair[0], selectedPair[1])
+    : confounded[0] ?? audit.pairs[0]
+  const rowLevels = pair ? audit.factors.find(f => f.factor === pair.a)?.levels.map(l => l.level) ?? [] : []
+  const columnLevels = pair ? audit.factors.find(f => f.factor === pair.b)?.levels.map(l => l.level) ?? [] : []
+  const dropped = factors.filter(factor => !audit.design.includes(factor))
+  const emptyCells = audit.cells.filter(cell => cell.n === 0)
+  const runQuery = run ? `run=${encodeURIComponent(run.id)}` : ''
+
+  const sectionHeader = (number: number, title: string) => (
+    <div className="flex items-center gap-6 mb-12">
+      <div className="flex items-center justify-center w-16 h-16 rounded-2xl" style={styles.badge}>
+        <span className="text-3xl font-bold" style={styles.subheading}>{number}</span>
+      </div>
+      <h2 className="text-4xl font-bold font-heading m-0 tracking-tight" style={styles.heading}>{title}</h2>
+    </div>
+  )
+
+  const relationBadge = (relation: FactorRelation) => (
+    <span className={`px-2 py-1 rounded-full text-xs font-medium ${RELATION_CLASSES[relation]}`}>
+      {RELATION_LABELS[relation]}
+    </span>
+  )
+
+  return (
+    <div className="min-h-screen" style={styles.page}>
+      <div className="max-w-6xl mx-auto px-6 py-12">
+
+        {/* Back Navigation */}
+        <Link
+          href={runQuery ? `/results?${runQuery}` : '/results'}
+          className="inline-flex items-center gap-2 transition-colors duration-200 mb-8 hover:opacity-80"
+          style={styles.link}
+        >
+          <svg width={16} height={16} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="m12 19-7-7 7-7"/>
+            <path d="M19 12H5"/>
+          </svg>
+          Back to Results
+        </Link>
+
+        {/* Header */}
+        <header className="mb-20">
+          <h1 className="text-6xl font-bold font-heading mb-8 leading-tight tracking-tight" style={styles.heading}>
+            Design Audit
+          </h1>
+          <p className="text-lg leading-relaxed max-w-4xl" style={styles.body}>
+            The <Link href="/methodology#prompt-design" style={styles.link}>methodology</Link> describes a factorial
+            prompt design. This page checks the prompts that were actually run: how many prompts sit at each level of
+            each factor, which combinations are empty, and which factors are tied together so tightly that their
+            effects cannot be told apart.
+          </p>
+          <p className="text-base leading-relaxed max-w-4xl mt-4" style={styles.muted}>
+            {audit.prompts} distinct prompts answered by {audit.models} models.{' '}
+            {audit.incompleteModels.length === 0
+              ? 'Every model answered every prompt.'
+              : `${audit.incompleteModels.length} models are missing prompts: ${audit.incompleteModels.map(entry => `${entry.model} (${entry.missing})`).join(', ')}.`}
+          </p>
+        </header>
+
+        <article className="prose prose-neutral max-w-none">
+          {/* Levels */}
+          <section className="mb-24">
+            {sectionHeader(1, 'Factor Levels')}
+            <div className="overflow-x-auto rounded-2xl border" style={styles.card}>
+              <table className="min-w-full text-left text-sm" style={styles.body}>
+                <thead>
+                  <tr className="text-xs uppercase tracking-wide" style={styles.subheading}>
+                    <th className="px-6 py-4">Factor</th>
+                    <th className="px-6 py-4">Prompts per level</th>
+                    <th className="px-6 py-4">Balanced</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {audit.factors.map(summary => (
+                    <tr key={summary.factor} className="border-t" style={{ borderColor: currentPalette.surface.border }}>
+                      <td className="px-6 py-3 whitespace-nowrap" style={styles.heading}>{factorLabel(summary.factor)}</td>
+                      <td className="px-6 py-3 font-mono text-xs">
+                        {summary.levels.map(level => `${level.level}: ${level.n}`).join(' · ')}
+                      </td>
+                      <td className="px-6 py-3">{summary.balanced ? 'yes' : 'no'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          {/* Pairs */}
+          <section className="mb-24">
+            {sectionHeader(2, 'Factor Pairs')}
+            <div className="overflow-x-auto rounded-2xl border" style={styles.card}>
+              <table className="min-w-full text-left text-sm" style={styles.body}>
+                <thead>
+                  <tr className="text-xs uppercase tracking-wide" style={styles.subheading}>
+                    <th className="px-4 py-3"></th>
+                    {factors.slice(1).map(factor => <th key={factor} className="px-4 py-3">{factorLabel(factor)}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {factors.slice(0, -1).map((a, row) => (
+                    <tr key={a} className="border-t" style={{ borderColor: currentPalette.surface.border }}>
+                      <td className="px-4 py-3 whitespace-nowrap text-xs uppercase tracking-wide" style={styles.subheading}>{factorLabel(a)}</td>
+                      {factors.slice(1).map((b, column) => {
+                        if (column < row) return <td key={b} className="px-4 py-3"></td>
+                        const cell = pairAudit(audit, a, b)!
+                        const active = pair === cell
+                        return (
+                          <td
+                            key={b}
+                            onClick={() => setSelectedPair([a, b])}
+                            className={`px-4 py-3 cursor-pointer ${active ? 'bg-blue-500/10' : 'hover:opacity-80'}`}
+                            title={`${cell.missing} empty cells${cell.balanced ? '' : ', unbalanced'}`}
+                          >
+                            {relationBadge(cell.relation)}
+                            {cell.relation === 'crossed' && !cell.balanced && (
+                              <span className="ml-1 text-xs" style={styles.muted}>unbalanced</span>
+                            )}
+                          </td>
+                        )
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-sm mt-4" style={styles.muted}>
+              Crossed: every combination of levels has prompts. Partly crossed: some combinations are empty. Nested: each
+              level of one factor only occurs under a single level of the other, so the outer factor&apos;s effect is
+              entangled with the inner one. Aliased: nested both ways, the two factors are the same split under
+              different names. Counts are distinct prompts. Click a pair to see its cells.
+            </p>
+          </section>
+
+          {/* Cells */}
+          <section className="mb-24">
+            {sectionHeader(3, 'Cell Counts')}
+            {pair && (
+              <>
+                <p className="text-base mb-6" style={styles.body}>
+                  <strong>{factorLabel(pair.a)} × {factorLabel(pair.b)}</strong> — {relationBadge(pair.relation)}
+                  {pair.inner && (
+                    <span style={styles.muted}>
+                      {' '}each {factorLabel(pair.inner).toLowerCase()} sits under one {factorLabel(pair.inner === pair.a ? pair.b : pair.a).toLowerCase()}
+                    </span>
+                  )}
+                </p>
+                <div className="overflow-x-auto rounded-2xl border" style={styles.card}>
+                  <table className="min-w-full text-left text-xs" style={styles.body}>
+                    <thead>
+                      <tr className="uppercase tracking-wide" style={styles.subheading}>
+                        <th className="px-4 py-3">{factorLabel(pair.a)}</th>
+                        {columnLevels.map(level => <th key={level} className="px-2 py-3 text-center">{level}</th>)}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rowLevels.map(rowLevel => (
+                        <tr key={rowLevel} className="border-t" style={{ borderColor: currentPalette.surface.border }}>
+                          <td className="px-4 py-2 whitespace-nowrap">{rowLevel}</td>
+                          {columnLevels.map(columnLevel => {
+                            const n = pair.cells.find(cell => cell.levels[0] === rowLevel && cell.levels[1] === columnLevel)?.n ?? 0
+                            return (
+                              <td key={columnLevel} className="p-0.5">
+                                <span
+                                  className={`block px-2 py-1 rounded font-mono text-center ${n === 0 ? 'text-rose-800 bg-rose-50 dark:text-rose-300 dark:bg-rose-900/20' : ''}`}
+                                >
+                                  {n}
+                                </span>
+                              </td>
+                            )
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <p className="text-sm mt-4" style={styles.muted}>
+                  Distinct prompts in each {factorLabel(pair.a).toLowerCase()} × {factorLabel(pair.b).toLowerCase()} cell.
+                  {pair.missing > 0 ? ` ${pair.missing} combinations are empty.` : ''}
+                  {pair.balanced ? ' Every non-empty cell has the same count.' : ' Cell counts differ, so pooled means weight the levels unequally.'}
+                </p>
+              </>
+            )}
+          </section>
+
+          {/* Full design */}
+          <section className="mb-24">
+            {sectionHeader(4, 'Full Design')}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+              {[
+                { label: 'Cells', value: audit.cells.length, note: audit.design.map(factorLabel).join(' × ') },
+                { label: 'Empty', value: audit.missingCells, note: 'combinations with no prompt' },
+                { label: 'Unbalanced', value: audit.unbalancedCells.length, note: 'non-empty cells off the usual count' }
+              ].map(stat => (
+                <div key={stat.label} className="rounded-2xl border p-6" style={styles.card}>
+                  <p className="text-xs uppercase tracking-wide mb-2" style={styles.subheading}>{stat.label}</p>
+                  <p className="text-3xl font-bold font-mono" style={styles.heading}>{stat.value}</p>
+                  <p className="text-xs mt-2" style={styles.muted}>{stat.note}</p>
+                </div>
+              ))}
+            </div>
+            {dropped.length > 0 && (
+              <p className="text-base mb-6" style={styles.body}>
+                {dropped.map(factorLabel).join(' and ')} {dropped.length === 1 ? 'is' : 'are'} left out of the full
+                combination because {dropped.length === 1 ? 'it is' : 'they are'} fully determined by the other factors and
+                add no cells of their own.
+              </p>
+            )}
+            {[
+              { title: 'Empty cells', cells: emptyCells },
+              { title: 'Unbalanced cells', cells: audit.unbalancedCells }
+            ].filter(list => list.cells.length > 0).map(list => (
+              <div key={list.title} className="rounded-2xl border p-6 mb-4" style={styles.card}>
+                <h4 className="font-semibold mb-3" style={styles.subheading}>{list.title}</h4>
+                <ul className="text-xs font-mono space-y-1" style={styles.body}>
+                  {list.cells.slice(0, MAX_LISTED_CELLS).map(cell => (
+                    <li key={cell.levels.join('|')}>
+                      {audit.design.map((factor, i) => `${factorLabel(factor)} ${cell.levels[i]}`).join(' · ')}: {cell.n}
+                    </li>
+                  ))}
+                  {list.cells.length > MAX_LISTED_CELLS && (
+                    <li className="italic">+{list.cells.length - MAX_LISTED_CELLS} more</li>
+                  )}
+                </ul>
+              </div>
+            ))}
+            {emptyCells.length === 0 && audit.unbalancedCells.length === 0 && (
+              <p className="text-sm" style={styles.muted}>
+                Every combination of {audit.design.map(factorLabel).join(', ').toLowerCase()} has the same number of prompts.
+              </p>
+            )}
+          </section>
+        </article>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,306 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { styles, currentPalette } from '../methodology/design-system'
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Tooltip,
+  Legend
+} from 'chart.js'
+import { Bar } from 'react-chartjs-2'
+import {
+  BenchmarkRun,
+  DeltaByTopicEntry,
+  ResponseData,
+  getResponse,
+  loadDeltaByTopic,
+  loadResponses,
+  loadRunManifest,
+  resolveRun
+} from '../../lib/data'
+import { complianceRanking, findDevilPairs } from '../../lib/analysis/devil'
+import DesignWarnings from '../../components/DesignWarnings'
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip, Legend)
+
+// Positive delta (endorsement drops when asked to argue the other side) in green, negative in rose
+const deltaColor = (delta: number) => {
+  const alpha = Math.min(1, Math.abs(delta)) * 0.85 + 0.05
+  return delta >= 0 ? `rgba(16, 185, 129, ${alpha})` : `rgba(244, 63, 94, ${alpha})`
+}
+
+export default function DevilsAdvocate() {
+  const searchParams = useSearchParams()
+  const runId = searchParams.get('run')
+  const [run, setRun] = useState<BenchmarkRun | null>(null)
+  const [entries, setEntries] = useState<DeltaByTopicEntry[]>([])
+  const [data, setData] = useState<ResponseData[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [selection, setSelection] = useState<{ model: string, topic: string } | null>(null)
+
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true)
+      try {
+        const selectedRun = resolveRun(await loadRunManifest(), runId)
+        setRun(selectedRun)
+        setEntries(await loadDeltaByTopic(selectedRun))
+        setData(await loadResponses(selectedRun))
+        setError(null)
+      } catch (err) {
+        console.error('Error loading data:', err)
+        setError(err instanceof Error ? err.message : String(err))
+      }
+      setLoading(false)
+    }
+
+    loadData()
+  }, [runId])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center" style={styles.page}>
+        <div className="text-xl" style={styles.body}>Loading devil&apos;s-advocate data...</div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center" style={styles.page}>
+        <div className="rounded-2xl border p-8 max-w-xl" style={styles.card}>
+          <p className="text-lg m-0" style={styles.body}>Could not load delta_by_topic.json: {error}</p>
+        </div>
+      </div>
+    )
+  }
+
+  const ranking = complianceRanking(entries)
+  const topics = Array.from(new Set(entries.map(e => e.topic))).sort()
+  const cells = new Map(entries.map(e => [`${e.model}|${e.topic}`, e]))
+  const active = selection ?? (ranking.length > 0 && topics.length > 0 ? { model: ranking[0].model, topic: topics[0] } : null)
+  const activeEntry = active ? cells.get(`${active.model}|${active.topic}`) : undefined
+  const pairs = active ? findDevilPairs(data).filter(p => p.topic === active.topic) : []
+  const runQuery = run ? `run=${encodeURIComponent(run.id)}` : ''
+
+  const explorerLink = (promptId: string, model: string) => {
+    const params = new URLSearchParams()
+    if (run) params.set('run', run.id)
+    params.set('prompt', promptId)
+    params.set('model', model)
+    params.set('paired', '1')
+    return `/prompt-explorer?${params.toString()}`
+  }
+
+  const sectionHeader = (number: number, title: string) => (
+    <div className="flex items-center gap-6 mb-12">
+      <div className="flex items-center justify-center w-16 h-16 rounded-2xl" style={styles.badge}>
+        <span className="text-3xl font-bold" style={styles.subheading}>{number}</span>
+      </div>
+      <h2 className="text-4xl font-bold font-heading m-0 tracking-tight" style={styles.heading}>{title}</h2>
+    </div>
+  )
+
+  return (
+    <div className="min-h-screen" style={styles.page}>
+      <div className="max-w-6xl mx-auto px-6 py-12">
+
+        {/* Back Navigation */}
+        <Link
+          href={runQuery ? `/results?${runQuery}` : '/results'}
+          className="inline-flex items-center gap-2 transition-colors duration-200 mb-8 hover:opacity-80"
+          style={styles.link}
+        >
+          <svg width={16} height={16} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="m12 19-7-7 7-7"/>
+            <path d="M19 12H5"/>
+          </svg>
+          Back to Results
+        </Link>
+
+        {/* Header */}
+        <header className="mb-20">
+          <h1 className="text-6xl font-bold font-heading mb-8 leading-tight tracking-tight" style={styles.heading}>
+            Devil&apos;s-Advocate Sensitivity
+          </h1>
+          <p className="text-lg leading-relaxed max-w-4xl" style={styles.body}>
+            Every prompt is asked twice: once plainly and once with a request to argue the other side. Delta is the
+            drop in mean endorsement (AOS) from the plain to the devil&apos;s-advocate version, per model and topic.
+            A large positive delta means the model actually pushes back when invited to; a delta near zero or below
+            means it keeps agreeing with the user anyway.
+          </p>
+        </header>
+
+        <article className="prose prose-neutral max-w-none">
+          <DesignWarnings rows={data} factors={['ask_devil', 'topic']} runQuery={runQuery} />
+
+          {/* Compliance Ranking */}
+          <section className="mb-24">
+            {sectionHeader(1, 'Compliance Ranking')}
+            <div className="rounded-xl border p-4" style={{ borderColor: styles.card.borderColor, height: Math.max(400, ranking.length * 18) }}>
+              <Bar
+                data={{
+                  labels: ranking.map(r => r.model),
+                  datasets: [{
+                    label: 'Mean delta',
+                    data: ranking.map(r => r.meanDelta),
+                    backgroundColor: ranking.map(r => deltaColor(r.meanDelta)),
+                    borderWidth: 0
+                  }]
+                }}
+                options={{
+                  indexAxis: 'y' as const,
+                  responsive: true,
+                  maintainAspectRatio: false,
+                  onClick: (_event, elements) => {
+                    if (elements.length > 0 && active) {
+                      setSelection({ model: ranking[elements[0].index].model, topic: active.topic })
+                    }
+                  },
+                  plugins: {
+                    legend: { display: false },
+                    tooltip: {
+                      callbacks: {
+                        label: (context) => {
+                          const item = ranking[context.dataIndex]
+                          return `Δ ${item.meanDelta.toFixed(3)} (topics ${item.minDelta.toFixed(2)} to ${item.maxDelta.toFixed(2)})`
+                        }
+                      }
+                    }
+                  },
+                  scales: {
+                    x: { title: { display: true, text: 'AOS regular − AOS devil' } },
+                    y: { ticks: { autoSkip: false, font: { size: 10 } } }
+                  }
+                }}
+              />
+            </div>
+            <p className="text-sm mt-4" style={styles.muted}>
+              Mean delta across topics, weighted by the number of devil&apos;s-advocate prompts. Click a bar to drill into that model.
+            </p>
+          </section>
+
+          {/* Heatmap */}
+          <section className="mb-24">
+            {sectionHeader(2, 'Model × Topic')}
+            <div className="overflow-x-auto rounded-2xl border" style={styles.card}>
+              <table className="min-w-full text-left text-xs" style={styles.body}>
+                <thead>
+                  <tr className="uppercase tracking-wide" style={styles.subheading}>
+                    <th className="px-4 py-3">Model</th>
+                    {topics.map(topic => <th key={topic} className="px-2 py-3 text-center">{topic}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {ranking.map(item => (
+                    <tr key={item.model} className="border-t" style={{ borderColor: currentPalette.surface.border }}>
+                      <td className="px-4 py-1 whitespace-nowrap">
+                        <Link
+                          href={`/models/${encodeURIComponent(item.model)}${runQuery ? `?${runQuery}` : ''}`}
+                          style={styles.link}
+                        >
+                          {item.model}
+                        </Link>
+                      </td>
+                      {topics.map(topic => {
+                        const cell = cells.get(`${item.model}|${topic}`)
+                        const isActive = active?.model === item.model && active.topic === topic
+                        return (
+                          <td key={topic} className="p-0.5">
+                            {cell ? (
+                              <button
+                                onClick={() => setSelection({ model: item.model, topic })}
+                                title={`${item.model} · ${topic}: regular ${cell.AOS_regular.toFixed(2)}, devil ${cell.AOS_devil.toFixed(2)}`}
+                                className={`w-full px-2 py-1 rounded font-mono text-center ${isActive ? 'ring-2 ring-blue-500' : ''}`}
+                                style={{ backgroundColor: deltaColor(cell.delta), color: currentPalette.text.primary }}
+                              >
+                                {cell.delta.toFixed(2)}
+                              </button>
+                            ) : (
+                              <span className="block text-center" style={styles.muted}>—</span>
+                            )}
+                          </td>
+                        )
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-sm mt-4" style={styles.muted}>
+              Rows follow the compliance ranking. Green cells lose endorsement under the devil&apos;s-advocate request,
+              rose cells gain it. Click a cell to see its prompt pairs.
+            </p>
+          </section>
+
+          {/* Drilldown */}
+          <section className="mb-24">
+            {sectionHeader(3, 'Paired Prompts')}
+            {active && activeEntry ? (
+              <>
+                <p className="text-base mb-6" style={styles.body}>
+                  <strong style={styles.heading}>{active.model}</strong> on <strong style={styles.heading}>{active.topic}</strong>:
+                  AOS {activeEntry.AOS_regular.toFixed(2)} plain vs {activeEntry.AOS_devil.toFixed(2)} with the
+                  devil&apos;s-advocate request (Δ {activeEntry.delta.toFixed(2)}, {activeEntry.n_regular} + {activeEntry.n_devil} prompts).
+                </p>
+                <div className="overflow-x-auto rounded-2xl border" style={styles.card}>
+                  <table className="min-w-full text-left text-sm" style={styles.body}>
+                    <thead>
+                      <tr className="text-xs uppercase tracking-wide" style={styles.subheading}>
+                        <th className="px-6 py-4">Persona</th>
+                        <th className="px-6 py-4">Stance</th>
+                        <th className="px-6 py-4">Strength</th>
+                        <th className="px-6 py-4">Plain</th>
+                        <th className="px-6 py-4">Devil&apos;s advocate</th>
+                        <th className="px-6 py-4">Δ endorse</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {pairs.map(pair => {
+                        const regular = getResponse(data, active.model, pair.regular)
+                        const devil = getResponse(data, active.model, pair.devil)
+                        const delta = regular && devil ? regular.scores.endorse_stance - devil.scores.endorse_stance : null
+                        const outcome = (row: ResponseData | undefined, promptId: string) => (
+                          <Link href={explorerLink(promptId, active.model)} style={styles.link}>
+                            <span className="font-mono">{promptId}</span>
+                            {row && ` · ${row.scores.pred_label} (${row.scores.endorse_stance.toFixed(2)})`}
+                          </Link>
+                        )
+                        return (
+                          <tr key={pair.regular} className="border-t" style={{ borderColor: currentPalette.surface.border }}>
+                            <td className="px-6 py-3">{pair.persona}</td>
+                            <td className="px-6 py-3 font-mono">{pair.stance > 0 ? '+' : ''}{pair.stance}</td>
+                            <td className="px-6 py-3 font-mono">{pair.strength}</td>
+                            <td className="px-6 py-3">{outcome(regular, pair.regular)}</td>
+                            <td className="px-6 py-3">{outcome(devil, pair.devil)}</td>
+                            <td className="px-6 py-3 font-mono">
+                              {delta === null ? '—' : (
+                                <span className="px-2 py-0.5 rounded" style={{ backgroundColor: deltaColor(delta) }}>{delta.toFixed(2)}</span>
+                              )}
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+                <p className="text-sm mt-4" style={styles.muted}>
+                  Each row is one prompt asked with and without the devil&apos;s-advocate request; everything else
+                  (topic, persona, stance, strength) is identical. Links open Prompt Explorer with both responses side by side.
+                </p>
+              </>
+            ) : (
+              <p className="text-sm" style={styles.muted}>Select a cell in the heatmap.</p>
+            )}
+          </section>
+        </article>
+      </div>
+    </div>
+  )
+}
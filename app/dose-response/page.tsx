@@ -0,0 +1,365 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { styles, currentPalette } from '../methodology/design-system'
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend
+} from 'chart.js'
+import { Scatter } from 'react-chartjs-2'
+import {
+  BenchmarkRun,
+  ResponseData,
+  canonicalModelName,
+  comparePromptIds,
+  getIndexes,
+  loadResponses,
+  loadRunManifest,
+  resolveRun
+} from '../../lib/data'
+import { DoseCell, doseResponse, isEndorsement, logisticCurve } from '../../lib/analysis/doseResponse'
+import DesignWarnings from '../../components/DesignWarnings'
+
+ChartJS.register(LinearScale, PointElement, LineElement, Tooltip, Legend)
+
+const MAX_MODELS = 4
+const SLOT_COLORS = ['59, 130, 246', '244, 63, 94', '16, 185, 129', '245, 158, 11']
+const CURVE_STEPS = 30
+
+type Metric = 'pEndorse' | 'meanEndorse'
+
+interface SelectedCell {
+  model: string
+  stance: number
+  strength: number
+}
+
+const stanceLabel = (stance: number) => (stance > 0 ? 'stance +1' : 'stance −1')
+
+export default function DoseResponsePage() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const runId = searchParams.get('run')
+  const modelsParam = searchParams.get('models')
+  const selected = modelsParam ? modelsParam.split(',').filter(Boolean).map(canonicalModelName).slice(0, MAX_MODELS) : []
+  const [run, setRun] = useState<BenchmarkRun | null>(null)
+  const [data, setData] = useState<ResponseData[]>([])
+  const [loading, setLoading] = useState(true)
+  const [metric, setMetric] = useState<Metric>('pEndorse')
+  const [cell, setCell] = useState<SelectedCell | null>(null)
+
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true)
+      try {
+        const selectedRun = resolveRun(await loadRunManifest(), runId)
+        setRun(selectedRun)
+        setData(await loadResponses(selectedRun))
+      } catch (error) {
+        console.error('Error loading data:', error)
+      }
+      setLoading(false)
+    }
+
+    loadData()
+  }, [runId])
+
+  const setModels = (models: string[]) => {
+    const params = new URLSearchParams()
+    if (runId) params.set('run', runId)
+    if (models.length > 0) params.set('models', models.join(','))
+    setCell(null)
+    router.replace(`/dose-response?${params.toString()}`)
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center" style={styles.page}>
+        <div className="text-xl" style={styles.body}>Loading responses...</div>
+      </div>
+    )
+  }
+
+  const indexes = getIndexes(data)
+  const models = selected.filter(model => indexes.byModel.has(model))
+  const available = indexes.models.filter(model => !models.includes(model))
+  const curves = models.map(model => doseResponse(model, indexes.byModel.get(model) ?? []))
+  const strengths = Array.from(new Set(data.map(r => r.strength))).sort((a, b) => a - b)
+  const [minStrength, maxStrength] = [strengths[0] ?? 0, strengths[strengths.length - 1] ?? 1]
+  const runQuery = run ? `run=${encodeURIComponent(run.id)}` : ''
+
+  // Observed series first (one per model and polarity), fitted curves after
+  const observed = curves.flatMap((curve, slot) => [1, -1].map(stance => ({ curve, slot, stance })))
+  const selectedCell: DoseCell | undefined = cell
+    ? curves.find(c => c.model === cell.model)?.cells.find(c => c.stance === cell.stance && c.strength === cell.strength)
+    : undefined
+
+  const sectionHeader = (number: number, title: string) => (
+    <div className="flex items-center gap-6 mb-12">
+      <div className="flex items-center justify-center w-16 h-16 rounded-2xl" style={styles.badge}>
+        <span className="text-3xl font-bold" style={styles.subheading}>{number}</span>
+      </div>
+      <h2 className="text-4xl font-bold font-heading m-0 tracking-tight" style={styles.heading}>{title}</h2>
+    </div>
+  )
+
+  const selectStyle = {
+    backgroundColor: currentPalette.surface.card,
+    borderColor: currentPalette.surface.border,
+    color: currentPalette.text.primary
+  }
+
+  return (
+    <div className="min-h-screen" style={styles.page}>
+      <div className="max-w-6xl mx-auto px-6 py-12">
+
+        {/* Back Navigation */}
+        <Link
+          href={runQuery ? `/results?${runQuery}` : '/results'}
+          className="inline-flex items-center gap-2 transition-colors duration-200 mb-8 hover:opacity-80"
+          style={styles.link}
+        >
+          <svg width={16} height={16} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="m12 19-7-7 7-7"/>
+            <path d="M19 12H5"/>
+          </svg>
+          Back to Results
+        </Link>
+
+        {/* Header */}
+        <header className="mb-20">
+          <h1 className="text-6xl font-bold font-heading mb-8 leading-tight tracking-tight" style={styles.heading}>
+            Dose–Response
+          </h1>
+          <p className="text-lg leading-relaxed max-w-4xl" style={styles.body}>
+            How endorsement changes as the user states their position more strongly. Each line is one model and
+            polarity; a rising line means the model gives in more the harder it is pushed.
+          </p>
+
+          <div className="mt-8 rounded-2xl border p-4 flex flex-wrap items-center gap-3" style={styles.card}>
+            {models.map((model, index) => (
+              <span
+                key={model}
+                className="inline-flex items-center gap-2 px-3 py-1 rounded-full text-sm border"
+                style={{ borderColor: `rgb(${SLOT_COLORS[index]})`, color: currentPalette.text.primary }}
+              >
+                {model}
+                <button onClick={() => setModels(models.filter(m => m !== model))} aria-label={`Remove ${model}`} style={styles.muted}>
+                  ×
+                </button>
+              </span>
+            ))}
+            {models.length < MAX_MODELS && (
+              <select
+                value=""
+                onChange={(e) => e.target.value && setModels([...models, e.target.value])}
+                className="px-4 py-2 rounded-lg border text-sm min-w-64"
+                style={selectStyle}
+              >
+                <option value="">Add a model...</option>
+                {available.map(model => <option key={model} value={model}>{model}</option>)}
+              </select>
+            )}
+            <div className="inline-flex rounded-lg border overflow-hidden text-sm ml-auto" style={{ borderColor: currentPalette.surface.border }}>
+              {(['pEndorse', 'meanEndorse'] as Metric[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setMetric(option)}
+                  className={`px-4 py-2 font-medium transition-colors ${metric === option ? 'bg-blue-600 text-white' : 'hover:opacity-80'}`}
+                  style={metric === option ? undefined : styles.body}
+                >
+                  {option === 'pEndorse' ? 'P(endorse)' : 'Mean endorse_stance'}
+                </button>
+              ))}
+            </div>
+          </div>
+        </header>
+
+        {models.length === 0 ? (
+          <div className="rounded-2xl border p-12 text-center" style={styles.card}>
+            <p className="text-lg m-0" style={styles.body}>Add one or more models to draw their curves.</p>
+          </div>
+        ) : (
+          <article className="prose prose-neutral max-w-none">
+            <DesignWarnings rows={data} factors={['stance', 'strength']} runQuery={runQuery} />
+
+            {/* Curves */}
+            <section className="mb-24">
+              {sectionHeader(1, 'Endorsement by Strength')}
+              <div className="h-[28rem] rounded-xl border p-4" style={{ borderColor: styles.card.borderColor }}>
+                <Scatter
+                  data={{
+                    datasets: [
+                      ...observed.map(({ curve, slot, stance }) => ({
+                        label: `${curve.model} · ${stanceLabel(stance)}`,
+                        data: curve.cells
+                          .filter(c => c.stance === stance)
+                          .map(c => ({ x: c.strength, y: c[metric] })),
+                        showLine: true,
+                        borderColor: `rgba(${SLOT_COLORS[slot]}, 1)`,
+                        backgroundColor: `rgba(${SLOT_COLORS[slot]}, ${stance > 0 ? 1 : 0.3})`,
+                        borderDash: stance > 0 ? [] : [6, 4],
+                        pointRadius: 6,
+                        pointHoverRadius: 9
+                      })),
+                      // Logistic fits are on the binary outcome, so they only overlay P(endorse)
+                      ...(metric === 'pEndorse'
+                        ? observed.flatMap(({ curve, slot, stance }) => {
+                            const fit = curve.fits[stance]
+                            if (!fit) return []
+                            return [{
+                              label: `${curve.model} · ${stanceLabel(stance)} (logistic fit)`,
+                              data: Array.from({ length: CURVE_STEPS + 1 }, (_, i) => {
+                                const x = minStrength + (maxStrength - minStrength) * (i / CURVE_STEPS)
+                                return { x, y: logisticCurve(fit, x) }
+                              }),
+                              showLine: true,
+                              borderColor: `rgba(${SLOT_COLORS[slot]}, 0.45)`,
+                              borderWidth: 1.5,
+                              borderDash: [2, 3],
+                              pointRadius: 0,
+                              pointHoverRadius: 0
+                            }]
+                          })
+                        : [])
+                    ]
+                  }}
+                  options={{
+                    responsive: true,
+                    maintainAspectRatio: false,
+                    onClick: (_event, elements) => {
+                      const hit = elements.find(element => element.datasetIndex < observed.length)
+                      if (!hit) return
+                      const { curve, stance } = observed[hit.datasetIndex]
+                      const cells = curve.cells.filter(c => c.stance === stance)
+                      setCell({ model: curve.model, stance, strength: cells[hit.index].strength })
+                    },
+                    plugins: {
+                      legend: {
+                        position: 'top' as const,
+                        labels: { filter: (item) => !item.text.endsWith('(logistic fit)') }
+                      },
+                      tooltip: {
+                        filter: (item) => item.datasetIndex < observed.length,
+                        callbacks: {
+                          label: (context) => {
+                            const { curve, stance } = observed[context.datasetIndex]
+                            const c = curve.cells.filter(item => item.stance === stance)[context.dataIndex]
+                            return [
+                              `${curve.model} · ${stanceLabel(stance)} · strength ${c.strength}`,
+                              `P(endorse) ${(c.pEndorse * 100).toFixed(0)}% · mean endorse ${c.meanEndorse.toFixed(2)} (n = ${c.n})`
+                            ]
+                          }
+                        }
+                      }
+                    },
+                    scales: {
+                      x: { title: { display: true, text: 'Prompt strength' }, min: minStrength - 0.05, max: maxStrength + 0.05 },
+                      y: { title: { display: true, text: metric === 'pEndorse' ? 'P(endorse)' : 'Mean endorse_stance' }, min: 0, max: 1 }
+                    }
+                  }}
+                />
+              </div>
+              <p className="text-sm mt-4" style={styles.muted}>
+                Solid lines: stance +1; dashed: stance −1. P(endorse) is the share of responses with endorse_stance ≥ 0.5;
+                dotted curves are the logistic fits. Click a point to list the prompts in that cell.
+              </p>
+            </section>
+
+            {/* Slopes */}
+            <section className="mb-24">
+              {sectionHeader(2, 'Logistic Slopes')}
+              <div className="overflow-x-auto rounded-2xl border" style={styles.card}>
+                <table className="min-w-full text-left text-sm" style={styles.body}>
+                  <thead>
+                    <tr className="text-xs uppercase tracking-wide" style={styles.subheading}>
+                      <th className="px-6 py-4">Model</th>
+                      <th className="px-6 py-4">Polarity</th>
+                      <th className="px-6 py-4">Slope (log-odds per unit strength)</th>
+                      <th className="px-6 py-4">95% CI</th>
+                      <th className="px-6 py-4">Odds ratio, {minStrength} → {maxStrength}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {observed.map(({ curve, slot, stance }) => {
+                      const fit = curve.fits[stance]
+                      const excludesZero = fit ? fit.slopeCi[0] > 0 || fit.slopeCi[1] < 0 : false
+                      return (
+                        <tr key={`${curve.model}-${stance}`} className="border-t" style={{ borderColor: currentPalette.surface.border }}>
+                          <td className="px-6 py-3" style={{ color: `rgb(${SLOT_COLORS[slot]})` }}>{curve.model}</td>
+                          <td className="px-6 py-3">{stanceLabel(stance)}</td>
+                          <td className={`px-6 py-3 font-mono ${excludesZero ? 'font-semibold' : ''}`}>{fit ? fit.slope.toFixed(2) : '—'}</td>
+                          <td className="px-6 py-3 font-mono">{fit ? `[${fit.slopeCi[0].toFixed(2)}, ${fit.slopeCi[1].toFixed(2)}]` : '—'}</td>
+                          <td className="px-6 py-3 font-mono">{fit ? Math.exp(fit.slope * (maxStrength - minStrength)).toFixed(2) : '—'}</td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-sm mt-4" style={styles.muted}>
+                Wald intervals from a logistic regression of endorsement on strength, per polarity. Bold slopes have
+                intervals that exclude zero.
+              </p>
+            </section>
+
+            {/* Cell prompts */}
+            <section className="mb-24">
+              {sectionHeader(3, 'Prompts in Cell')}
+              {cell && selectedCell ? (
+                <>
+                  <p className="text-base mb-6" style={styles.body}>
+                    <strong style={styles.heading}>{cell.model}</strong> · {stanceLabel(cell.stance)} · strength {cell.strength}:
+                    {' '}{selectedCell.rows.filter(isEndorsement).length} of {selectedCell.n} responses endorse.
+                  </p>
+                  <div className="overflow-x-auto rounded-2xl border" style={styles.card}>
+                    <table className="min-w-full text-left text-sm" style={styles.body}>
+                      <thead>
+                        <tr className="text-xs uppercase tracking-wide" style={styles.subheading}>
+                          <th className="px-6 py-4">Prompt</th>
+                          <th className="px-6 py-4">Topic</th>
+                          <th className="px-6 py-4">Persona</th>
+                          <th className="px-6 py-4">Devil&apos;s advocate</th>
+                          <th className="px-6 py-4">Endorse</th>
+                          <th className="px-6 py-4">Label</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {selectedCell.rows.slice().sort((a, b) => comparePromptIds(a.prompt_id, b.prompt_id)).map(row => (
+                          <tr key={row.prompt_id} className="border-t" style={{ borderColor: currentPalette.surface.border }}>
+                            <td className="px-6 py-3">
+                              <Link
+                                href={`/prompt-explorer?${runQuery ? `${runQuery}&` : ''}prompt=${encodeURIComponent(row.prompt_id)}&model=${encodeURIComponent(cell.model)}`}
+                                className="font-mono"
+                                style={styles.link}
+                              >
+                                {row.prompt_id}
+                              </Link>
+                            </td>
+                            <td className="px-6 py-3">{row.topic}</td>
+                            <td className="px-6 py-3">{row.persona}</td>
+                            <td className="px-6 py-3">{row.ask_devil ? 'Yes' : 'No'}</td>
+                            <td className={`px-6 py-3 font-mono ${isEndorsement(row) ? 'font-semibold' : ''}`}>{row.scores.endorse_stance.toFixed(2)}</td>
+                            <td className="px-6 py-3">{row.scores.pred_label}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm" style={styles.muted}>Click a point on the chart to list its prompts.</p>
+              )}
+            </section>
+          </article>
+        )}
+      </div>
+    </div>
+  )
+}
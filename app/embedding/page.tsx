@@ -0,0 +1,323 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { styles, currentPalette } from '../methodology/design-system'
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  Tooltip,
+  Legend
+} from 'chart.js'
+import { Scatter } from 'react-chartjs-2'
+import { BenchmarkRun, canonicalModelName, loadRunManifest, loadSssVectors, resolveRun } from '../../lib/data'
+import {
+  DEFAULT_TSNE,
+  DendrogramNode,
+  PcaResult,
+  StandardizedVectors,
+  dimensionNames,
+  hierarchicalClustering,
+  nearestNeighbours,
+  pca,
+  standardize,
+  tsne
+} from '../../lib/analysis/embedding'
+import Dendrogram from '../../components/Dendrogram'
+
+ChartJS.register(LinearScale, PointElement, Tooltip, Legend)
+
+type Projection = 'pca' | 'tsne'
+
+const NEIGHBOURS_SHOWN = 5
+
+export default function Embedding() {
+  const searchParams = useSearchParams()
+  const runId = searchParams.get('run')
+  const [run, setRun] = useState<BenchmarkRun | null>(null)
+  const [vectors, setVectors] = useState<StandardizedVectors | null>(null)
+  const [components, setComponents] = useState<PcaResult | null>(null)
+  const [tree, setTree] = useState<DendrogramNode | null>(null)
+  const [tsneLayout, setTsneLayout] = useState<number[][] | null>(null)
+  const [projection, setProjection] = useState<Projection>('pca')
+  const modelParam = searchParams.get('model')
+  const [selectedModel, setSelectedModel] = useState<string | null>(modelParam ? canonicalModelName(modelParam) : null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true)
+      try {
+        const selectedRun = resolveRun(await loadRunManifest(), runId)
+        setRun(selectedRun)
+        const standardized = standardize(await loadSssVectors(selectedRun))
+        setVectors(standardized)
+        setComponents(pca(standardized.rows, 2))
+        setTree(hierarchicalClustering(standardized))
+        setTsneLayout(null)
+        setError(null)
+      } catch (err) {
+        console.error('Error loading data:', err)
+        setError(err instanceof Error ? err.message : String(err))
+      }
+      setLoading(false)
+    }
+
+    loadData()
+  }, [runId])
+
+  // t-SNE is only run once it is asked for; defer so the toggle repaints first
+  useEffect(() => {
+    if (projection !== 'tsne' || tsneLayout || !vectors) return
+    const timer = setTimeout(() => setTsneLayout(tsne(vectors.rows, DEFAULT_TSNE)), 0)
+    return () => clearTimeout(timer)
+  }, [projection, tsneLayout, vectors])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center" style={styles.page}>
+        <div className="text-xl" style={styles.body}>Loading behaviour vectors...</div>
+      </div>
+    )
+  }
+
+  if (error || !vectors || !components) {
+    return (
+      <div className="min-h-screen flex items-center justify-center" style={styles.page}>
+        <div className="rounded-2xl border p-8 max-w-xl" style={styles.card}>
+          <p className="text-lg m-0" style={styles.body}>Could not load sss_vectors.json: {error}</p>
+        </div>
+      </div>
+    )
+  }
+
+  const dimensions = dimensionNames(vectors.rows[0]?.length ?? 0)
+  const points = projection === 'pca' ? components.scores : tsneLayout
+  const neighbours = selectedModel ? nearestNeighbours(vectors, selectedModel, NEIGHBOURS_SHOWN) : []
+  const neighbourSet = new Set(neighbours.map(n => n.model))
+  const runQuery = run ? `run=${encodeURIComponent(run.id)}` : ''
+  const axisTitle = (index: number) => projection === 'pca'
+    ? `PC${index + 1} (${(components.explained[index] * 100).toFixed(1)}% of variance)`
+    : `t-SNE ${index + 1}`
+
+  const pointColor = (model: string) => {
+    if (model === selectedModel) return 'rgba(59, 130, 246, 1)'
+    if (neighbourSet.has(model)) return 'rgba(16, 185, 129, 0.9)'
+    return 'rgba(100, 116, 139, 0.6)'
+  }
+
+  const sectionHeader = (number: number, title: string) => (
+    <div className="flex items-center gap-6 mb-12">
+      <div className="flex items-center justify-center w-16 h-16 rounded-2xl" style={styles.badge}>
+        <span className="text-3xl font-bold" style={styles.subheading}>{number}</span>
+      </div>
+      <h2 className="text-4xl font-bold font-heading m-0 tracking-tight" style={styles.heading}>{title}</h2>
+    </div>
+  )
+
+  const selectStyle = {
+    backgroundColor: currentPalette.surface.card,
+    borderColor: currentPalette.surface.border,
+    color: currentPalette.text.primary
+  }
+
+  return (
+    <div className="min-h-screen" style={styles.page}>
+      <div className="max-w-6xl mx-auto px-6 py-12">
+
+        {/* Back Navigation */}
+        <Link
+          href={runQuery ? `/results?${runQuery}` : '/results'}
+          className="inline-flex items-center gap-2 transition-colors duration-200 mb-8 hover:opacity-80"
+          style={styles.link}
+        >
+          <svg width={16} height={16} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="m12 19-7-7 7-7"/>
+            <path d="M19 12H5"/>
+          </svg>
+          Back to Results
+        </Link>
+
+        {/* Header */}
+        <header className="mb-20">
+          <h1 className="text-6xl font-bold font-heading mb-8 leading-tight tracking-tight" style={styles.heading}>
+            Behaviour Embedding
+          </h1>
+          <p className="text-lg leading-relaxed max-w-4xl" style={styles.body}>
+            Every model is summarised by a {dimensions.length}-dimensional behaviour vector (sss_vectors.json). The
+            dimensions are z-scored across models, projected to two dimensions and clustered, so models that behave
+            alike sit close together.
+          </p>
+          <div className="mt-8 flex flex-wrap items-center gap-4">
+            <select
+              value={selectedModel ?? ''}
+              onChange={(e) => setSelectedModel(e.target.value || null)}
+              className="px-4 py-2 rounded-lg border text-sm min-w-64"
+              style={selectStyle}
+            >
+              <option value="">Find models that behave like...</option>
+              {vectors.models.map(model => <option key={model} value={model}>{model}</option>)}
+            </select>
+            <div className="inline-flex rounded-lg border overflow-hidden text-sm" style={{ borderColor: currentPalette.surface.border }}>
+              {(['pca', 'tsne'] as Projection[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setProjection(option)}
+                  className="px-4 py-2"
+                  style={projection === option ? styles.highlight : { color: currentPalette.text.primary }}
+                >
+                  {option === 'pca' ? 'PCA' : 't-SNE'}
+                </button>
+              ))}
+            </div>
+          </div>
+        </header>
+
+        <article className="prose prose-neutral max-w-none">
+          {/* Projection */}
+          <section className="mb-24">
+            {sectionHeader(1, 'Projection')}
+            <div className="h-[32rem] rounded-xl border p-4" style={{ borderColor: styles.card.borderColor }}>
+              {points ? (
+                <Scatter
+                  data={{
+                    datasets: [{
+                      label: 'Models',
+                      data: points.map(([x, y]) => ({ x, y })),
+                      backgroundColor: vectors.models.map(pointColor),
+                      pointRadius: vectors.models.map(model => (model === selectedModel ? 9 : 6)),
+                      pointHoverRadius: 10
+                    }]
+                  }}
+                  options={{
+                    responsive: true,
+                    maintainAspectRatio: false,
+                    onClick: (_event, elements) => {
+                      if (elements.length > 0) setSelectedModel(vectors.models[elements[0].index])
+                    },
+                    plugins: {
+                      legend: { display: false },
+                      tooltip: {
+                        callbacks: {
+                          label: (context) => vectors.models[context.dataIndex]
+                        }
+                      }
+                    },
+                    scales: {
+                      x: { title: { display: true, text: axisTitle(0) } },
+                      y: { title: { display: true, text: axisTitle(1) } }
+                    }
+                  }}
+                />
+              ) : (
+                <div className="h-full flex items-center justify-center text-sm" style={styles.muted}>Running t-SNE...</div>
+              )}
+            </div>
+            <p className="text-sm mt-4" style={styles.muted}>
+              {projection === 'pca'
+                ? 'Principal components of the standardised vectors; axis directions are given by the loadings below.'
+                : `Seeded t-SNE (perplexity ${DEFAULT_TSNE.perplexity}, ${DEFAULT_TSNE.iterations} iterations, seed ${DEFAULT_TSNE.seed}). Distances between clusters are not meaningful; the layout is identical on every load.`}
+              {' '}Click a point to select a model; its nearest neighbours turn green.
+            </p>
+          </section>
+
+          {/* Loadings */}
+          <section className="mb-24">
+            {sectionHeader(2, 'Loadings')}
+            <div className="overflow-x-auto rounded-2xl border" style={styles.card}>
+              <table className="min-w-full text-left text-sm" style={styles.body}>
+                <thead>
+                  <tr className="text-xs uppercase tracking-wide" style={styles.subheading}>
+                    <th className="px-6 py-4">Dimension</th>
+                    {components.loadings.map((_, index) => (
+                      <th key={index} className="px-6 py-4">PC{index + 1} ({(components.explained[index] * 100).toFixed(1)}%)</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {dimensions.map((dimension, j) => (
+                    <tr key={dimension.key} className="border-t" style={{ borderColor: currentPalette.surface.border }}>
+                      <td className="px-6 py-3">
+                        <strong style={styles.heading}>{dimension.key}</strong>{' '}
+                        <span className="text-xs" style={styles.muted}>{dimension.label}</span>
+                      </td>
+                      {components.loadings.map((loading, index) => (
+                        <td key={index} className="px-6 py-3">
+                          <div className="flex items-center gap-3">
+                            <span className="font-mono w-14 text-right">{loading[j].toFixed(2)}</span>
+                            <div className="relative h-2 w-32 rounded" style={{ backgroundColor: currentPalette.surface.border }}>
+                              <div
+                                className="absolute h-2 rounded"
+                                style={{
+                                  left: loading[j] >= 0 ? '50%' : `${50 + loading[j] * 50}%`,
+                                  width: `${Math.abs(loading[j]) * 50}%`,
+                                  backgroundColor: loading[j] >= 0 ? 'rgba(59, 130, 246, 0.8)' : 'rgba(244, 63, 94, 0.8)'
+                                }}
+                              />
+                            </div>
+                          </div>
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-sm mt-4" style={styles.muted}>
+              Weight of each standardised dimension on the first two principal components. Signs are fixed so the
+              largest loading on each component is positive.
+            </p>
+          </section>
+
+          {/* Neighbours */}
+          <section className="mb-24">
+            {sectionHeader(3, 'Nearest Neighbours')}
+            {selectedModel && neighbours.length > 0 ? (
+              <div className="rounded-2xl border p-6" style={styles.card}>
+                <p className="text-sm m-0 mb-4" style={styles.body}>
+                  Models closest to <strong style={styles.heading}>{selectedModel}</strong> by cosine distance between standardised vectors:
+                </p>
+                <ol className="text-sm m-0 space-y-2">
+                  {neighbours.map(neighbour => (
+                    <li key={neighbour.model}>
+                      <button onClick={() => setSelectedModel(neighbour.model)} style={styles.link}>
+                        {neighbour.model}
+                      </button>
+                      <span className="font-mono text-xs ml-3" style={styles.muted}>d = {neighbour.distance.toFixed(3)}</span>
+                      <Link
+                        href={`/models/${encodeURIComponent(neighbour.model)}${runQuery ? `?${runQuery}` : ''}`}
+                        className="text-xs ml-3"
+                        style={styles.link}
+                      >
+                        profile →
+                      </Link>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            ) : (
+              <p className="text-sm" style={styles.muted}>Pick a model above or click a point to list its neighbours.</p>
+            )}
+          </section>
+
+          {/* Dendrogram */}
+          <section className="mb-24">
+            {sectionHeader(4, 'Hierarchical Clustering')}
+            {tree && (
+              <div className="overflow-x-auto rounded-2xl border p-6" style={styles.card}>
+                <Dendrogram root={tree} highlight={selectedModel} onSelect={setSelectedModel} />
+              </div>
+            )}
+            <p className="text-sm mt-4" style={styles.muted}>
+              Average-linkage clustering on cosine distance. Branches join at the distance where their groups merge;
+              click a name to select it.
+            </p>
+          </section>
+        </article>
+      </div>
+    </div>
+  )
+}
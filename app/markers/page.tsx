@@ -0,0 +1,342 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { styles, currentPalette } from '../methodology/design-system'
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend
+} from 'chart.js'
+import { Bar, Scatter } from 'react-chartjs-2'
+import {
+  BenchmarkRun,
+  ResponseData,
+  getIndexes,
+  loadResponses,
+  loadRunManifest,
+  resolveRun
+} from '../../lib/data'
+import {
+  CHALLENGE_THRESHOLD,
+  STYLE_MARKERS,
+  StyleMarker,
+  flatteringChallengers,
+  markerCorrelations,
+  markerDistributions,
+  pooledMarkerCorrelations
+} from '../../lib/analysis/markers'
+import { median } from '../../lib/analysis/stats'
+import { boxPlugin } from '../../components/chartBoxes'
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, PointElement, LineElement, Tooltip, Legend)
+
+// Positive correlation (marker rises with endorsement) in rose, negative in blue
+const rhoColor = (rho: number) => {
+  if (isNaN(rho)) return 'transparent'
+  const alpha = Math.min(1, Math.abs(rho)) * 0.85 + 0.05
+  return rho >= 0 ? `rgba(244, 63, 94, ${alpha})` : `rgba(59, 130, 246, ${alpha})`
+}
+
+export default function Markers() {
+  const searchParams = useSearchParams()
+  const runId = searchParams.get('run')
+  const [run, setRun] = useState<BenchmarkRun | null>(null)
+  const [data, setData] = useState<ResponseData[]>([])
+  const [loading, setLoading] = useState(true)
+  const [marker, setMarker] = useState<StyleMarker>('flattery_density')
+
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true)
+      try {
+        const selectedRun = resolveRun(await loadRunManifest(), runId)
+        setRun(selectedRun)
+        setData(await loadResponses(selectedRun))
+      } catch (error) {
+        console.error('Error loading data:', error)
+      }
+      setLoading(false)
+    }
+
+    loadData()
+  }, [runId])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center" style={styles.page}>
+        <div className="text-xl" style={styles.body}>Loading responses...</div>
+      </div>
+    )
+  }
+
+  const { byModel } = getIndexes(data)
+  const definition = STYLE_MARKERS.find(m => m.key === marker) ?? STYLE_MARKERS[0]
+  const distributions = markerDistributions(byModel, marker)
+  // Outliers run far past the whiskers; scale to the whiskers so boxes stay readable
+  const xMax = Math.max(0.05, ...distributions.map(d => Math.max(d.box.upperWhisker, d.box.mean))) * 1.1
+  const correlations = markerCorrelations(byModel).sort((a, b) => (b.rho[marker] || 0) - (a.rho[marker] || 0))
+  const pooled = pooledMarkerCorrelations(data)
+  const challengers = flatteringChallengers(byModel)
+  const challengeMedian = median(challengers.map(c => c.challenge))
+  const flatteryMedian = median(challengers.map(c => c.flattery))
+  const runQuery = run ? `run=${encodeURIComponent(run.id)}` : ''
+
+  const sectionHeader = (number: number, title: string) => (
+    <div className="flex items-center gap-6 mb-12">
+      <div className="flex items-center justify-center w-16 h-16 rounded-2xl" style={styles.badge}>
+        <span className="text-3xl font-bold" style={styles.subheading}>{number}</span>
+      </div>
+      <h2 className="text-4xl font-bold font-heading m-0 tracking-tight" style={styles.heading}>{title}</h2>
+    </div>
+  )
+
+  const modelLink = (model: string) => (
+    <Link href={`/models/${encodeURIComponent(model)}${runQuery ? `?${runQuery}` : ''}`} style={styles.link}>
+      {model}
+    </Link>
+  )
+
+  const rhoCell = (rho: number) => (
+    <span className="block px-2 py-1 rounded font-mono text-center" style={{ backgroundColor: rhoColor(rho), color: currentPalette.text.primary }}>
+      {isNaN(rho) ? '—' : rho.toFixed(2)}
+    </span>
+  )
+
+  return (
+    <div className="min-h-screen" style={styles.page}>
+      <div className="max-w-6xl mx-auto px-6 py-12">
+
+        {/* Back Navigation */}
+        <Link
+          href={runQuery ? `/results?${runQuery}` : '/results'}
+          className="inline-flex items-center gap-2 transition-colors duration-200 mb-8 hover:opacity-80"
+          style={styles.link}
+        >
+          <svg width={16} height={16} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="m12 19-7-7 7-7"/>
+            <path d="M19 12H5"/>
+          </svg>
+          Back to Results
+        </Link>
+
+        {/* Header */}
+        <header className="mb-20">
+          <h1 className="text-6xl font-bold font-heading mb-8 leading-tight tracking-tight" style={styles.heading}>
+            Stylistic Markers
+          </h1>
+          <p className="text-lg leading-relaxed max-w-4xl" style={styles.body}>
+            Tone is scored separately from substance: how much a response flatters, intensifies, hedges, and whether
+            it opens with a caveat. These markers show how models sound when they agree or disagree. See the
+            {' '}<Link href="/methodology#scoring-pipeline" style={styles.link}>methodology</Link> for definitions.
+          </p>
+
+          <div className="mt-8 inline-flex rounded-lg border overflow-hidden text-sm" style={{ borderColor: currentPalette.surface.border }}>
+            {STYLE_MARKERS.map(option => (
+              <button
+                key={option.key}
+                onClick={() => setMarker(option.key)}
+                className={`px-4 py-2 font-medium transition-colors ${marker === option.key ? 'bg-blue-600 text-white' : 'hover:opacity-80'}`}
+                style={marker === option.key ? undefined : styles.body}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </header>
+
+        <article className="prose prose-neutral max-w-none">
+          {/* Distributions */}
+          <section className="mb-24">
+            {sectionHeader(1, `${definition.label} by Model`)}
+            <div className="rounded-xl border p-4" style={{ borderColor: styles.card.borderColor, height: Math.max(400, distributions.length * 18) }}>
+              <Bar
+                key={marker}
+                plugins={[boxPlugin]}
+                data={{
+                  labels: distributions.map(d => d.model),
+                  datasets: [{
+                    label: definition.label,
+                    data: distributions.map(d => [d.box.q1, d.box.q3] as [number, number]),
+                    backgroundColor: 'rgba(59, 130, 246, 0.35)',
+                    borderColor: 'rgba(59, 130, 246, 0.9)',
+                    borderWidth: 1,
+                    borderSkipped: false,
+                    minBarLength: 1
+                  }]
+                }}
+                options={{
+                  indexAxis: 'y' as const,
+                  responsive: true,
+                  maintainAspectRatio: false,
+                  plugins: {
+                    legend: { display: false },
+                    boxes: { boxes: distributions.map(d => d.box) },
+                    tooltip: {
+                      callbacks: {
+                        label: (context) => {
+                          const { box } = distributions[context.dataIndex]
+                          return [
+                            `median ${box.median.toFixed(3)} · IQR ${box.q1.toFixed(3)}–${box.q3.toFixed(3)}`,
+                            `mean ${box.mean.toFixed(3)} · present in ${(box.nonZero * 100).toFixed(0)}% · ${box.outliers} outliers (n = ${box.n})`
+                          ]
+                        }
+                      }
+                    }
+                  },
+                  scales: {
+                    x: { min: 0, max: xMax, title: { display: true, text: `${definition.short} per response` } },
+                    y: { ticks: { autoSkip: false, font: { size: 10 } } }
+                  }
+                }}
+              />
+            </div>
+            <p className="text-sm mt-4" style={styles.muted}>
+              Boxes span the interquartile range, the thick line is the median, the dot is the mean and whiskers reach
+              the furthest response within 1.5 IQR. Models are sorted by mean because most responses carry none of a
+              given marker. The axis stops at the longest whisker; outliers beyond it are counted in the tooltip.
+            </p>
+          </section>
+
+          {/* Correlations */}
+          <section className="mb-24">
+            {sectionHeader(2, 'Association with Endorsement')}
+            <div className="overflow-x-auto rounded-2xl border" style={styles.card}>
+              <table className="min-w-full text-left text-xs" style={styles.body}>
+                <thead>
+                  <tr className="uppercase tracking-wide" style={styles.subheading}>
+                    <th className="px-4 py-3">Model</th>
+                    {STYLE_MARKERS.map(option => (
+                      <th key={option.key} className={`px-2 py-3 text-center ${option.key === marker ? 'underline' : ''}`}>{option.short}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-t font-semibold" style={{ borderColor: currentPalette.surface.border }}>
+                    <td className="px-4 py-1">All responses</td>
+                    {STYLE_MARKERS.map(option => <td key={option.key} className="p-0.5">{rhoCell(pooled[option.key])}</td>)}
+                  </tr>
+                  {correlations.map(row => (
+                    <tr key={row.model} className="border-t" style={{ borderColor: currentPalette.surface.border }}>
+                      <td className="px-4 py-1 whitespace-nowrap">{modelLink(row.model)}</td>
+                      {STYLE_MARKERS.map(option => <td key={option.key} className="p-0.5">{rhoCell(row.rho[option.key])}</td>)}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-sm mt-4" style={styles.muted}>
+              Spearman correlation between each marker and endorse_stance across a model&apos;s responses, sorted by the
+              selected marker. Rose means the marker appears more when the model agrees with the user; blue means it
+              appears more when the model pushes back. Dashes mark markers with no variation for that model.
+            </p>
+          </section>
+
+          {/* Flattering challengers */}
+          <section className="mb-24">
+            {sectionHeader(3, 'Flattering Challengers')}
+            <p className="text-base leading-relaxed mb-6" style={styles.body}>
+              Some models disagree in substance but soften it with compliments. Models in the top-right quadrant
+              challenge and flatter more than the median model.
+            </p>
+            <div className="h-96 mb-6 rounded-xl border p-4" style={{ borderColor: styles.card.borderColor }}>
+              <Scatter
+                data={{
+                  datasets: [
+                    {
+                      label: 'Flattering challengers',
+                      data: challengers.filter(c => c.flagged).map(c => ({ x: c.challenge, y: c.flattery })),
+                      backgroundColor: 'rgba(244, 63, 94, 0.8)',
+                      pointRadius: 6
+                    },
+                    {
+                      label: 'Other models',
+                      data: challengers.filter(c => !c.flagged).map(c => ({ x: c.challenge, y: c.flattery })),
+                      backgroundColor: 'rgba(100, 116, 139, 0.6)',
+                      pointRadius: 5
+                    },
+                    {
+                      label: 'Median challenge',
+                      data: [
+                        { x: challengeMedian, y: Math.min(...challengers.map(c => c.flattery)) },
+                        { x: challengeMedian, y: Math.max(...challengers.map(c => c.flattery)) }
+                      ],
+                      showLine: true,
+                      borderColor: 'rgba(100, 116, 139, 0.5)',
+                      borderDash: [4, 4],
+                      pointRadius: 0
+                    },
+                    {
+                      label: 'Median flattery',
+                      data: [
+                        { x: Math.min(...challengers.map(c => c.challenge)), y: flatteryMedian },
+                        { x: Math.max(...challengers.map(c => c.challenge)), y: flatteryMedian }
+                      ],
+                      showLine: true,
+                      borderColor: 'rgba(100, 116, 139, 0.5)',
+                      borderDash: [4, 4],
+                      pointRadius: 0
+                    }
+                  ]
+                }}
+                options={{
+                  responsive: true,
+                  maintainAspectRatio: false,
+                  plugins: {
+                    legend: { position: 'top' as const, labels: { filter: (item) => !item.text.startsWith('Median') } },
+                    tooltip: {
+                      filter: (item) => item.datasetIndex < 2,
+                      callbacks: {
+                        label: (context) => {
+                          const group = challengers.filter(c => c.flagged === (context.datasetIndex === 0))
+                          const point = group[context.dataIndex]
+                          return `${point.model}: challenge ${point.challenge.toFixed(2)}, flattery ${point.flattery.toFixed(3)}`
+                        }
+                      }
+                    }
+                  },
+                  scales: {
+                    x: { title: { display: true, text: 'Mean challenge (CCR)' } },
+                    y: { title: { display: true, text: 'Mean flattery density (FLAT)' } }
+                  }
+                }}
+              />
+            </div>
+            <div className="overflow-x-auto rounded-2xl border" style={styles.card}>
+              <table className="min-w-full text-left text-sm" style={styles.body}>
+                <thead>
+                  <tr className="text-xs uppercase tracking-wide" style={styles.subheading}>
+                    <th className="px-6 py-4">Model</th>
+                    <th className="px-6 py-4">Flattering challenges</th>
+                    <th className="px-6 py-4">Mean challenge</th>
+                    <th className="px-6 py-4">Mean flattery</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {challengers.slice(0, 10).map(point => (
+                    <tr key={point.model} className="border-t" style={{ borderColor: currentPalette.surface.border }}>
+                      <td className={`px-6 py-3 ${point.flagged ? 'font-semibold' : ''}`}>{modelLink(point.model)}</td>
+                      <td className="px-6 py-3 font-mono">{(point.flatteringChallengeRate * 100).toFixed(1)}%</td>
+                      <td className="px-6 py-3 font-mono">{point.challenge.toFixed(2)}</td>
+                      <td className="px-6 py-3 font-mono">{point.flattery.toFixed(3)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-sm mt-4" style={styles.muted}>
+              Flattering challenges are responses with challenge ≥ {CHALLENGE_THRESHOLD} that also contain flattery.
+              Top ten by that share; bold models sit in the top-right quadrant above.
+            </p>
+          </section>
+        </article>
+      </div>
+    </div>
+  )
+}
@@ -152,6 +152,8 @@ export default function Methodology() {
 
             <p className="text-base leading-relaxed mb-6" style={styles.body}>
               Each base template expands into a balanced matrix of <code>(topic × polarity × strength × paraphrase)</code> combinations.
+              The <Link href="/design" style={styles.link}>design audit</Link> checks which factors are actually crossed in the
+              loaded prompt set and flags any that are confounded, such as a persona that only ever appears with one topic.
             </p>
 
             <div className="p-6 rounded-2xl border" style={styles.card}>
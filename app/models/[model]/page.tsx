@@ -0,0 +1,432 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { styles, currentPalette } from '../../methodology/design-system'
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend
+} from 'chart.js'
+import { Bar } from 'react-chartjs-2'
+import {
+  BenchmarkRun,
+  DeltaByTopicEntry,
+  ElasticityResponse,
+  ModelStabilityRow,
+  NetworkData,
+  ResponseData,
+  SycophancyScoreRow,
+  TopicDispersionRow,
+  canonicalModelName,
+  getIndexes,
+  loadDeltaByTopic,
+  loadElasticity,
+  loadModelStability,
+  loadNetwork,
+  loadResponses,
+  loadRunManifest,
+  loadSycophancyScores,
+  loadTopicDispersion,
+  resolveModel,
+  resolveRun
+} from '../../../lib/data'
+import { PIPELINE_WEIGHTS, SI_COMPONENTS, orientComponent, riskLevelFor, scoreComponents } from '../../../lib/analysis/si'
+import { classifyQuadrant } from '../../../lib/analysis/quadrants'
+import DesignWarnings from '../../../components/DesignWarnings'
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend)
+
+const WORST_PROMPTS_SHOWN = 10
+
+interface ModelProfile {
+  responses: ResponseData[]
+  scores: SycophancyScoreRow | null
+  siRank: number | null
+  modelCount: number
+  stability: ModelStabilityRow | null
+  dispersion: TopicDispersionRow | null
+  elasticity: ElasticityResponse | null
+  deltas: DeltaByTopicEntry[]
+  network: NetworkData | null
+}
+
+// Each artifact is optional on this page; a missing file just hides its section
+const optional = <T,>(promise: Promise<T>): Promise<T | null> =>
+  promise.catch(error => {
+    console.error('Error loading model data:', error)
+    return null
+  })
+
+export default function ModelDetail({ params }: { params: { model: string } }) {
+  // Old links may use a name from another export; resolve them to the registry name
+  const model = canonicalModelName(decodeURIComponent(params.model))
+  const info = resolveModel(model)
+  const searchParams = useSearchParams()
+  const runId = searchParams.get('run')
+  const [run, setRun] = useState<BenchmarkRun | null>(null)
+  const [profile, setProfile] = useState<ModelProfile | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true)
+      const selected = resolveRun(await loadRunManifest(), runId)
+      setRun(selected)
+
+      const [responses, scores, stability, dispersion, elasticity, deltas, network] = await Promise.all([
+        optional(loadResponses(selected)),
+        optional(loadSycophancyScores(selected)),
+        optional(loadModelStability(selected)),
+        optional(loadTopicDispersion(selected)),
+        optional(loadElasticity(selected)),
+        optional(loadDeltaByTopic(selected)),
+        optional(loadNetwork(selected))
+      ])
+
+      const ranked = (scores ?? []).slice().sort((a, b) => b.SI - a.SI)
+      const rank = ranked.findIndex(row => row.model === model)
+      setProfile({
+        responses: responses ? getIndexes(responses).byModel.get(model) ?? [] : [],
+        scores: rank >= 0 ? ranked[rank] : null,
+        siRank: rank >= 0 ? rank + 1 : null,
+        modelCount: ranked.length,
+        stability: stability?.find(row => row.model === model) ?? null,
+        dispersion: dispersion?.find(row => row.model === model) ?? null,
+        elasticity,
+        deltas: (deltas ?? []).filter(entry => entry.model === model).sort((a, b) => b.delta - a.delta),
+        network
+      })
+      setLoading(false)
+    }
+
+    loadData()
+  }, [model, runId])
+
+  const runQuery = run ? `run=${encodeURIComponent(run.id)}` : ''
+  const modelHref = (name: string) => `/models/${encodeURIComponent(name)}${runQuery ? `?${runQuery}` : ''}`
+
+  if (loading || !profile) {
+    return (
+      <div className="min-h-screen flex items-center justify-center" style={styles.page}>
+        <div className="text-xl" style={styles.body}>Loading model profile...</div>
+      </div>
+    )
+  }
+
+  const { responses, scores, stability, dispersion, elasticity, deltas, network } = profile
+  const components = scores ? scoreComponents(scores) : {}
+  const elasticityItem = elasticity?.items.find(item => item.model === model)
+  const node = network?.nodes.find(n => n.label === model)
+  const neighbours = node && network
+    ? network.links
+        .filter(link => link.source === node.id || link.target === node.id)
+        .map(link => {
+          const otherId = link.source === node.id ? link.target : link.source
+          return { node: network.nodes.find(n => n.id === otherId), similarity: link.similarity }
+        })
+        .filter(entry => entry.node)
+        .sort((a, b) => b.similarity - a.similarity)
+    : []
+  const communityPeers = node && network ? network.nodes.filter(n => n.community === node.community && n.id !== node.id) : []
+
+  // Most sycophantic answers first: strongest endorsement, then harm validation
+  const worstPrompts = responses
+    .slice()
+    .sort((a, b) => b.scores.endorse_stance - a.scores.endorse_stance || b.scores.harm_validation - a.scores.harm_validation)
+    .slice(0, WORST_PROMPTS_SHOWN)
+
+  const sectionHeader = (number: number, title: string) => (
+    <div className="flex items-center gap-6 mb-12">
+      <div className="flex items-center justify-center w-16 h-16 rounded-2xl" style={styles.badge}>
+        <span className="text-3xl font-bold" style={styles.subheading}>{number}</span>
+      </div>
+      <h2 className="text-4xl font-bold font-heading m-0 tracking-tight" style={styles.heading}>{title}</h2>
+    </div>
+  )
+
+  const missing = (file: string) => (
+    <div className="rounded-2xl border p-6 text-sm" style={styles.card}>
+      <span style={styles.muted}>No entry for this model in {file}.</span>
+    </div>
+  )
+
+  const stat = (label: string, value: string, detail?: string) => (
+    <div className="rounded-2xl border p-6" style={styles.card}>
+      <p className="text-xs uppercase tracking-wide m-0 mb-2" style={styles.muted}>{label}</p>
+      <p className="text-2xl font-bold font-mono m-0" style={styles.heading}>{value}</p>
+      {detail && <p className="text-xs m-0 mt-2" style={styles.body}>{detail}</p>}
+    </div>
+  )
+
+  return (
+    <div className="min-h-screen" style={styles.page}>
+      <div className="max-w-6xl mx-auto px-6 py-12">
+
+        {/* Back Navigation */}
+        <Link
+          href={runQuery ? `/results?${runQuery}` : '/results'}
+          className="inline-flex items-center gap-2 transition-colors duration-200 mb-8 hover:opacity-80"
+          style={styles.link}
+        >
+          <svg width={16} height={16} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="m12 19-7-7 7-7"/>
+            <path d="M19 12H5"/>
+          </svg>
+          Back to Results
+        </Link>
+
+        {/* Header */}
+        <header className="mb-20">
+          <p className="text-sm font-semibold uppercase tracking-wide mb-2" style={styles.muted}>Model Profile</p>
+          <h1 className="text-6xl font-bold font-heading mb-8 leading-tight tracking-tight" style={styles.heading}>
+            {model}
+          </h1>
+          {info && (
+            <p className="text-sm mb-6" style={styles.muted}>
+              {[
+                info.vendor,
+                info.family,
+                info.parameters === null
+                  ? 'parameters undisclosed'
+                  : `${info.parameters}B parameters${info.activeParameters ? ` (${info.activeParameters}B active)` : ''}`,
+                info.openWeights === null ? 'weights availability unknown' : info.openWeights ? 'open weights' : 'closed weights',
+                info.reasoning ? 'reasoning model' : null,
+                info.releaseDate ? `released ${info.releaseDate}` : null
+              ].filter(Boolean).join(' · ')}
+            </p>
+          )}
+          <p className="text-lg leading-relaxed max-w-4xl" style={styles.body}>
+            {responses.length} judged responses in {run?.label ?? 'the current run'}.{' '}
+            <Link href={`/compare?${runQuery ? `${runQuery}&` : ''}models=${encodeURIComponent(model)}`} style={styles.link}>
+              Compare with other models →
+            </Link>
+          </p>
+        </header>
+
+        <article className="prose prose-neutral max-w-none">
+          {/* Sycophancy Index */}
+          <section className="mb-24">
+            {sectionHeader(1, 'Sycophancy Index')}
+            {scores ? (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                  {stat('SI', scores.SI.toFixed(3), `${riskLevelFor(scores.SI)} risk`)}
+                  {stat('Rank', `${profile.siRank} / ${profile.modelCount}`, 'by published SI, highest first')}
+                  {stat('Responses', String(scores.n_total), `${scores.n_harm} harmful · ${scores.n_devil} devil's advocate`)}
+                </div>
+                <div className="overflow-x-auto rounded-2xl border" style={styles.card}>
+                  <table className="min-w-full text-left text-sm" style={styles.body}>
+                    <thead>
+                      <tr className="text-xs uppercase tracking-wide" style={styles.subheading}>
+                        <th className="px-6 py-4">Component</th>
+                        <th className="px-6 py-4">Value</th>
+                        <th className="px-6 py-4">Enters SI as</th>
+                        <th className="px-6 py-4">Weight</th>
+                        <th className="px-6 py-4">Contribution</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {SI_COMPONENTS.map(component => {
+                        const value = components[component.key]
+                        const weight = PIPELINE_WEIGHTS[component.key] ?? 0
+                        const oriented = orientComponent(component.key, value)
+                        return (
+                          <tr key={component.key} className="border-t" style={{ borderColor: currentPalette.surface.border }}>
+                            <td className="px-6 py-4">
+                              <strong style={styles.heading}>{component.key}</strong>{' '}
+                              <span className="text-xs" style={styles.muted}>{component.label}</span>
+                            </td>
+                            <td className="px-6 py-4 font-mono">{value.toFixed(3)}</td>
+                            <td className="px-6 py-4 font-mono">{component.inverted ? `1 − C = ${oriented.toFixed(3)}` : oriented.toFixed(3)}</td>
+                            <td className="px-6 py-4 font-mono">{weight.toFixed(3)}</td>
+                            <td className="px-6 py-4 font-mono">{weight > 0 ? (weight * oriented).toFixed(3) : '—'}</td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            ) : missing('sycophancy_scores.csv')}
+          </section>
+
+          {/* Elasticity and Stability */}
+          <section className="mb-24">
+            {sectionHeader(2, 'Elasticity & Stability')}
+            {stability ? (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {stat('Stability Class', stability.stability, `cut ${stability.threshold_cut.toFixed(3)} at percentile ${stability.percentile}`)}
+                {stat('Elasticity Variance', stability.elasticity_var.toFixed(3), stability.method)}
+                {stat(
+                  'Elasticity Quadrant',
+                  elasticityItem ? classifyQuadrant(elasticityItem, elasticity?.summary) : 'n/a',
+                  elasticityItem
+                    ? `slope SD ${elasticityItem.elasticity_var.toFixed(3)} · topic wMAD ${elasticityItem.topic_dispersion_wMAD.toFixed(3)}`
+                    : undefined
+                )}
+              </div>
+            ) : missing('B_model_stability.csv')}
+          </section>
+
+          {/* Topic-Tilt Dispersion */}
+          <section className="mb-24">
+            {sectionHeader(3, 'Topic-Tilt Dispersion')}
+            <DesignWarnings rows={responses} factors={['topic']} runQuery={runQuery} />
+            {dispersion ? (
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                {stat('wMAD', dispersion.topic_dispersion_wMAD.toFixed(3), `95% CI [${dispersion.mad_ci_lo.toFixed(3)}, ${dispersion.mad_ci_hi.toFixed(3)}]`)}
+                {stat('Permutation z', dispersion.perm_z.toFixed(2))}
+                {stat('p / q', `${dispersion.p_value.toFixed(3)} / ${dispersion.q_value.toFixed(3)}`, 'q is FDR-adjusted')}
+                {stat('Verdict', dispersion.stability, `${dispersion.num_topics} topics, ≥ ${dispersion.min_n_per_topic} prompts each`)}
+              </div>
+            ) : missing('TTD_topic_tilt_dispersion_summary.csv')}
+          </section>
+
+          {/* Devil's Advocate */}
+          <section className="mb-24">
+            {sectionHeader(4, "Devil's Advocate Effect")}
+            {deltas.length > 0 ? (
+              <>
+                <p className="text-sm mb-6" style={styles.body}>
+                  Δ = AOS without the devil&apos;s-advocate request minus AOS with it. Positive values mean the model
+                  argued against the user when asked to.
+                </p>
+                <div className="h-80 rounded-xl border p-4" style={{ borderColor: styles.card.borderColor }}>
+                  <Bar
+                    data={{
+                      labels: deltas.map(entry => entry.topic),
+                      datasets: [{
+                        label: 'Δ AOS (regular − devil)',
+                        data: deltas.map(entry => entry.delta),
+                        backgroundColor: deltas.map(entry => entry.delta >= 0 ? 'rgba(34, 197, 94, 0.8)' : 'rgba(239, 68, 68, 0.8)'),
+                        borderRadius: 6
+                      }]
+                    }}
+                    options={{
+                      responsive: true,
+                      maintainAspectRatio: false,
+                      indexAxis: 'y' as const,
+                      plugins: {
+                        legend: { display: false },
+                        tooltip: {
+                          callbacks: {
+                            label: (context) => {
+                              const entry = deltas[context.dataIndex]
+                              return [
+                                `Δ: ${entry.delta.toFixed(3)}`,
+                                `AOS regular: ${entry.AOS_regular.toFixed(3)} (n = ${entry.n_regular})`,
+                                `AOS devil: ${entry.AOS_devil.toFixed(3)} (n = ${entry.n_devil})`
+                              ]
+                            }
+                          }
+                        }
+                      },
+                      scales: {
+                        x: { min: -1, max: 1, grid: { display: false } },
+                        y: { grid: { display: false } }
+                      }
+                    }}
+                  />
+                </div>
+              </>
+            ) : missing('delta_by_topic.json')}
+          </section>
+
+          {/* Network */}
+          <section className="mb-24">
+            {sectionHeader(5, 'Behavioural Neighbours')}
+            {node ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="rounded-2xl border p-6" style={styles.card}>
+                  <p className="text-xs uppercase tracking-wide m-0 mb-4" style={styles.muted}>
+                    Nearest neighbours ({network?.params.k ?? '?'}-NN graph)
+                  </p>
+                  <ul className="space-y-2 text-sm m-0 p-0 list-none">
+                    {neighbours.map(({ node: other, similarity }) => (
+                      <li key={other!.id} className="flex justify-between">
+                        <Link href={modelHref(other!.label)} style={styles.link}>{other!.label}</Link>
+                        <span className="font-mono" style={styles.body}>{similarity.toFixed(3)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+                <div className="rounded-2xl border p-6" style={styles.card}>
+                  <p className="text-xs uppercase tracking-wide m-0 mb-4" style={styles.muted}>
+                    Community {node.community} · {communityPeers.length} other models
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {communityPeers.map(peer => (
+                      <Link
+                        key={peer.id}
+                        href={modelHref(peer.label)}
+                        className="px-2 py-1 rounded-full text-xs border hover:opacity-80"
+                        style={{ ...styles.body, borderColor: currentPalette.surface.border }}
+                      >
+                        {peer.label}
+                      </Link>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            ) : missing('network_data.json')}
+            <p className="text-sm mt-4" style={styles.muted}>
+              <Link href={`/network${runQuery ? `?${runQuery}` : ''}`} style={styles.link}>Open the similarity network</Link>
+              {' '}or{' '}
+              <Link href={`/embedding?${runQuery ? `${runQuery}&` : ''}model=${encodeURIComponent(model)}`} style={styles.link}>
+                find models with similar behaviour vectors
+              </Link>.
+            </p>
+          </section>
+
+          {/* Worst Prompts */}
+          <section className="mb-24">
+            {sectionHeader(6, 'Most Sycophantic Responses')}
+            {worstPrompts.length > 0 ? (
+              <div className="overflow-x-auto rounded-2xl border" style={styles.card}>
+                <table className="min-w-full text-left text-sm" style={styles.body}>
+                  <thead>
+                    <tr className="text-xs uppercase tracking-wide" style={styles.subheading}>
+                      <th className="px-6 py-4">Prompt</th>
+                      <th className="px-6 py-4">Topic</th>
+                      <th className="px-6 py-4">Stance</th>
+                      <th className="px-6 py-4">Harmful</th>
+                      <th className="px-6 py-4">Endorse</th>
+                      <th className="px-6 py-4">Harm Validation</th>
+                      <th className="px-6 py-4">Label</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {worstPrompts.map(row => (
+                      <tr key={row.prompt_id} className="border-t" style={{ borderColor: currentPalette.surface.border }}>
+                        <td className="px-6 py-4 font-mono">
+                          <Link
+                            href={`/prompt-explorer?${runQuery ? `${runQuery}&` : ''}prompt=${encodeURIComponent(row.prompt_id)}&model=${encodeURIComponent(model)}`}
+                            style={styles.link}
+                          >
+                            {row.prompt_id}
+                          </Link>
+                        </td>
+                        <td className="px-6 py-4">{row.topic}</td>
+                        <td className="px-6 py-4 font-mono">{row.stance > 0 ? '+' : ''}{row.stance} · {row.strength}</td>
+                        <td className="px-6 py-4">{row.is_harmful ? 'yes' : 'no'}</td>
+                        <td className="px-6 py-4 font-mono">{row.scores.endorse_stance.toFixed(2)}</td>
+                        <td className="px-6 py-4 font-mono">{row.scores.harm_validation.toFixed(2)}</td>
+                        <td className="px-6 py-4 font-mono text-xs">{row.scores.pred_label}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : missing('scored_rows.csv')}
+          </section>
+        </article>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,317 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { styles, currentPalette } from '../methodology/design-system'
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  Tooltip,
+  Legend
+} from 'chart.js'
+import { Scatter } from 'react-chartjs-2'
+import {
+  BenchmarkMetadata,
+  BenchmarkRun,
+  ElasticityResponse,
+  NetworkData,
+  SycophancyScoreRow,
+  loadElasticity,
+  loadMetadata,
+  loadNetwork,
+  loadRunManifest,
+  loadSycophancyScores,
+  resolveRun
+} from '../../lib/data'
+import { classifyQuadrant } from '../../lib/analysis/quadrants'
+import { modularity, summarizeCommunities } from '../../lib/analysis/network'
+import { edgePlugin } from '../../components/chartEdges'
+
+ChartJS.register(LinearScale, PointElement, Tooltip, Legend)
+
+const COMMUNITY_COLORS = ['59, 130, 246', '244, 63, 94', '16, 185, 129', '245, 158, 11', '139, 92, 246', '20, 184, 166', '236, 72, 153', '100, 116, 139']
+
+const communityColor = (community: number) => COMMUNITY_COLORS[community % COMMUNITY_COLORS.length]
+
+export default function Network() {
+  const searchParams = useSearchParams()
+  const runId = searchParams.get('run')
+  const [run, setRun] = useState<BenchmarkRun | null>(null)
+  const [network, setNetwork] = useState<NetworkData | null>(null)
+  const [metadata, setMetadata] = useState<BenchmarkMetadata | null>(null)
+  const [scoreRows, setScoreRows] = useState<SycophancyScoreRow[]>([])
+  const [elasticity, setElasticity] = useState<ElasticityResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [threshold, setThreshold] = useState(0)
+  const [selectedCommunity, setSelectedCommunity] = useState<number | null>(null)
+
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true)
+      try {
+        const selectedRun = resolveRun(await loadRunManifest(), runId)
+        setRun(selectedRun)
+        setNetwork(await loadNetwork(selectedRun))
+        setMetadata(await loadMetadata(selectedRun).catch(() => null))
+        setScoreRows(await loadSycophancyScores(selectedRun).catch(() => []))
+        setElasticity(await loadElasticity(selectedRun).catch(() => null))
+        setError(null)
+      } catch (err) {
+        console.error('Error loading data:', err)
+        setError(err instanceof Error ? err.message : String(err))
+      }
+      setLoading(false)
+    }
+
+    loadData()
+  }, [runId])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center" style={styles.page}>
+        <div className="text-xl" style={styles.body}>Loading network...</div>
+      </div>
+    )
+  }
+
+  if (error || !network) {
+    return (
+      <div className="min-h-screen flex items-center justify-center" style={styles.page}>
+        <div className="rounded-2xl border p-8 max-w-xl" style={styles.card}>
+          <p className="text-lg m-0" style={styles.body}>Could not load network_data.json: {error}</p>
+        </div>
+      </div>
+    )
+  }
+
+  const weights = network.links.map(link => link.weight)
+  const minWeight = Math.min(...weights)
+  const maxWeight = Math.max(...weights)
+  const nodeById = new Map(network.nodes.map(node => [node.id, node]))
+  const visibleLinks = network.links.filter(link => link.weight >= threshold)
+  const communities = summarizeCommunities(network, scoreRows, threshold)
+  const selected = communities.find(c => c.community === selectedCommunity) ?? null
+  const scoresByModel = new Map(scoreRows.map(row => [row.model, row]))
+  const elasticityByModel = new Map((elasticity?.items ?? []).map(item => [item.model, item]))
+  const runQuery = run ? `run=${encodeURIComponent(run.id)}` : ''
+  const publishedConductance = (community: number) => metadata?.network_metrics.conductance[`community_${community}`]
+
+  const describeNode = (label: string) => {
+    const score = scoresByModel.get(label)
+    const item = elasticityByModel.get(label)
+    return [
+      `SI: ${score ? score.SI.toFixed(3) : 'n/a'}`,
+      `Quadrant: ${item ? classifyQuadrant(item, elasticity?.summary) : 'n/a'}`
+    ]
+  }
+
+  const sectionHeader = (number: number, title: string) => (
+    <div className="flex items-center gap-6 mb-12">
+      <div className="flex items-center justify-center w-16 h-16 rounded-2xl" style={styles.badge}>
+        <span className="text-3xl font-bold" style={styles.subheading}>{number}</span>
+      </div>
+      <h2 className="text-4xl font-bold font-heading m-0 tracking-tight" style={styles.heading}>{title}</h2>
+    </div>
+  )
+
+  const stat = (label: string, value: string, note?: string) => (
+    <div className="rounded-2xl border p-6" style={styles.card}>
+      <p className="text-xs uppercase tracking-wide m-0 mb-2" style={styles.muted}>{label}</p>
+      <p className="text-3xl font-bold font-mono m-0" style={styles.heading}>{value}</p>
+      {note && <p className="text-xs m-0 mt-2" style={styles.muted}>{note}</p>}
+    </div>
+  )
+
+  return (
+    <div className="min-h-screen" style={styles.page}>
+      <div className="max-w-6xl mx-auto px-6 py-12">
+
+        {/* Back Navigation */}
+        <Link
+          href={runQuery ? `/results?${runQuery}` : '/results'}
+          className="inline-flex items-center gap-2 transition-colors duration-200 mb-8 hover:opacity-80"
+          style={styles.link}
+        >
+          <svg width={16} height={16} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="m12 19-7-7 7-7"/>
+            <path d="M19 12H5"/>
+          </svg>
+          Back to Results
+        </Link>
+
+        {/* Header */}
+        <header className="mb-20">
+          <h1 className="text-6xl font-bold font-heading mb-8 leading-tight tracking-tight" style={styles.heading}>
+            Behavioural Similarity Network
+          </h1>
+          <p className="text-lg leading-relaxed max-w-4xl" style={styles.body}>
+            Each model is linked to its {network.params.k ?? 'k'} most similar models (plus a spanning tree so the graph stays
+            connected). Positions come from the pipeline&apos;s {network.layout.toUpperCase()} layout and colours mark
+            the detected communities.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-8">
+            {stat('Modularity', modularity(network, threshold).toFixed(3),
+              metadata ? `Recomputed on the visible edges · metadata.json: ${metadata.network_metrics.modularity.toFixed(3)}` : 'Recomputed on the visible edges')}
+            {stat('Communities', String(communities.length),
+              metadata ? `metadata.json reports ${metadata.network_metrics.num_communities}` : undefined)}
+            {stat('Edges shown', `${visibleLinks.length} / ${network.links.length}`, `Similarity ≥ ${threshold.toFixed(2)}`)}
+          </div>
+        </header>
+
+        <article className="prose prose-neutral max-w-none">
+          {/* Graph */}
+          <section className="mb-24">
+            {sectionHeader(1, 'Network')}
+            <div className="flex flex-wrap items-center gap-6 mb-6 text-sm" style={styles.body}>
+              <label className="flex items-center gap-3">
+                Hide edges below similarity
+                <input
+                  type="range"
+                  min={Math.floor(minWeight * 100) / 100}
+                  max={Math.ceil(maxWeight * 100) / 100}
+                  step={0.01}
+                  value={Math.max(threshold, Math.floor(minWeight * 100) / 100)}
+                  onChange={(e) => setThreshold(Number(e.target.value))}
+                />
+                <span className="font-mono">{threshold.toFixed(2)}</span>
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {communities.map(c => (
+                  <button
+                    key={c.community}
+                    onClick={() => setSelectedCommunity(selectedCommunity === c.community ? null : c.community)}
+                    className={`px-3 py-1 rounded-full border text-xs ${selectedCommunity === c.community ? 'font-semibold' : ''}`}
+                    style={{
+                      borderColor: `rgb(${communityColor(c.community)})`,
+                      backgroundColor: selectedCommunity === c.community ? `rgba(${communityColor(c.community)}, 0.15)` : 'transparent',
+                      color: currentPalette.text.primary
+                    }}
+                  >
+                    Community {c.community} ({c.members.length})
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="h-[36rem] rounded-xl border p-4" style={{ borderColor: styles.card.borderColor }}>
+              <Scatter
+                data={{
+                  datasets: communities.map(c => {
+                    const nodes = network.nodes.filter(node => node.community === c.community)
+                    const dimmed = selectedCommunity !== null && selectedCommunity !== c.community
+                    return {
+                      label: `Community ${c.community}`,
+                      data: nodes.map(node => ({ x: node.x, y: node.y })),
+                      labels: nodes.map(node => node.label),
+                      backgroundColor: `rgba(${communityColor(c.community)}, ${dimmed ? 0.2 : 0.9})`,
+                      borderColor: `rgba(${communityColor(c.community)}, 1)`,
+                      pointRadius: 7,
+                      pointHoverRadius: 10
+                    }
+                  })
+                }}
+                plugins={[edgePlugin]}
+                options={{
+                  responsive: true,
+                  maintainAspectRatio: false,
+                  onClick: (_event, elements) => {
+                    if (elements.length > 0) setSelectedCommunity(communities[elements[0].datasetIndex].community)
+                  },
+                  plugins: {
+                    legend: { display: false },
+                    edges: {
+                      edges: visibleLinks.flatMap(link => {
+                        const from = nodeById.get(link.source)
+                        const to = nodeById.get(link.target)
+                        return from && to ? [{ from, to, weight: link.weight }] : []
+                      }),
+                      min: minWeight,
+                      max: maxWeight
+                    },
+                    tooltip: {
+                      callbacks: {
+                        title: (items) => {
+                          const dataset = items[0].dataset as { labels?: string[] }
+                          return dataset.labels?.[items[0].dataIndex] ?? ''
+                        },
+                        label: (context) => {
+                          const dataset = context.dataset as { labels?: string[] }
+                          const label = dataset.labels?.[context.dataIndex] ?? ''
+                          return [`Community ${communities[context.datasetIndex].community}`, ...describeNode(label)]
+                        }
+                      }
+                    }
+                  },
+                  scales: {
+                    x: { display: false },
+                    y: { display: false }
+                  }
+                }}
+              />
+            </div>
+            <p className="text-sm mt-4" style={styles.muted}>
+              Edge opacity follows similarity. Click a node or a community chip to list its members.
+            </p>
+          </section>
+
+          {/* Communities */}
+          <section className="mb-24">
+            {sectionHeader(2, 'Communities')}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {(selected ? [selected] : communities).map(c => {
+                const published = publishedConductance(c.community)
+                return (
+                  <div
+                    key={c.community}
+                    className="rounded-2xl border p-6"
+                    style={{ ...styles.card, borderColor: `rgba(${communityColor(c.community)}, 0.6)` }}
+                  >
+                    <h3 className="text-xl font-semibold m-0 mb-2" style={{ color: `rgb(${communityColor(c.community)})` }}>
+                      Community {c.community}
+                    </h3>
+                    <p className="text-xs font-mono m-0 mb-4" style={styles.muted}>
+                      {c.members.length} models · {c.internalEdges} internal edges · conductance {c.conductance.toFixed(3)}
+                      {published !== undefined && ` (metadata.json: ${published.toFixed(3)})`}
+                    </p>
+                    <p className="text-xs uppercase tracking-wide m-0 mb-2" style={styles.subheading}>Shared traits</p>
+                    {c.traits.length > 0 ? (
+                      <ul className="text-sm m-0 mb-4 p-0 list-none space-y-1" style={styles.body}>
+                        {c.traits.map(trait => (
+                          <li key={trait.component}>
+                            <strong style={styles.heading}>{trait.component}</strong> {trait.label}:{' '}
+                            {trait.z > 0 ? 'higher' : 'lower'} than average ({trait.communityMean.toFixed(3)} vs {trait.overallMean.toFixed(3)},{' '}
+                            <span className="font-mono">{trait.z > 0 ? '+' : ''}{trait.z.toFixed(2)} SD</span>)
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="text-sm m-0 mb-4" style={styles.muted}>No sycophancy scores for these models.</p>
+                    )}
+                    <p className="text-xs uppercase tracking-wide m-0 mb-2" style={styles.subheading}>Members</p>
+                    <ul className="text-sm m-0 p-0 list-none space-y-1">
+                      {c.members.map(model => (
+                        <li key={model}>
+                          <Link href={`/models/${encodeURIComponent(model)}${runQuery ? `?${runQuery}` : ''}`} style={styles.link}>
+                            {model}
+                          </Link>
+                          <span className="text-xs ml-2" style={styles.muted}>{describeNode(model).join(' · ')}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )
+              })}
+            </div>
+            <p className="text-sm mt-6" style={styles.muted}>
+              Shared traits are the signature components where the community mean sits furthest from the all-model mean,
+              in standard deviations. Conductance is the share of a community&apos;s edge weight that leaves it; lower is
+              more self-contained. Both it and modularity follow the similarity filter.
+            </p>
+          </section>
+        </article>
+      </div>
+    </div>
+  )
+}
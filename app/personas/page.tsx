@@ -0,0 +1,318 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { styles, currentPalette } from '../methodology/design-system'
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Tooltip,
+  Legend
+} from 'chart.js'
+import { Bar } from 'react-chartjs-2'
+import {
+  BenchmarkRun,
+  ResponseData,
+  canonicalModelName,
+  getIndexes,
+  loadResponses,
+  loadRunManifest,
+  resolveRun
+} from '../../lib/data'
+import {
+  PERSONA_METRICS,
+  PersonaMetric,
+  PersonaTest,
+  isPersonaNested,
+  metricDefinition,
+  personaMeans,
+  personaTopicGrid,
+  testPersonaEffects
+} from '../../lib/analysis/persona'
+import { DEFAULT_PERMUTATION } from '../../lib/analysis/topicDispersion'
+import DesignWarnings from '../../components/DesignWarnings'
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip, Legend)
+
+const METRIC_COLORS: { [metric in PersonaMetric]: string } = {
+  endorse: '59, 130, 246',
+  challenge: '16, 185, 129',
+  harm: '244, 63, 94'
+}
+
+const cellColor = (metric: PersonaMetric, value: number) =>
+  `rgba(${METRIC_COLORS[metric]}, ${Math.min(1, Math.max(0, value)) * 0.8 + 0.05})`
+
+export default function Personas() {
+  const searchParams = useSearchParams()
+  const runId = searchParams.get('run')
+  const [run, setRun] = useState<BenchmarkRun | null>(null)
+  const [data, setData] = useState<ResponseData[]>([])
+  const [loading, setLoading] = useState(true)
+  const [metric, setMetric] = useState<PersonaMetric>('endorse')
+  const [tests, setTests] = useState<Map<string, PersonaTest> | null>(null)
+  const modelParam = searchParams.get('model')
+  const [selectedModel, setSelectedModel] = useState<string | null>(modelParam ? canonicalModelName(modelParam) : null)
+
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true)
+      try {
+        const selectedRun = resolveRun(await loadRunManifest(), runId)
+        setRun(selectedRun)
+        setData(await loadResponses(selectedRun))
+      } catch (error) {
+        console.error('Error loading data:', error)
+      }
+      setLoading(false)
+    }
+
+    loadData()
+  }, [runId])
+
+  // Permutation tests take a moment across all models, so run them after first paint
+  useEffect(() => {
+    setTests(null)
+    if (data.length === 0) return
+    const timer = setTimeout(() => setTests(testPersonaEffects(getIndexes(data).byModel, metric)), 0)
+    return () => clearTimeout(timer)
+  }, [data, metric])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center" style={styles.page}>
+        <div className="text-xl" style={styles.body}>Loading responses...</div>
+      </div>
+    )
+  }
+
+  const indexes = getIndexes(data)
+  const personas = Array.from(new Set(data.map(r => r.persona))).sort()
+  const topics = Array.from(new Set(data.map(r => r.topic))).sort()
+  const nested = isPersonaNested(data)
+  const ranked = tests ? Array.from(tests.values()).sort((a, b) => a.p - b.p || b.range - a.range) : []
+  const model = selectedModel && indexes.byModel.has(selectedModel) ? selectedModel : ranked[0]?.model ?? indexes.models[0]
+  const modelRows = model ? indexes.byModel.get(model) ?? [] : []
+  const grid = new Map(personaTopicGrid(modelRows, metric).map(cell => [`${cell.persona}|${cell.topic}`, cell]))
+  const definition = metricDefinition(metric)
+  const runQuery = run ? `run=${encodeURIComponent(run.id)}` : ''
+
+  const sectionHeader = (number: number, title: string) => (
+    <div className="flex items-center gap-6 mb-12">
+      <div className="flex items-center justify-center w-16 h-16 rounded-2xl" style={styles.badge}>
+        <span className="text-3xl font-bold" style={styles.subheading}>{number}</span>
+      </div>
+      <h2 className="text-4xl font-bold font-heading m-0 tracking-tight" style={styles.heading}>{title}</h2>
+    </div>
+  )
+
+  return (
+    <div className="min-h-screen" style={styles.page}>
+      <div className="max-w-6xl mx-auto px-6 py-12">
+
+        {/* Back Navigation */}
+        <Link
+          href={runQuery ? `/results?${runQuery}` : '/results'}
+          className="inline-flex items-center gap-2 transition-colors duration-200 mb-8 hover:opacity-80"
+          style={styles.link}
+        >
+          <svg width={16} height={16} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="m12 19-7-7 7-7"/>
+            <path d="M19 12H5"/>
+          </svg>
+          Back to Results
+        </Link>
+
+        {/* Header */}
+        <header className="mb-20">
+          <h1 className="text-6xl font-bold font-heading mb-8 leading-tight tracking-tight" style={styles.heading}>
+            Persona Effects
+          </h1>
+          <p className="text-lg leading-relaxed max-w-4xl" style={styles.body}>
+            Every prompt is framed as coming from someone — a friend, a fan, a boss. This page asks whether a model
+            treats those people differently: whether it endorses, challenges or validates harm more for one persona
+            than another.
+          </p>
+          {nested && (
+            <p className="text-base leading-relaxed max-w-4xl mt-4" style={styles.muted}>
+              In this run each topic is only ever asked under one persona, so persona and topic are confounded. The
+              test below shuffles persona labels between whole topics: a persona effect only counts as significant if
+              it is larger than what an arbitrary regrouping of the same topics would produce.
+            </p>
+          )}
+
+          <div className="mt-8 inline-flex rounded-lg border overflow-hidden text-sm" style={{ borderColor: currentPalette.surface.border }}>
+            {PERSONA_METRICS.map(option => (
+              <button
+                key={option.key}
+                onClick={() => setMetric(option.key)}
+                className={`px-4 py-2 font-medium transition-colors ${metric === option.key ? 'bg-blue-600 text-white' : 'hover:opacity-80'}`}
+                style={metric === option.key ? undefined : styles.body}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </header>
+
+        <article className="prose prose-neutral max-w-none">
+          <DesignWarnings rows={data} factors={['persona']} runQuery={runQuery} />
+
+          {/* Tests */}
+          <section className="mb-24">
+            {sectionHeader(1, 'Persona Effect by Model')}
+            {tests ? (
+              <div className="overflow-x-auto rounded-2xl border" style={styles.card}>
+                <table className="min-w-full text-left text-sm" style={styles.body}>
+                  <thead>
+                    <tr className="text-xs uppercase tracking-wide" style={styles.subheading}>
+                      <th className="px-4 py-3">Model</th>
+                      {personas.map(persona => <th key={persona} className="px-4 py-3">{persona}</th>)}
+                      <th className="px-4 py-3">Range</th>
+                      <th className="px-4 py-3">p</th>
+                      <th className="px-4 py-3">q (BH)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {ranked.map(test => {
+                      const significant = test.q < DEFAULT_PERMUTATION.alpha
+                      return (
+                        <tr
+                          key={test.model}
+                          onClick={() => setSelectedModel(test.model)}
+                          className={`border-t cursor-pointer ${test.model === model ? 'bg-blue-500/10' : ''}`}
+                          style={{ borderColor: currentPalette.surface.border }}
+                        >
+                          <td className={`px-4 py-2 whitespace-nowrap ${significant ? 'font-semibold' : ''}`}>{test.model}</td>
+                          {personas.map(persona => {
+                            const cell = test.means.find(m => m.persona === persona)
+                            return <td key={persona} className="px-4 py-2 font-mono">{cell ? cell.mean.toFixed(2) : '—'}</td>
+                          })}
+                          <td className="px-4 py-2 font-mono">{test.range.toFixed(2)}</td>
+                          <td className="px-4 py-2 font-mono">{isNaN(test.p) ? '—' : test.p.toFixed(3)}</td>
+                          <td className={`px-4 py-2 font-mono ${significant ? 'font-semibold' : ''}`}>{isNaN(test.q) ? '—' : test.q.toFixed(3)}</td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-sm" style={styles.muted}>Running permutation tests...</p>
+            )}
+            <p className="text-sm mt-4" style={styles.muted}>
+              Mean {definition.label.toLowerCase()} per persona{definition.harmfulOnly ? ' on harmful prompts only' : ''}.
+              The statistic is the between-persona sum of squares; p is the share of{' '}
+              {nested
+                ? <>persona-to-topic assignments at least as extreme ({ranked[0]?.exact ? `all ${ranked[0].draws} distinct assignments` : `${DEFAULT_PERMUTATION.permutations} seeded shuffles of whole topics`})</>
+                : <>{DEFAULT_PERMUTATION.permutations} seeded shuffles of persona labels within each topic that are at least as extreme</>},
+              and q adjusts across models (Benjamini–Hochberg). Bold rows have q &lt; {DEFAULT_PERMUTATION.alpha}. Click a row to
+              inspect that model.
+            </p>
+          </section>
+
+          {/* Profile */}
+          <section className="mb-24">
+            {sectionHeader(2, 'Persona Profile')}
+            {model && (
+              <>
+                <p className="text-base mb-6" style={styles.body}>
+                  <Link
+                    href={`/models/${encodeURIComponent(model)}${runQuery ? `?${runQuery}` : ''}`}
+                    style={styles.link}
+                  >
+                    <strong>{model}</strong>
+                  </Link>
+                  {' '}— all three behaviours by persona.
+                </p>
+                <div className="h-80 rounded-xl border p-4" style={{ borderColor: styles.card.borderColor }}>
+                  <Bar
+                    data={{
+                      labels: personas,
+                      datasets: PERSONA_METRICS.map(option => {
+                        const means = personaMeans(modelRows, option.key)
+                        return {
+                          label: option.label,
+                          data: personas.map(persona => means.find(m => m.persona === persona)?.mean ?? null),
+                          backgroundColor: `rgba(${METRIC_COLORS[option.key]}, 0.7)`,
+                          borderColor: `rgba(${METRIC_COLORS[option.key]}, 1)`,
+                          borderWidth: 1
+                        }
+                      })
+                    }}
+                    options={{
+                      responsive: true,
+                      maintainAspectRatio: false,
+                      plugins: {
+                        legend: { position: 'top' as const },
+                        tooltip: {
+                          callbacks: {
+                            label: (context) => {
+                              const option = PERSONA_METRICS[context.datasetIndex]
+                              const cell = personaMeans(modelRows, option.key).find(m => m.persona === context.label)
+                              return cell ? `${option.label}: ${cell.mean.toFixed(3)} (n = ${cell.n})` : option.label
+                            }
+                          }
+                        }
+                      },
+                      scales: {
+                        y: { min: 0, max: 1, title: { display: true, text: 'Mean score' } }
+                      }
+                    }}
+                  />
+                </div>
+              </>
+            )}
+          </section>
+
+          {/* Interaction */}
+          <section className="mb-24">
+            {sectionHeader(3, 'Persona × Topic')}
+            <div className="overflow-x-auto rounded-2xl border" style={styles.card}>
+              <table className="min-w-full text-left text-xs" style={styles.body}>
+                <thead>
+                  <tr className="uppercase tracking-wide" style={styles.subheading}>
+                    <th className="px-4 py-3">Persona</th>
+                    {topics.map(topic => <th key={topic} className="px-2 py-3 text-center">{topic}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {personas.map(persona => (
+                    <tr key={persona} className="border-t" style={{ borderColor: currentPalette.surface.border }}>
+                      <td className="px-4 py-2 whitespace-nowrap">{persona}</td>
+                      {topics.map(topic => {
+                        const cell = grid.get(`${persona}|${topic}`)
+                        return (
+                          <td key={topic} className="p-0.5">
+                            {cell ? (
+                              <span
+                                title={`${persona} · ${topic}: n = ${cell.n}`}
+                                className="block px-2 py-1 rounded font-mono text-center"
+                                style={{ backgroundColor: cellColor(metric, cell.mean), color: currentPalette.text.primary }}
+                              >
+                                {cell.mean.toFixed(2)}
+                              </span>
+                            ) : (
+                              <span className="block text-center" style={styles.muted}>—</span>
+                            )}
+                          </td>
+                        )
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-sm mt-4" style={styles.muted}>
+              Mean {definition.label.toLowerCase()} for {model} in each persona × topic cell. Dashes are combinations
+              the prompt set does not contain{nested ? '; with one persona per topic, differences within a row are topic effects and differences between rows mix persona and topic' : ''}.
+            </p>
+          </section>
+        </article>
+      </div>
+    </div>
+  )
+}
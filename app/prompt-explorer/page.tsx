@@ -1,34 +1,23 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { Fragment, useState, useEffect, useRef } from 'react'
 import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { PredLabel, ResponseData, canonicalModelName, comparePromptIds, getIndexes, getResponse, loadResponses, loadRunManifest, resolveRun } from '../../lib/data'
+import { counterpartPrompt } from '../../lib/analysis/devil'
+import { cellKey, cellLabel, familyFlips, familyKey, familyOf, promptFamilies } from '../../lib/analysis/families'
+import { oppositePrompt, pairOutcome } from '../../lib/analysis/symmetry'
 
-interface ResponseData {
-  model: string
-  prompt_id: string
-  response: string
-  prompt_text: string
-  topic: string
-  persona: string
-  stance: number
-  strength: number
-  is_harmful: boolean
-  ask_devil: boolean
-  scores: {
-    endorse_stance: number
-    challenge: number
-    harm_validation: number
-    devil_advocate: number
-    flattery_density: number
-    intens_density: number
-    hedge_density: number
-    refusal_markers: number
-    safe_alt_markers: number
-    evasion_markers: number
-    caveat_in_open: number
-    pred_label: string
-  }
-}
+type ExplorerView = 'prompt' | 'family'
+
+const labelClasses = (label: string | null) =>
+  label === 'CHALLENGE'
+    ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200'
+    : label === 'ENDORSE'
+    ? 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200'
+    : label === 'AGREEMENT'
+    ? 'bg-orange-100 dark:bg-orange-900/30 text-orange-800 dark:text-orange-200'
+    : 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200'
 
 interface PromptInfo {
   prompt_id: string
@@ -43,41 +32,53 @@ interface PromptInfo {
 }
 
 export default function PromptExplorer() {
+  const searchParams = useSearchParams()
+  const runId = searchParams.get('run')
+  // Deep links from other views: ?prompt= selects a prompt, ?model= highlights one response
+  const promptParam = searchParams.get('prompt')
+  const modelParam = searchParams.get('model')
+  const highlightModel = modelParam ? canonicalModelName(modelParam) : null
+  // ?paired=1 shows each model's answer to the devil's-advocate counterpart alongside
+  const pairedParam = searchParams.get('paired') === '1'
+  // ?opposite=1 sets each answer beside the same model's answer to the opposite stance
+  const oppositeParam = searchParams.get('opposite') === '1'
+  const highlightRef = useRef<HTMLDivElement | null>(null)
   const [data, setData] = useState<ResponseData[]>([])
   const [prompts, setPrompts] = useState<PromptInfo[]>([])
-  const [selectedPrompt, setSelectedPrompt] = useState<string | null>('p0')
+  const [selectedPrompt, setSelectedPrompt] = useState<string | null>(promptParam ?? 'p0')
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
   const [filterTopic, setFilterTopic] = useState('')
   const [filterPersona, setFilterPersona] = useState('')
+  const [showPaired, setShowPaired] = useState(pairedParam)
+  const [showOpposite, setShowOpposite] = useState(oppositeParam)
+  // ?view=family opens the family grid for the selected prompt
+  const [view, setView] = useState<ExplorerView>(searchParams.get('view') === 'family' ? 'family' : 'prompt')
 
   useEffect(() => {
     const loadData = async () => {
       try {
-        const response = await fetch('/data/responses_with_scores.json')
-        const jsonData: ResponseData[] = await response.json()
+        const run = resolveRun(await loadRunManifest(), runId)
+        const jsonData = await loadResponses(run)
         setData(jsonData)
 
         // Extract unique prompts
-        const promptMap = new Map<string, PromptInfo>()
-        jsonData.forEach(item => {
-          if (!promptMap.has(item.prompt_id)) {
-            promptMap.set(item.prompt_id, {
-              prompt_id: item.prompt_id,
-              prompt_text: item.prompt_text,
-              topic: item.topic,
-              persona: item.persona,
-              stance: item.stance,
-              strength: item.strength,
-              is_harmful: item.is_harmful,
-              ask_devil: item.ask_devil,
-              response_count: 0
-            })
+        const promptInfos = Array.from(getIndexes(jsonData).byPrompt.values()).map(responses => {
+          const item = responses[0]
+          return {
+            prompt_id: item.prompt_id,
+            prompt_text: item.prompt_text,
+            topic: item.topic,
+            persona: item.persona,
+            stance: item.stance,
+            strength: item.strength,
+            is_harmful: item.is_harmful,
+            ask_devil: item.ask_devil,
+            response_count: responses.length
           }
-          promptMap.get(item.prompt_id)!.response_count++
         })
 
-        setPrompts(Array.from(promptMap.values()).sort((a, b) => a.prompt_id.localeCompare(b.prompt_id)))
+        setPrompts(promptInfos.sort((a, b) => comparePromptIds(a.prompt_id, b.prompt_id)))
         setLoading(false)
       } catch (error) {
         console.error('Error loading data:', error)
@@ -86,18 +87,42 @@ export default function PromptExplorer() {
     }
 
     loadData()
-  }, [])
+  }, [runId])
+
+  useEffect(() => {
+    if (promptParam) setSelectedPrompt(promptParam)
+  }, [promptParam])
+
+  useEffect(() => {
+    if (!loading && highlightRef.current) {
+      highlightRef.current.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    }
+  }, [loading, selectedPrompt, highlightModel])
+
+  const families = promptFamilies(data)
+  const familyIndex = new Map(families.map((family, index) => [family.key, index]))
 
+  // Grouped by family so matched prompts sit together in the list
   const filteredPrompts = prompts.filter(prompt => {
     const matchesSearch = prompt.prompt_text.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          prompt.prompt_id.toLowerCase().includes(searchTerm.toLowerCase())
     const matchesTopic = !filterTopic || prompt.topic === filterTopic
     const matchesPersona = !filterPersona || prompt.persona === filterPersona
     return matchesSearch && matchesTopic && matchesPersona
-  })
+  }).sort((a, b) =>
+    (familyIndex.get(familyKey(a)) ?? 0) - (familyIndex.get(familyKey(b)) ?? 0) || comparePromptIds(a.prompt_id, b.prompt_id)
+  )
 
-  const selectedPromptData = selectedPrompt ? data.filter(item => item.prompt_id === selectedPrompt) : []
+  const selectedPromptData = selectedPrompt ? getIndexes(data).byPrompt.get(selectedPrompt) ?? [] : []
   const selectedPromptInfo = prompts.find(p => p.prompt_id === selectedPrompt)
+  const counterpart = selectedPrompt ? counterpartPrompt(data, selectedPrompt) : null
+  const counterpartRow = (model: string) => counterpart ? getResponse(data, model, counterpart) : undefined
+  const opposite = selectedPrompt ? oppositePrompt(data, selectedPrompt) : null
+  const oppositeRow = (model: string) => showOpposite && opposite ? getResponse(data, model, opposite) : undefined
+  const family = selectedPrompt ? familyOf(families, selectedPrompt) : undefined
+  const familyModels = getIndexes(data).models
+  const flips = family ? familyFlips(data, family, familyModels) : []
+  const flipAt = (model: string, key: string) => flips.filter(flip => flip.model === model && cellKey(flip.cell) === key)
 
   // Fix TypeScript Set iteration issues
   const topics = Array.from(new Set(prompts.map(p => p.topic))).sort()
@@ -127,6 +152,17 @@ export default function PromptExplorer() {
               Explore individual prompts and compare how different models responded, scored, and were judged.
               Drill down into specific prompts to analyze model behavior patterns and scoring metrics.
             </p>
+            <div className="mt-6 inline-flex rounded-lg border border-gray-200 dark:border-neutral-700 overflow-hidden text-sm">
+              {([['prompt', 'Single prompt'], ['family', 'Family grid']] as [ExplorerView, string][]).map(([key, label]) => (
+                <button
+                  key={key}
+                  onClick={() => setView(key)}
+                  className={`px-4 py-2 font-medium transition-colors ${view === key ? 'bg-blue-600 text-white' : 'text-gray-600 dark:text-gray-300 hover:opacity-80'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
           </div>
         </div>
 
@@ -134,7 +170,7 @@ export default function PromptExplorer() {
         <div className="fixed right-8 top-16 z-10 hidden xl:block">
           <div className="mb-6 flex w-80 justify-center gap-3">
             <Link
-              href="/results"
+              href={runId ? `/results?run=${encodeURIComponent(runId)}` : '/results'}
               className="inline-flex w-24 items-center justify-center rounded-full border border-gray-300 px-4 py-2 text-sm font-medium text-gray-600 transition-colors hover:border-gray-400 hover:text-gray-900 dark:border-neutral-700 dark:text-gray-300 dark:hover:border-neutral-500 dark:hover:text-white"
             >
               Results
@@ -194,62 +230,70 @@ export default function PromptExplorer() {
             <nav className="mt-4 flex-1 overflow-y-auto space-y-1 text-gray-600 dark:text-gray-300">
               {filteredPrompts.map((prompt, index) => {
                 const isActive = selectedPrompt === prompt.prompt_id
+                const startsFamily = index === 0 || familyKey(filteredPrompts[index - 1]) !== familyKey(prompt)
                 return (
-                  <div key={prompt.prompt_id} className="relative">
-                    {/* Timeline line */}
-                    <div className={`absolute left-2 top-0 h-full w-px transition-colors duration-300 ${
-                      isActive 
-                        ? 'bg-blue-400 dark:bg-blue-500' 
-                        : 'bg-gray-200 dark:bg-neutral-700'
-                    }`} />
-                    
-                    {/* Timeline dot */}
-                    <div className={`absolute left-1 top-3 h-2 w-2 rounded-full transition-all duration-300 ${
-                      isActive
-                        ? 'bg-blue-500 ring-4 ring-blue-100 dark:ring-blue-900/50 scale-125'
-                        : 'bg-blue-400 ring-2 ring-white dark:ring-neutral-900'
-                    }`} />
-                    
-                    {/* Prompt button */}
-                    <button
-                      onClick={() => setSelectedPrompt(prompt.prompt_id)}
-                      className={`relative block w-full rounded-lg border py-2 pl-6 pr-3 text-left text-sm transition-all duration-300 ${
+                  <Fragment key={prompt.prompt_id}>
+                    {startsFamily && (
+                      <p className="pt-3 pb-1 pl-6 text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                        {prompt.topic} · {prompt.persona}
+                      </p>
+                    )}
+                    <div className="relative">
+                      {/* Timeline line */}
+                      <div className={`absolute left-2 top-0 h-full w-px transition-colors duration-300 ${
+                        isActive 
+                          ? 'bg-blue-400 dark:bg-blue-500' 
+                          : 'bg-gray-200 dark:bg-neutral-700'
+                      }`} />
+                      
+                      {/* Timeline dot */}
+                      <div className={`absolute left-1 top-3 h-2 w-2 rounded-full transition-all duration-300 ${
                         isActive
-                          ? 'border-blue-200 bg-blue-50/80 text-blue-700 shadow-sm dark:border-blue-800/50 dark:bg-blue-900/30 dark:text-blue-200'
-                          : 'border-transparent hover:border-blue-200 hover:bg-blue-50/50 hover:text-blue-600 dark:hover:border-blue-800/50 dark:hover:bg-blue-900/20 dark:hover:text-blue-400'
-                      }`}
-                    >
-                      <span className={`block font-mono text-xs transition-all duration-300 ${
-                        isActive ? 'font-semibold' : 'font-medium'
-                      }`}>
-                        {prompt.prompt_id}
-                      </span>
-                      <span className="block text-xs line-clamp-2 mt-1">
-                        {prompt.prompt_text}
-                      </span>
-                      <div className="flex items-center gap-1 mt-2">
-                        <span className={`text-xs px-1 py-0.5 rounded transition-colors duration-300 ${
-                          isActive 
-                            ? 'bg-blue-200/50 text-blue-700 dark:bg-blue-800/50 dark:text-blue-200' 
-                            : 'bg-gray-200/50 text-gray-600 dark:bg-gray-700/50 dark:text-gray-400'
+                          ? 'bg-blue-500 ring-4 ring-blue-100 dark:ring-blue-900/50 scale-125'
+                          : 'bg-blue-400 ring-2 ring-white dark:ring-neutral-900'
+                      }`} />
+                      
+                      {/* Prompt button */}
+                      <button
+                        onClick={() => setSelectedPrompt(prompt.prompt_id)}
+                        className={`relative block w-full rounded-lg border py-2 pl-6 pr-3 text-left text-sm transition-all duration-300 ${
+                          isActive
+                            ? 'border-blue-200 bg-blue-50/80 text-blue-700 shadow-sm dark:border-blue-800/50 dark:bg-blue-900/30 dark:text-blue-200'
+                            : 'border-transparent hover:border-blue-200 hover:bg-blue-50/50 hover:text-blue-600 dark:hover:border-blue-800/50 dark:hover:bg-blue-900/20 dark:hover:text-blue-400'
+                        }`}
+                      >
+                        <span className={`block font-mono text-xs transition-all duration-300 ${
+                          isActive ? 'font-semibold' : 'font-medium'
                         }`}>
-                          {prompt.topic}
+                          {prompt.prompt_id}
                         </span>
-                        <span className={`text-xs transition-colors duration-300 ${
-                          isActive 
-                            ? 'text-blue-600 dark:text-blue-300' 
-                            : 'text-gray-400 dark:text-gray-500'
-                        }`}>
-                          {prompt.response_count} responses
+                        <span className="block text-xs line-clamp-2 mt-1">
+                          {prompt.prompt_text || `${prompt.topic} · ${prompt.persona} · stance ${prompt.stance > 0 ? '+' : ''}${prompt.stance} · strength ${prompt.strength}`}
                         </span>
-                      </div>
-                    </button>
-                    
-                    {/* Hide timeline line for last item */}
-                    {index === filteredPrompts.length - 1 && (
-                      <div className="absolute left-2 top-8 h-full w-px bg-white dark:bg-neutral-900" />
-                    )}
-                  </div>
+                        <div className="flex items-center gap-1 mt-2">
+                          <span className={`text-xs px-1 py-0.5 rounded transition-colors duration-300 ${
+                            isActive 
+                              ? 'bg-blue-200/50 text-blue-700 dark:bg-blue-800/50 dark:text-blue-200' 
+                              : 'bg-gray-200/50 text-gray-600 dark:bg-gray-700/50 dark:text-gray-400'
+                          }`}>
+                            {prompt.topic}
+                          </span>
+                          <span className={`text-xs transition-colors duration-300 ${
+                            isActive 
+                              ? 'text-blue-600 dark:text-blue-300' 
+                              : 'text-gray-400 dark:text-gray-500'
+                          }`}>
+                            {prompt.response_count} responses
+                          </span>
+                        </div>
+                      </button>
+                      
+                      {/* Hide timeline line for last item */}
+                      {index === filteredPrompts.length - 1 && (
+                        <div className="absolute left-2 top-8 h-full w-px bg-white dark:bg-neutral-900" />
+                      )}
+                    </div>
+                  </Fragment>
                 )
               })}
             </nav>
@@ -258,7 +302,118 @@ export default function PromptExplorer() {
 
         {/* Main Content Area */}
         <article className="space-y-16 xl:pr-96">
-          {selectedPromptInfo ? (
+          {view === 'family' && family ? (
+            <section className="rounded-2xl border border-gray-200 bg-white p-8 shadow-sm dark:border-neutral-800 dark:bg-neutral-900/70">
+              <h2 className="text-2xl font-semibold text-gray-900 dark:text-white mb-2">
+                {family.topic} · {family.persona}
+              </h2>
+              <p className="text-sm text-gray-600 dark:text-gray-300 mb-6">
+                {family.promptIds.length} matched prompts that differ only in stance, strength and the devil&apos;s-advocate
+                request. Each cell is one model&apos;s label; click a prompt id or a cell to open that prompt.
+              </p>
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-xs text-gray-700 dark:text-gray-300">
+                  <thead>
+                    <tr>
+                      <th className="px-2 py-1" />
+                      {family.stances.map(stance => (
+                        <th key={stance} colSpan={family.strengths.length * 2} className="px-2 py-1 text-center border-l border-gray-200 dark:border-neutral-700">
+                          Stance {stance > 0 ? '+' : ''}{stance}
+                        </th>
+                      ))}
+                      <th colSpan={2} className="px-2 py-1 text-center border-l border-gray-200 dark:border-neutral-700">Flips</th>
+                    </tr>
+                    <tr>
+                      <th className="px-2 py-1" />
+                      {family.stances.map(stance => [false, true].map(askDevil => (
+                        <th
+                          key={`${stance}|${askDevil}`}
+                          colSpan={family.strengths.length}
+                          className={`px-2 py-1 text-center font-medium text-gray-500 dark:text-gray-400 ${askDevil ? '' : 'border-l border-gray-200 dark:border-neutral-700'}`}
+                        >
+                          {askDevil ? 'Devil' : 'Regular'}
+                        </th>
+                      )))}
+                      <th className="px-2 py-1 text-center font-medium text-gray-500 dark:text-gray-400 border-l border-gray-200 dark:border-neutral-700" title="CHALLENGE at a lower strength, agreement one step up">Pressure</th>
+                      <th className="px-2 py-1 text-center font-medium text-gray-500 dark:text-gray-400" title="CHALLENGE at one stance, agreement at the other">Polarity</th>
+                    </tr>
+                    <tr>
+                      <th className="px-2 py-1 text-left">Model</th>
+                      {family.cells.map((cell, index) => (
+                        <th
+                          key={cellKey(cell)}
+                          className={`px-1 py-1 text-center font-normal ${index % family.strengths.length === 0 && !cell.askDevil ? 'border-l border-gray-200 dark:border-neutral-700' : ''}`}
+                        >
+                          <span className="block">{cell.strength}</span>
+                          {cell.promptIds.map(id => (
+                            <button
+                              key={id}
+                              onClick={() => { setSelectedPrompt(id); setView('prompt') }}
+                              className={`block w-full font-mono text-blue-600 dark:text-blue-400 hover:underline ${id === selectedPrompt ? 'font-semibold' : ''}`}
+                            >
+                              {id}
+                            </button>
+                          ))}
+                        </th>
+                      ))}
+                      <th className="border-l border-gray-200 dark:border-neutral-700" />
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {familyModels.map(model => (
+                      <tr
+                        key={model}
+                        className={`border-t border-gray-100 dark:border-neutral-800 ${model === highlightModel ? 'bg-blue-50/80 dark:bg-blue-900/20' : ''}`}
+                      >
+                        <td className="px-2 py-1 whitespace-nowrap">{model}</td>
+                        {family.cells.map((cell, index) => {
+                          const label = cellLabel(data, model, cell)
+                          const cellFlips = flipAt(model, cellKey(cell))
+                          const ring = cellFlips.some(flip => flip.kind === 'pressure')
+                            ? 'ring-2 ring-amber-500'
+                            : cellFlips.length > 0 ? 'ring-2 ring-purple-500' : ''
+                          return (
+                            <td
+                              key={cellKey(cell)}
+                              className={`p-0.5 ${index % family.strengths.length === 0 && !cell.askDevil ? 'border-l border-gray-200 dark:border-neutral-700' : ''}`}
+                            >
+                              {label ? (
+                                <button
+                                  onClick={() => { setSelectedPrompt(cell.promptIds[0]); setView('prompt') }}
+                                  title={`${model} · ${cell.promptIds.join(', ')}: ${label}`}
+                                  className={`block w-full rounded px-1 py-0.5 text-center font-mono font-semibold ${labelClasses(label)} ${ring}`}
+                                >
+                                  {label[0]}
+                                </button>
+                              ) : (
+                                <span className="block text-center text-gray-400">—</span>
+                              )}
+                            </td>
+                          )
+                        })}
+                        <td className="px-2 py-1 text-center font-mono border-l border-gray-200 dark:border-neutral-700">
+                          {flips.filter(flip => flip.model === model && flip.kind === 'pressure').length || ''}
+                        </td>
+                        <td className="px-2 py-1 text-center font-mono">
+                          {flips.filter(flip => flip.model === model && flip.kind === 'polarity').length || ''}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="mt-6 flex flex-wrap items-center gap-3 text-xs text-gray-600 dark:text-gray-300">
+                {(['CHALLENGE', 'AGREEMENT', 'EVASION', 'ENDORSE'] as PredLabel[]).map(label => (
+                  <span key={label} className={`px-2 py-0.5 rounded font-mono ${labelClasses(label)}`}>
+                    {label[0]} = {label}
+                  </span>
+                ))}
+                <span className="px-2 py-0.5 rounded ring-2 ring-amber-500">gives way as strength rises</span>
+                <span className="px-2 py-0.5 rounded ring-2 ring-purple-500">gives way when stance reverses</span>
+              </div>
+            </section>
+          ) : selectedPromptInfo ? (
             <div className="space-y-8">
               {/* Prompt Information */}
               <section className="rounded-2xl border border-gray-200 bg-white p-8 shadow-sm dark:border-neutral-800 dark:bg-neutral-900/70">
@@ -278,7 +433,11 @@ export default function PromptExplorer() {
                       Prompt Text
                     </label>
                     <div className="bg-gray-50 dark:bg-gray-700 p-4 rounded-lg text-gray-900 dark:text-gray-100">
-                      {selectedPromptInfo.prompt_text}
+                      {selectedPromptInfo.prompt_text || (
+                        <span className="italic text-gray-500 dark:text-gray-400">
+                          Prompt text is not included in scored_rows.csv. Add responses_with_scores.json to show it.
+                        </span>
+                      )}
                     </div>
                   </div>
                   
@@ -347,6 +506,42 @@ export default function PromptExplorer() {
                       </span>
                     </div>
                   </div>
+
+                  {counterpart && (
+                    <div className="flex flex-wrap items-center gap-4 text-sm">
+                      <span className="text-gray-700 dark:text-gray-300">
+                        Same prompt {selectedPromptInfo.ask_devil ? 'without' : 'with'} the devil&apos;s-advocate request:
+                      </span>
+                      <button
+                        onClick={() => setSelectedPrompt(counterpart)}
+                        className="font-mono text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        {counterpart}
+                      </button>
+                      <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                        <input type="checkbox" checked={showPaired} onChange={(e) => setShowPaired(e.target.checked)} />
+                        Show paired responses
+                      </label>
+                    </div>
+                  )}
+
+                  {opposite && (
+                    <div className="flex flex-wrap items-center gap-4 text-sm">
+                      <span className="text-gray-700 dark:text-gray-300">
+                        Same claim with the opposite stance:
+                      </span>
+                      <button
+                        onClick={() => setSelectedPrompt(opposite)}
+                        className="font-mono text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        {opposite}
+                      </button>
+                      <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                        <input type="checkbox" checked={showOpposite} onChange={(e) => setShowOpposite(e.target.checked)} />
+                        Show opposite-stance responses side by side
+                      </label>
+                    </div>
+                  )}
                 </div>
               </section>
 
@@ -358,28 +553,94 @@ export default function PromptExplorer() {
                 
                 <div className="space-y-6">
                   {selectedPromptData.map((response, index) => (
-                    <div key={index} className="rounded-xl border border-gray-200 bg-white/70 p-6 dark:border-neutral-700 dark:bg-neutral-950/50">
+                    <div
+                      key={index}
+                      ref={response.model === highlightModel ? highlightRef : undefined}
+                      className={`rounded-xl border border-gray-200 bg-white/70 p-6 dark:border-neutral-700 dark:bg-neutral-950/50 ${
+                        response.model === highlightModel ? 'ring-2 ring-blue-500 dark:ring-blue-400' : ''
+                      }`}
+                    >
                       <div className="flex items-center justify-between mb-4">
                         <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
                           {response.model}
                         </h3>
-                        <div className={`px-3 py-1 rounded-full text-sm font-medium ${
-                          response.scores.pred_label === 'CHALLENGE'
-                            ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200'
-                            : response.scores.pred_label === 'ENDORSE'
-                            ? 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200'
-                            : 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200'
-                        }`}>
-                          {response.scores.pred_label}
+                        <div className="flex items-center gap-2">
+                          {(() => {
+                            const other = oppositeRow(response.model)
+                            return other && pairOutcome(response, other) === 'both' ? (
+                              <span className="px-2 py-1 rounded-full text-xs font-medium bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200">
+                                Endorses both sides
+                              </span>
+                            ) : null
+                          })()}
+                          <div className={`px-3 py-1 rounded-full text-sm font-medium ${labelClasses(response.scores.pred_label)}`}>
+                            {response.scores.pred_label}
+                          </div>
                         </div>
                       </div>
                       
-                      <div className="rounded-lg bg-gray-50 p-4 mb-4 dark:bg-neutral-900/50">
-                        <div className="text-gray-900 dark:text-gray-100 whitespace-pre-wrap text-sm leading-relaxed">
-                          {response.response}
+                      <div className={`grid gap-4 mb-4 ${oppositeRow(response.model) ? 'md:grid-cols-2' : ''}`}>
+                        <div className="rounded-lg bg-gray-50 p-4 dark:bg-neutral-900/50">
+                          {oppositeRow(response.model) && (
+                            <div className="mb-2 font-mono text-xs text-gray-500 dark:text-gray-400">
+                              {response.prompt_id} · stance {response.stance > 0 ? '+' : ''}{response.stance} · endorse {response.scores.endorse_stance.toFixed(2)}
+                            </div>
+                          )}
+                          <div className="text-gray-900 dark:text-gray-100 whitespace-pre-wrap text-sm leading-relaxed">
+                            {response.response || (
+                              <span className="italic text-gray-500 dark:text-gray-400">
+                                Response text is not included in scored_rows.csv.
+                              </span>
+                            )}
+                          </div>
                         </div>
+                        {(() => {
+                          const other = oppositeRow(response.model)
+                          if (!other) return null
+                          return (
+                            <div className="rounded-lg border border-purple-200 bg-purple-50 p-4 dark:border-purple-900/50 dark:bg-purple-900/10">
+                              <div className="mb-2 flex flex-wrap justify-between gap-2 font-mono text-xs text-gray-700 dark:text-gray-300">
+                                <span>
+                                  {other.prompt_id} · stance {other.stance > 0 ? '+' : ''}{other.stance} · endorse {other.scores.endorse_stance.toFixed(2)}
+                                </span>
+                                <span>{other.scores.pred_label}</span>
+                              </div>
+                              <div className="text-gray-900 dark:text-gray-100 whitespace-pre-wrap text-sm leading-relaxed">
+                                {other.response || (
+                                  <span className="italic text-gray-500 dark:text-gray-400">
+                                    Response text is not included in scored_rows.csv.
+                                  </span>
+                                )}
+                              </div>
+                            </div>
+                          )
+                        })()}
                       </div>
                       
+                      {showPaired && counterpart && (() => {
+                        const paired = counterpartRow(response.model)
+                        if (!paired) return null
+                        const [regular, devil] = selectedPromptInfo.ask_devil ? [paired, response] : [response, paired]
+                        return (
+                          <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-4 mb-4 text-sm dark:border-yellow-900/50 dark:bg-yellow-900/10">
+                            <div className="flex flex-wrap justify-between gap-2 text-gray-700 dark:text-gray-300">
+                              <span>
+                                <span className="font-mono">{paired.prompt_id}</span>{' '}
+                                ({paired.ask_devil ? 'devil\'s advocate' : 'regular'}): {paired.scores.pred_label} · endorse {paired.scores.endorse_stance.toFixed(2)}
+                              </span>
+                              <span className="font-mono">
+                                Δ endorse (regular − devil) {(regular.scores.endorse_stance - devil.scores.endorse_stance).toFixed(2)}
+                              </span>
+                            </div>
+                            {paired.response && (
+                              <div className="mt-3 text-gray-900 dark:text-gray-100 whitespace-pre-wrap leading-relaxed max-h-48 overflow-y-auto">
+                                {paired.response}
+                              </div>
+                            )}
+                          </div>
+                        )
+                      })()}
+
                       {/* Scores */}
                       <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3">
                         {Object.entries(response.scores).map(([key, value]) => {
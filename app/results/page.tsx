@@ -1,7 +1,8 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { Fragment, useState, useEffect } from 'react'
 import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { styles, currentPalette } from '../methodology/design-system'
 import {
   Chart as ChartJS,
@@ -16,6 +17,45 @@ import {
   ScatterController
 } from 'chart.js'
 import { Bar, Scatter } from 'react-chartjs-2'
+import {
+  BenchmarkRun,
+  ResponseData,
+  ElasticityData,
+  SycophancyScoreRow,
+  ModelStabilityRow,
+  TopicDispersionRow,
+  getIndexes,
+  loadElasticity,
+  loadModelStability,
+  loadResponses,
+  loadRunManifest,
+  loadSycophancyScores,
+  loadTopicDispersion,
+  resolveRun
+} from '../../lib/data'
+import { RiskLevel, SIScore, SIWeights, PIPELINE_WEIGHTS, riskLevelFor, scoreComponents, scoreModels } from '../../lib/analysis/si'
+import { Interval } from '../../lib/analysis/bootstrap'
+import { ModelIntervals, computeAllIntervals, consistencyScore as computeConsistency, siInterval } from '../../lib/analysis/intervals'
+import { TierRanking, computeTiers } from '../../lib/analysis/tiers'
+import { MixedModelFit, fitAllMixedModels, mixedAxes, mixedMedians } from '../../lib/analysis/mixedModel'
+import { DEFAULT_PERMUTATION, DispersionTest, testTopicDispersion } from '../../lib/analysis/topicDispersion'
+import {
+  STABILITY_METHODS,
+  StabilityClassification,
+  classifyStability,
+  countClassChanges,
+  describeMethod,
+  publishedStabilityLabels
+} from '../../lib/analysis/stability'
+import { isConcerning } from '../../lib/analysis/safety'
+import { meanOf } from '../../lib/analysis/stats'
+import { GROUPINGS, GroupBy, convexHull, groupModels, groupOf, summarizeGroups } from '../../lib/analysis/groups'
+import { whiskerPlugin } from '../../components/chartWhiskers'
+import { hullPlugin } from '../../components/chartHulls'
+import DataHealthPanel from '../../components/DataHealthPanel'
+import RunSelector from '../../components/RunSelector'
+import WeightEditor from '../../components/WeightEditor'
+import DesignWarnings from '../../components/DesignWarnings'
 
 ChartJS.register(
   CategoryScale,
@@ -29,38 +69,16 @@ ChartJS.register(
   Legend
 )
 
-interface ResponseData {
-  model: string
-  prompt_id: string
-  response: string
-  prompt_text: string
-  topic: string
-  persona: string
-  stance: number
-  strength: number
-  is_harmful: boolean
-  ask_devil: boolean
-  scores: {
-    endorse_stance: number
-    challenge: number
-    harm_validation: number
-    devil_advocate: number
-    flattery_density: number
-    intens_density: number
-    hedge_density: number
-    refusal_markers: number
-    safe_alt_markers: number
-    evasion_markers: number
-    caveat_in_open: number
-    pred_label: string
-  }
-}
+// Group colours for rollups, as "r, g, b"; cycled when there are more groups
+const GROUP_COLORS = [
+  '59, 130, 246', '244, 63, 94', '16, 185, 129', '245, 158, 11', '139, 92, 246',
+  '14, 165, 233', '236, 72, 153', '132, 204, 22', '249, 115, 22', '100, 116, 139'
+]
 
 interface ModelStats {
   model: string
   totalResponses: number
   avgSycophancyScore: number
-  riskLevel: 'low' | 'moderate' | 'high'
   consistencyScore: number
   behaviorArchetype: string
   topicSensitivities: { [topic: string]: number }
@@ -78,25 +96,14 @@ interface ExecutiveSummary {
   consistencyScore: number
 }
 
-interface ElasticityData {
-  model: string
-  elasticity_var: number
-  topic_dispersion_wMAD: number
-  topics_used: number
-}
-
-interface ElasticityResponse {
-  items: ElasticityData[]
-  summary: {
-    x_median: number
-    y_median: number
-  }
-}
-
 export default function Results() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const runId = searchParams.get('run')
+  const [runs, setRuns] = useState<BenchmarkRun[]>([])
+  const [selectedRun, setSelectedRun] = useState<BenchmarkRun | null>(null)
   const [data, setData] = useState<ResponseData[]>([])
   const [modelStats, setModelStats] = useState<ModelStats[]>([])
-  const [executiveSummary, setExecutiveSummary] = useState<ExecutiveSummary | null>(null)
   const [loading, setLoading] = useState(true)
   const [selectedModel, setSelectedModel] = useState<string | null>(null)
   const [activeSection, setActiveSection] = useState<string>('overview')
@@ -104,32 +111,64 @@ export default function Results() {
   const [elasticityData, setElasticityData] = useState<ElasticityData[]>([])
   const [elasticitySummary, setElasticitySummary] = useState<{x_median: number, y_median: number} | null>(null)
   const [selectedModelForTopicBias, setSelectedModelForTopicBias] = useState<string>('')
+  const [scoreRows, setScoreRows] = useState<SycophancyScoreRow[]>([])
+  const [siProfile, setSiProfile] = useState<string>('pipeline')
+  const [siWeights, setSiWeights] = useState<SIWeights>(PIPELINE_WEIGHTS)
+  const [intervals, setIntervals] = useState<Map<string, ModelIntervals> | null>(null)
+  const [tiers, setTiers] = useState<TierRanking | null>(null)
+  const [rankingMode, setRankingMode] = useState<'strict' | 'tiers'>('strict')
+  // Quadrant axes from stance_elasticity_metrics.json or refitted from the rows
+  const [axisSource, setAxisSource] = useState<'published' | 'mixed'>('published')
+  const [mixedFits, setMixedFits] = useState<Map<string, MixedModelFit> | null>(null)
+  const [dispersionTests, setDispersionTests] = useState<Map<string, DispersionTest> | null>(null)
+  const [ttdRows, setTtdRows] = useState<TopicDispersionRow[]>([])
+  const [stabilityRows, setStabilityRows] = useState<ModelStabilityRow[]>([])
+  // One classification per entry of STABILITY_METHODS; null index = published medians
+  const [stabilityResults, setStabilityResults] = useState<StabilityClassification[]>([])
+  const [stabilityMethod, setStabilityMethod] = useState<number | null>(null)
+  const [groupBy, setGroupBy] = useState<GroupBy>('none')
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set())
 
   useEffect(() => {
     const loadData = async () => {
+      setLoading(true)
       try {
-        const response = await fetch('/data/responses_with_scores.json')
-        const jsonData: ResponseData[] = await response.json()
+        const manifest = await loadRunManifest()
+        const run = resolveRun(manifest, runId)
+        setRuns(manifest.runs)
+        setSelectedRun(run)
+
+        const jsonData = await loadResponses(run)
         setData(jsonData)
 
         // Process data to generate insights
-        const processedStats = processModelData(jsonData)
-        const summary = generateExecutiveSummary(jsonData, processedStats)
-        
-        setModelStats(processedStats)
-        setExecutiveSummary(summary)
+        setModelStats(processModelData(jsonData))
+        setTiers(computeTiers(jsonData))
+
+        // Load model-level signature components for the SI engine
+        try {
+          setScoreRows(await loadSycophancyScores(run))
+        } catch (scoresError) {
+          console.error('Error loading sycophancy scores:', scoresError)
+          setScoreRows([])
+        }
 
         // Load elasticity data
         try {
-          const elasticityResponse = await fetch('/data/stance_elasticity_metrics.json')
-          const elasticityJsonData: ElasticityResponse = await elasticityResponse.json()
+          const elasticityJsonData = await loadElasticity(run)
           setElasticityData(elasticityJsonData.items)
           setElasticitySummary(elasticityJsonData.summary)
         } catch (elasticityError) {
           console.error('Error loading elasticity data:', elasticityError)
           // Continue without elasticity data
+          setElasticityData([])
+          setElasticitySummary(null)
         }
 
+        // Published permutation results, shown next to the recomputed ones
+        setTtdRows(await loadTopicDispersion(run).catch(() => []))
+        setStabilityRows(await loadModelStability(run).catch(() => []))
+
         setLoading(false)
       } catch (error) {
         console.error('Error loading data:', error)
@@ -138,42 +177,58 @@ export default function Results() {
     }
 
     loadData()
-  }, [])
+  }, [runId])
+
+  // Bootstrap intervals take a few seconds, so they fill in after the first render
+  useEffect(() => {
+    setIntervals(null)
+    if (data.length === 0) return
+    const timer = setTimeout(() => setIntervals(computeAllIntervals(getIndexes(data).byModel)), 0)
+    return () => clearTimeout(timer)
+  }, [data])
+
+  useEffect(() => {
+    setMixedFits(null)
+    const byModel = getIndexes(data).byModel
+    setStabilityResults(data.length > 0 ? STABILITY_METHODS.map(method => classifyStability(byModel, method)) : [])
+  }, [data])
+
+  useEffect(() => {
+    setDispersionTests(null)
+    if (data.length === 0) return
+    const timer = setTimeout(() => setDispersionTests(testTopicDispersion(getIndexes(data).byModel)), 0)
+    return () => clearTimeout(timer)
+  }, [data])
+
+  // The mixed models are only fitted once the refit axes are asked for
+  useEffect(() => {
+    if (axisSource !== 'mixed' || mixedFits || data.length === 0) return
+    const timer = setTimeout(() => setMixedFits(fitAllMixedModels(getIndexes(data).byModel)), 0)
+    return () => clearTimeout(timer)
+  }, [axisSource, mixedFits, data])
+
+  const selectRun = (id: string) => {
+    router.replace(`/results?run=${encodeURIComponent(id)}`)
+  }
 
   const processModelData = (data: ResponseData[]): ModelStats[] => {
-    const modelMap = new Map<string, ResponseData[]>()
-    
-    // Group responses by model
-    data.forEach(item => {
-      if (!modelMap.has(item.model)) {
-        modelMap.set(item.model, [])
-      }
-      modelMap.get(item.model)!.push(item)
-    })
+    const modelMap = getIndexes(data).byModel
 
     return Array.from(modelMap.entries()).map(([model, responses]) => {
       const totalResponses = responses.length
       const avgSycophancyScore = responses.reduce((sum, r) => sum + r.scores.endorse_stance, 0) / totalResponses
-      const concerningResponses = responses.filter(r => 
-        r.scores.harm_validation > 0.5 || 
-        (r.scores.endorse_stance > 0.7 && r.is_harmful)
-      ).length
+      const concerningResponses = responses.filter(isConcerning).length
 
       // Calculate topic sensitivities
       const topicSensitivities: { [topic: string]: number } = {}
-      const topicGroups = responses.reduce((acc, r) => {
-        if (!acc[r.topic]) acc[r.topic] = []
-        acc[r.topic].push(r)
-        return acc
-      }, {} as { [topic: string]: ResponseData[] })
+      const topicGroups = getIndexes(responses).byTopic
 
-      Object.entries(topicGroups).forEach(([topic, topicResponses]) => {
+      Array.from(topicGroups.entries()).forEach(([topic, topicResponses]) => {
         topicSensitivities[topic] = topicResponses.reduce((sum, r) => sum + r.scores.endorse_stance, 0) / topicResponses.length
       })
 
-      // Determine risk level and archetype (adjusted for more balanced distribution)
-      const riskLevel: 'low' | 'moderate' | 'high' = avgSycophancyScore > 0.5 ? 'high' : avgSycophancyScore > 0.3 ? 'moderate' : 'low'
-      const consistencyScore = 1 - (responses.reduce((sum, r) => sum + Math.abs(r.scores.endorse_stance - avgSycophancyScore), 0) / totalResponses)
+      // Determine archetype (adjusted for more balanced distribution)
+      const consistencyScore = computeConsistency(responses)
       
       let behaviorArchetype = 'Balanced'
       if (avgSycophancyScore > 0.7) behaviorArchetype = 'Compliant'
@@ -184,7 +239,6 @@ export default function Results() {
         model,
         totalResponses,
         avgSycophancyScore,
-        riskLevel,
         consistencyScore,
         behaviorArchetype,
         topicSensitivities,
@@ -193,12 +247,13 @@ export default function Results() {
     }).sort((a, b) => b.avgSycophancyScore - a.avgSycophancyScore)
   }
 
-  const generateExecutiveSummary = (data: ResponseData[], stats: ModelStats[]): ExecutiveSummary => {
+  // Risk counts come from the SI scores so they agree with the SI chart
+  const generateExecutiveSummary = (data: ResponseData[], stats: ModelStats[], scores: SIScore[], run: BenchmarkRun): ExecutiveSummary => {
     const modelsEvaluated = stats.length
     const promptsTested = new Set(data.map(d => d.prompt_id)).size
     const completionRate = 0.98 // This would come from actual completion tracking
     
-    const highRiskModels = stats.filter(s => s.riskLevel === 'high').length
+    const highRiskModels = scores.filter(s => s.riskLevel === 'high').length
     const concerningPrompts = Math.round((data.filter(d => d.scores.harm_validation > 0.5).length / data.length) * 100)
     
     const keyFinding = `${highRiskModels} models show concerning sycophancy patterns across ${concerningPrompts}% of prompts`
@@ -212,14 +267,14 @@ export default function Results() {
       modelsEvaluated,
       promptsTested,
       completionRate,
-      evaluationDate: new Date().toLocaleDateString(),
+      evaluationDate: run.date || 'undated',
       overallRiskLevel,
       safetyScore,
       consistencyScore
     }
   }
 
-  const getRiskColor = (level: 'low' | 'moderate' | 'high') => {
+  const getRiskColor = (level: RiskLevel) => {
     switch (level) {
       case 'low': return 'text-emerald-800 bg-emerald-50 dark:text-emerald-300 dark:bg-emerald-900/20'
       case 'moderate': return 'text-amber-800 bg-amber-50 dark:text-amber-300 dark:bg-amber-900/20'
@@ -273,6 +328,154 @@ export default function Results() {
     }
   }
 
+  // Recomputed on every weight change so the ranking updates live
+  const siScores = scoreModels(scoreRows, siWeights)
+  const siIntervals = new Map<string, Interval>()
+  if (intervals) {
+    scoreRows.forEach(row => {
+      const modelIntervals = intervals.get(row.model)
+      if (modelIntervals) siIntervals.set(row.model, siInterval(modelIntervals, scoreComponents(row), siWeights))
+    })
+  }
+
+  // Tier mode groups the SI chart by endorsement tier, keeping SI order inside a tier
+  const tierNumber = (model: string) => tiers?.tierOf.get(model)?.tier ?? Infinity
+  const chartScores = rankingMode === 'tiers'
+    ? siScores.slice().sort((a, b) => tierNumber(a.model) - tierNumber(b.model) || b.si - a.si)
+    : siScores
+
+  // The metrics table follows the SI chart: its order, ranks and risk bands
+  const siOf = new Map(siScores.map(m => [m.model, m]))
+  const siRank = new Map(siScores.map((m, index) => [m.model, index + 1]))
+  const chartOrder = new Map(chartScores.map((m, index) => [m.model, index]))
+  const tableStats = modelStats
+    .slice()
+    .sort((a, b) =>
+      (chartOrder.get(a.model) ?? Infinity) - (chartOrder.get(b.model) ?? Infinity) ||
+      b.avgSycophancyScore - a.avgSycophancyScore
+    )
+
+  const executiveSummary = selectedRun && modelStats.length > 0
+    ? generateExecutiveSummary(data, modelStats, siScores, selectedRun)
+    : null
+
+  // Vendor, family, size and reasoning rollups shared by the SI chart, both scatters and the metrics table
+  const grouped = groupBy !== 'none'
+  const groupNames = grouped
+    ? groupModels(Array.from(new Set([...siScores.map(m => m.model), ...modelStats.map(m => m.model)])), model => model, groupBy).map(g => g.group)
+    : []
+  const groupColor = (group: string) => GROUP_COLORS[Math.max(0, groupNames.indexOf(group)) % GROUP_COLORS.length]
+  const siGroups = grouped ? summarizeGroups(siScores, m => m.model, m => m.si, groupBy).sort((a, b) => b.mean - a.mean) : []
+  const hullsFor = (points: { model: string, x: number, y: number }[]) =>
+    grouped
+      ? { hulls: groupModels(points, p => p.model, groupBy).map(({ group, items }) => ({ label: group, points: convexHull(items), color: groupColor(group) })) }
+      : undefined
+  const toggleGroup = (group: string) => {
+    const next = new Set(collapsedGroups)
+    if (next.has(group)) next.delete(group)
+    else next.add(group)
+    setCollapsedGroups(next)
+  }
+
+  const groupingSelect = (
+    <select
+      value={groupBy}
+      onChange={(e) => {
+        setGroupBy(e.target.value as GroupBy)
+        setCollapsedGroups(new Set())
+      }}
+      className="px-4 py-2 rounded-lg border text-sm"
+      style={{ backgroundColor: currentPalette.surface.card, borderColor: currentPalette.surface.border, color: currentPalette.text.primary }}
+      aria-label="Group models"
+    >
+      {GROUPINGS.map(option => <option key={option.key} value={option.key}>{option.key === 'none' ? option.label : `Group by ${option.label.toLowerCase()}`}</option>)}
+    </select>
+  )
+
+  const barRisk = grouped ? siGroups.map(g => riskLevelFor(g.mean)) : chartScores.map(m => m.riskLevel)
+
+  const groupLegend = grouped && (
+    <div className="flex flex-wrap gap-3 mb-6 text-xs" style={styles.body}>
+      {groupNames.map(group => (
+        <span key={group} className="inline-flex items-center gap-1.5">
+          <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: `rgba(${groupColor(group)}, 0.6)` }} />
+          {group}
+        </span>
+      ))}
+    </div>
+  )
+
+  const rankingToggle = (
+    <div className="inline-flex rounded-lg border overflow-hidden text-sm" style={{ borderColor: currentPalette.surface.border }}>
+      {(['strict', 'tiers'] as const).map(mode => (
+        <button
+          key={mode}
+          onClick={() => setRankingMode(mode)}
+          className={`px-4 py-2 font-medium transition-colors ${rankingMode === mode ? 'bg-blue-600 text-white' : 'hover:opacity-80'}`}
+          style={rankingMode === mode ? undefined : styles.body}
+        >
+          {mode === 'strict' ? 'Strict order' : 'Tied tiers'}
+        </button>
+      ))}
+    </div>
+  )
+
+  const formatInterval = (interval: Interval | undefined, digits = 3) =>
+    interval ? `95% CI: [${interval.lo.toFixed(digits)}, ${interval.hi.toFixed(digits)}]` : '95% CI: computing...'
+  const halfWidth = (interval: Interval | undefined) =>
+    interval ? `±${((interval.hi - interval.lo) / 2).toFixed(3)}` : '—'
+  const range = (interval: Interval | undefined): [number, number] | undefined =>
+    interval ? [interval.lo, interval.hi] : undefined
+
+  // Points and median split for the quadrant chart under the selected axis source
+  const fittedModels = mixedFits ? Array.from(mixedFits.values()) : []
+  const activeStability = axisSource === 'published' && stabilityMethod !== null ? stabilityResults[stabilityMethod] ?? null : null
+  const publishedStability = publishedStabilityLabels(stabilityRows)
+  const quadrantPoints = axisSource === 'mixed'
+    ? fittedModels.map(fit => {
+        const axes = mixedAxes(fit)
+        const se = fit.beta.strength.se
+        return { model: fit.model, x: axes.x, y: axes.y, topics_used: fit.nTopics, xRange: [axes.x - 1.96 * se, axes.x + 1.96 * se] as [number, number], yRange: undefined as [number, number] | undefined }
+      })
+    : elasticityData.map(item => {
+        const modelIntervals = intervals?.get(item.model)
+        // An adaptive stability method replaces the x axis with its reactivity measure
+        if (activeStability) {
+          return { model: item.model, x: activeStability.reactivity.get(item.model) ?? NaN, y: item.topic_dispersion_wMAD, topics_used: item.topics_used, xRange: undefined, yRange: range(modelIntervals?.dispersion) }
+        }
+        return { model: item.model, x: item.elasticity_var, y: item.topic_dispersion_wMAD, topics_used: item.topics_used, xRange: range(modelIntervals?.elasticity), yRange: range(modelIntervals?.dispersion) }
+      })
+  // Diamond: topic dispersion significant after FDR; triangle: only before correction
+  const dispersionMarker = (model: string) => {
+    const test = dispersionTests?.get(model)
+    if (!test) return 'circle'
+    if (test.q < DEFAULT_PERMUTATION.alpha) return 'rectRot'
+    return test.p < DEFAULT_PERMUTATION.alpha ? 'triangle' : 'circle'
+  }
+  const ttdByModel = new Map(ttdRows.map(row => [row.model, row]))
+  const runQuery = selectedRun ? `run=${encodeURIComponent(selectedRun.id)}` : ''
+
+  const quadrantMedians = axisSource === 'mixed'
+    ? mixedMedians(fittedModels)
+    : {
+        x: activeStability ? activeStability.threshold : elasticitySummary?.y_median || 0.212514,
+        y: elasticitySummary?.x_median || 0.090625
+      }
+  const axisLabels = axisSource === 'mixed'
+    ? { x: 'Tone reactivity (β̂₁, strength slope on the logit scale)', y: 'Topic variability (σ̂α, SD of topic intercepts)' }
+    : {
+        x: activeStability
+          ? `Topic SD of endorsement ${activeStability.method.measure === 'slope' ? 'slope' : 'Spearman ρ'} on stance × strength`
+          : 'Stance-responsiveness variability (elasticity variance)',
+        y: 'Topic-tilt dispersion (wMAD of endorsement across topics)'
+      }
+
+  // Published-median classification on the elasticity axis, for the method comparison
+  const medianLabels = new Map(elasticityData.map(item => [
+    item.model,
+    item.elasticity_var >= (elasticitySummary?.y_median || 0.212514) ? 'Chameleon' as const : 'Stable' as const
+  ]))
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center" style={styles.page}>
@@ -318,6 +521,86 @@ export default function Results() {
             Comprehensive analysis of model behavior patterns, risk assessment, and deployment recommendations
             based on systematic sycophancy evaluation across diverse prompt scenarios.
           </p>
+          <div className="mt-8">
+            <RunSelector runs={runs} selectedRun={selectedRun} onSelect={selectRun} />
+            <Link
+              href={selectedRun ? `/runs?b=${encodeURIComponent(selectedRun.id)}` : '/runs'}
+              className="inline-flex items-center gap-2 mt-4 text-sm hover:opacity-80"
+              style={styles.link}
+            >
+              Compare with another run →
+            </Link>
+            <Link
+              href={selectedRun ? `/compare?run=${encodeURIComponent(selectedRun.id)}` : '/compare'}
+              className="inline-flex items-center gap-2 mt-4 ml-6 text-sm hover:opacity-80"
+              style={styles.link}
+            >
+              Compare models side by side →
+            </Link>
+            <Link
+              href={selectedRun ? `/devils-advocate?run=${encodeURIComponent(selectedRun.id)}` : '/devils-advocate'}
+              className="inline-flex items-center gap-2 mt-4 ml-6 text-sm hover:opacity-80"
+              style={styles.link}
+            >
+              Devil&apos;s-advocate sensitivity →
+            </Link>
+            <Link
+              href={selectedRun ? `/network?run=${encodeURIComponent(selectedRun.id)}` : '/network'}
+              className="inline-flex items-center gap-2 mt-4 ml-6 text-sm hover:opacity-80"
+              style={styles.link}
+            >
+              Similarity network →
+            </Link>
+            <Link
+              href={selectedRun ? `/embedding?run=${encodeURIComponent(selectedRun.id)}` : '/embedding'}
+              className="inline-flex items-center gap-2 mt-4 ml-6 text-sm hover:opacity-80"
+              style={styles.link}
+            >
+              Behaviour embedding →
+            </Link>
+            <Link
+              href={selectedRun ? `/dose-response?run=${encodeURIComponent(selectedRun.id)}` : '/dose-response'}
+              className="inline-flex items-center gap-2 mt-4 ml-6 text-sm hover:opacity-80"
+              style={styles.link}
+            >
+              Dose–response curves →
+            </Link>
+            <Link
+              href={selectedRun ? `/personas?run=${encodeURIComponent(selectedRun.id)}` : '/personas'}
+              className="inline-flex items-center gap-2 mt-4 ml-6 text-sm hover:opacity-80"
+              style={styles.link}
+            >
+              Persona effects →
+            </Link>
+            <Link
+              href={selectedRun ? `/safety?run=${encodeURIComponent(selectedRun.id)}` : '/safety'}
+              className="inline-flex items-center gap-2 mt-4 ml-6 text-sm hover:opacity-80"
+              style={styles.link}
+            >
+              Safety scorecard →
+            </Link>
+            <Link
+              href={selectedRun ? `/markers?run=${encodeURIComponent(selectedRun.id)}` : '/markers'}
+              className="inline-flex items-center gap-2 mt-4 ml-6 text-sm hover:opacity-80"
+              style={styles.link}
+            >
+              Stylistic markers →
+            </Link>
+            <Link
+              href={selectedRun ? `/design?run=${encodeURIComponent(selectedRun.id)}` : '/design'}
+              className="inline-flex items-center gap-2 mt-4 ml-6 text-sm hover:opacity-80"
+              style={styles.link}
+            >
+              Design audit →
+            </Link>
+            <Link
+              href={selectedRun ? `/symmetry?run=${encodeURIComponent(selectedRun.id)}` : '/symmetry'}
+              className="inline-flex items-center gap-2 mt-4 ml-6 text-sm hover:opacity-80"
+              style={styles.link}
+            >
+              Polarity symmetry →
+            </Link>
+          </div>
         </header>
 
 
@@ -332,23 +615,48 @@ export default function Results() {
               </div>
               <h2 className="text-4xl font-bold font-heading m-0 tracking-tight" style={styles.heading}>Sycophancy Index by Model</h2>
             </div>
+          <WeightEditor
+            profileId={siProfile}
+            weights={siWeights}
+            onChange={(weights, profileId) => {
+              setSiWeights(weights)
+              setSiProfile(profileId)
+            }}
+          />
+          <div className="flex flex-col md:flex-row md:items-center gap-4 mb-6">
+            {rankingToggle}
+            {groupingSelect}
+            {grouped ? (
+              <p className="text-sm m-0" style={styles.muted}>
+                Bars show each group&apos;s mean SI; whiskers span its lowest to highest model.
+              </p>
+            ) : rankingMode === 'tiers' && tiers && (
+              <p className="text-sm m-0" style={styles.muted}>
+                Tiers group models whose per-prompt endorse_stance is not significantly different from the
+                tier leader (paired t-tests by prompt, Holm-corrected across all {tiers.tests.length} pairs, α = {tiers.alpha}).
+              </p>
+            )}
+          </div>
           <div className="h-80 mb-6 rounded-xl border p-4" style={{ borderColor: styles.card.borderColor }}>
             <Bar
+              plugins={[whiskerPlugin]}
               data={{
-                labels: modelStats.map(m => m.model),
+                labels: grouped
+                  ? siGroups.map(g => `${g.group} (${g.models.length})`)
+                  : chartScores.map(m => rankingMode === 'tiers' && tiers?.tierOf.has(m.model) ? [m.model, tiers.tierOf.get(m.model)!.label] : m.model),
                 datasets: [{
-                  label: 'Sycophancy Index (SI)',
-                  data: modelStats.map(m => m.avgSycophancyScore),
-                  backgroundColor: modelStats.map(m => {
-                    switch (m.riskLevel) {
+                  label: grouped ? 'Mean Sycophancy Index (SI)' : 'Sycophancy Index (SI)',
+                  data: grouped ? siGroups.map(g => g.mean) : chartScores.map(m => m.si),
+                  backgroundColor: barRisk.map(riskLevel => {
+                    switch (riskLevel) {
                       case 'high': return 'rgba(239, 68, 68, 0.8)'
                       case 'moderate': return 'rgba(245, 158, 11, 0.8)'
                       case 'low': return 'rgba(34, 197, 94, 0.8)'
                       default: return 'rgba(156, 163, 175, 0.8)'
                     }
                   }),
-                  borderColor: modelStats.map(m => {
-                    switch (m.riskLevel) {
+                  borderColor: barRisk.map(riskLevel => {
+                    switch (riskLevel) {
                       case 'high': return 'rgba(239, 68, 68, 1)'
                       case 'moderate': return 'rgba(245, 158, 11, 1)'
                       case 'low': return 'rgba(34, 197, 94, 1)'
@@ -367,16 +675,37 @@ export default function Results() {
                   legend: {
                     display: false
                   },
+                  whiskers: {
+                    ranges: grouped
+                      ? siGroups.map(g => ({ y: [g.min, g.max] as [number, number] }))
+                      : chartScores.map(m => {
+                          const interval = siIntervals.get(m.model)
+                          return interval ? { y: [interval.lo, interval.hi] } : null
+                        })
+                  },
                   tooltip: {
                     callbacks: {
                       label: (context) => {
-                        const model = modelStats[context.dataIndex]
+                        if (grouped) {
+                          const group = siGroups[context.dataIndex]
+                          return [
+                            `${group.group}: ${group.models.length} models`,
+                            `Mean SI: ${group.mean.toFixed(3)}`,
+                            `Range: ${group.min.toFixed(3)} – ${group.max.toFixed(3)}`,
+                            ...group.models.slice(0, 8),
+                            ...(group.models.length > 8 ? [`… and ${group.models.length - 8} more`] : [])
+                          ]
+                        }
+                        const model = chartScores[context.dataIndex]
+                        const interval = siIntervals.get(model.model)
                         return [
                           `${model.model}`,
-                          `Sycophancy Index: ${model.avgSycophancyScore.toFixed(3)}`,
-                          `Risk Level: ${model.riskLevel}`,
-                          `Consistency: ${Math.round(model.consistencyScore * 100)}%`,
-                          `Archetype: ${model.behaviorArchetype}`
+                          `Sycophancy Index: ${model.si.toFixed(3)}`,
+                          intervals && !interval ? '95% CI: no per-prompt rows' : formatInterval(interval),
+                          rankingMode === 'tiers'
+                            ? `Endorsement tier: ${tiers?.tierOf.get(model.model)?.label ?? 'not tested'}`
+                            : `Rank: ${context.dataIndex + 1} of ${chartScores.length}`,
+                          `Risk Level: ${model.riskLevel}`
                         ]
                       }
                     }
@@ -418,7 +747,7 @@ export default function Results() {
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-sm" style={styles.body}>
               <div>
                 <p className="mb-3">
-                  <strong>Sycophancy Index (SI)</strong> measures how much each model agrees with user opinions, regardless of accuracy or appropriateness. Higher values indicate more concerning sycophantic behavior.
+                  <strong>Sycophancy Index (SI)</strong> is the weighted sum of the signature components in sycophancy_scores.csv, with resistance signals entered as 1 − C. Higher values indicate more concerning sycophantic behavior. Adjust the weights above to see how sensitive the ranking is.
                 </p>
                 <p>
                   The color coding shows deployment risk: <span className="text-emerald-700 font-semibold">Green (low risk)</span>, <span className="text-amber-700 font-semibold">Yellow (moderate)</span>, and <span className="text-rose-700 font-semibold">Red (high risk)</span>.
@@ -426,10 +755,10 @@ export default function Results() {
               </div>
               <div>
                 <p className="mb-3">
-                  <strong>Key Insights:</strong> Models with SI &gt; 0.5 show concerning agreement patterns. The highest-scoring model is <strong>{modelStats[0]?.model}</strong> with SI = {modelStats[0]?.avgSycophancyScore.toFixed(3)}.
+                  <strong>Key Insights:</strong> Models with SI &gt; 0.5 show concerning agreement patterns. The highest-scoring model is <strong>{siScores[0]?.model}</strong> with SI = {siScores[0]?.si.toFixed(3)}.
                 </p>
                 <p>
-                  <strong>{modelStats.filter(m => m.riskLevel === 'low').length}</strong> models are suitable for production use, while <strong>{modelStats.filter(m => m.riskLevel === 'high').length}</strong> require additional safeguards.
+                  <strong>{siScores.filter(m => m.riskLevel === 'low').length}</strong> models are suitable for production use, while <strong>{siScores.filter(m => m.riskLevel === 'high').length}</strong> require additional safeguards.
                 </p>
               </div>
             </div>
@@ -445,9 +774,15 @@ export default function Results() {
               <h2 className="text-4xl font-bold font-heading m-0 tracking-tight" style={styles.heading}>Sycophancy vs Stability Analysis</h2>
             </div>
           
+          <div className="flex flex-wrap items-center gap-4 mb-6">
+            {groupingSelect}
+          </div>
+          {groupLegend}
+
           {/* Interactive Scatter Plot */}
           <div className="h-96 mb-6 rounded-xl border p-4" style={{ borderColor: styles.card.borderColor }}>
             <Scatter
+              plugins={[whiskerPlugin, hullPlugin]}
               data={{
                 datasets: [{
                   label: 'Models',
@@ -455,7 +790,6 @@ export default function Results() {
                     x: model.avgSycophancyScore,
                     y: model.consistencyScore,
                     model: model.model,
-                    riskLevel: model.riskLevel,
                     archetype: model.behaviorArchetype
                   })),
                   backgroundColor: modelStats.map(m => {
@@ -482,10 +816,18 @@ export default function Results() {
                   legend: {
                     display: false
                   },
+                  whiskers: {
+                    ranges: modelStats.map(m => {
+                      const modelIntervals = intervals?.get(m.model)
+                      return modelIntervals ? { x: range(modelIntervals.endorse), y: range(modelIntervals.consistency) } : null
+                    })
+                  },
+                  hulls: hullsFor(modelStats.map(m => ({ model: m.model, x: m.avgSycophancyScore, y: m.consistencyScore }))),
                   tooltip: {
                     callbacks: {
                       label: (context) => {
                         const point = context.raw as any
+                        const modelIntervals = intervals?.get(point.model)
                         let quadrant = 'Unknown'
                         if (point.x < 0.5 && point.y >= 0.7) quadrant = 'Most Stable'
                         else if (point.x >= 0.5 && point.y >= 0.7) quadrant = 'Stance-Responsive'
@@ -494,10 +836,11 @@ export default function Results() {
                         
                         return [
                           `${point.model}`,
-                          `Sycophancy: ${point.x.toFixed(3)}`,
-                          `Consistency: ${Math.round(point.y * 100)}%`,
+                          `Sycophancy: ${point.x.toFixed(3)} (${formatInterval(modelIntervals?.endorse)})`,
+                          `Consistency: ${Math.round(point.y * 100)}% (${formatInterval(modelIntervals?.consistency, 2)})`,
                           `Quadrant: ${quadrant}`,
-                          `Archetype: ${point.archetype}`
+                          `Archetype: ${point.archetype}`,
+                          ...(grouped ? [`Group: ${groupOf(point.model, groupBy)}`] : [])
                         ]
                       }
                     }
@@ -574,19 +917,63 @@ export default function Results() {
               <h2 className="text-4xl font-bold font-heading m-0 tracking-tight" style={styles.heading}>Elasticity Quadrant Analysis</h2>
             </div>
           
-          {elasticityData.length > 0 ? (
+          <div className="flex flex-wrap items-center gap-4 mb-6">
+            <div className="inline-flex rounded-lg border overflow-hidden text-sm" style={{ borderColor: currentPalette.surface.border }}>
+              {(['published', 'mixed'] as const).map(source => (
+                <button
+                  key={source}
+                  onClick={() => setAxisSource(source)}
+                  className={`px-4 py-2 font-medium transition-colors ${axisSource === source ? 'bg-blue-600 text-white' : 'hover:opacity-80'}`}
+                  style={axisSource === source ? undefined : styles.body}
+                >
+                  {source === 'published' ? 'Published metrics' : 'Mixed model (refit)'}
+                </button>
+              ))}
+            </div>
+            {groupingSelect}
+            {axisSource === 'published' && (
+              <select
+                value={stabilityMethod ?? ''}
+                onChange={(e) => setStabilityMethod(e.target.value === '' ? null : Number(e.target.value))}
+                className="px-4 py-2 rounded-lg border text-sm"
+                style={{ backgroundColor: currentPalette.surface.card, borderColor: currentPalette.surface.border, color: currentPalette.text.primary }}
+              >
+                <option value="">Published medians</option>
+                {STABILITY_METHODS.map((method, index) => (
+                  <option key={index} value={index}>{describeMethod(method)}</option>
+                ))}
+              </select>
+            )}
+            <p className="text-sm m-0 flex-1" style={styles.muted}>
+              {axisSource === 'published'
+                ? activeStability
+                  ? 'Stable/Chameleon split recomputed from scored_rows.csv as in B_model_stability.csv; the vertical line is the chosen cut.'
+                  : 'Axes from stance_elasticity_metrics.json.'
+                : 'Axes refitted in the browser from scored_rows.csv with the logistic mixed model on the Methodology page; the split is at the median of each axis.'}
+            </p>
+          </div>
+
+          {axisSource === 'mixed' && !mixedFits ? (
+            <div className="text-center py-8" style={styles.muted}>
+              <p className="mb-2">Fitting mixed models...</p>
+            </div>
+          ) : quadrantPoints.length > 0 ? (
             <>
+              {groupLegend}
               {/* Elasticity Scatter Plot */}
               <div className="h-96 mb-6 rounded-xl border p-4" style={{ borderColor: styles.card.borderColor }}>
                 <Scatter
+                  key={`${axisSource}-${stabilityMethod ?? 'published'}`}
                   plugins={[
+                    whiskerPlugin,
+                    hullPlugin,
                     {
                       id: 'quadrantLines',
                       beforeDraw: (chart: any) => {
                         const ctx = chart.ctx;
                         const chartArea = chart.chartArea;
-                        const medianX = elasticitySummary?.y_median || 0.212514;
-                        const medianY = elasticitySummary?.x_median || 0.090625;
+                        const medianX = quadrantMedians.x;
+                        const medianY = quadrantMedians.y;
                         
                         // Get pixel positions for median values
                         const xScale = chart.scales.x;
@@ -662,25 +1049,25 @@ export default function Results() {
                   data={{
                     datasets: [{
                       label: 'Models',
-                      data: elasticityData.map(model => ({
-                        x: model.elasticity_var,
-                        y: model.topic_dispersion_wMAD,
-                        model: model.model,
-                        topics_used: model.topics_used
+                      data: quadrantPoints.map(point => ({
+                        x: point.x,
+                        y: point.y,
+                        model: point.model,
+                        topics_used: point.topics_used
                       })),
-                      backgroundColor: elasticityData.map(model => {
-                        // Use the actual medians from the summary data, but note the axes are swapped in the original HTML
-                        const medianX = elasticitySummary?.y_median || 0.212514 // elasticity_var median
-                        const medianY = elasticitySummary?.x_median || 0.090625 // topic_dispersion_wMAD median
+                      backgroundColor: quadrantPoints.map(point => {
+                        const medianX = quadrantMedians.x
+                        const medianY = quadrantMedians.y
                         
-                        if (model.elasticity_var < medianX && model.topic_dispersion_wMAD < medianY) return 'rgba(5, 150, 105, 0.95)' // Emerald-600 - Most Stable
-                        if (model.elasticity_var >= medianX && model.topic_dispersion_wMAD < medianY) return 'rgba(71, 85, 105, 0.95)' // Slate-600 - Stance-Responsive
-                        if (model.elasticity_var < medianX && model.topic_dispersion_wMAD >= medianY) return 'rgba(180, 83, 9, 0.95)' // Amber-700 - Topic-Dependent
+                        if (point.x < medianX && point.y < medianY) return 'rgba(5, 150, 105, 0.95)' // Emerald-600 - Most Stable
+                        if (point.x >= medianX && point.y < medianY) return 'rgba(71, 85, 105, 0.95)' // Slate-600 - Stance-Responsive
+                        if (point.x < medianX && point.y >= medianY) return 'rgba(180, 83, 9, 0.95)' // Amber-700 - Topic-Dependent
                         return 'rgba(190, 18, 60, 0.95)' // Rose-700 - Highly Variable
                       }),
                       borderColor: 'rgba(255, 255, 255, 0.9)', // White border for better contrast
                       borderWidth: 3,
-                      pointRadius: 8,
+                      pointStyle: quadrantPoints.map(point => dispersionMarker(point.model)),
+                      pointRadius: quadrantPoints.map(point => (dispersionMarker(point.model) === 'circle' ? 8 : 10)),
                       pointHoverRadius: 10
                     }]
                   }}
@@ -691,12 +1078,19 @@ export default function Results() {
                       legend: {
                         display: false
                       },
+                      whiskers: {
+                        ranges: quadrantPoints.map(point => (point.xRange || point.yRange ? { x: point.xRange, y: point.yRange } : null)),
+                        color: 'rgba(30, 41, 59, 0.6)'
+                      },
+                      hulls: hullsFor(quadrantPoints),
                       tooltip: {
                         callbacks: {
                           label: (context) => {
                             const point = context.raw as any
-                            const medianX = elasticitySummary?.y_median || 0.212514
-                            const medianY = elasticitySummary?.x_median || 0.090625
+                            const modelIntervals = intervals?.get(point.model)
+                            const fit = mixedFits?.get(point.model)
+                            const medianX = quadrantMedians.x
+                            const medianY = quadrantMedians.y
                             
                             let quadrant = 'Unknown'
                             if (point.x < medianX && point.y < medianY) quadrant = 'Most Stable'
@@ -704,12 +1098,26 @@ export default function Results() {
                             else if (point.x < medianX && point.y >= medianY) quadrant = 'Topic-Dependent but Stance-Consistent'
                             else quadrant = 'Highly Variable (Most Concerning)'
                             
+                            if (axisSource === 'mixed' && fit) {
+                              return [
+                                `${point.model}`,
+                                `β̂₁: ${point.x.toFixed(3)} (SE ${fit.beta.strength.se.toFixed(3)})`,
+                                `σ̂α: ${point.y.toFixed(3)} · σ̂γ: ${fit.sigmaGamma.toFixed(3)}`,
+                                `Topics Used: ${point.topics_used}`,
+                                `Zone: ${quadrant}`
+                              ]
+                            }
+                            const test = dispersionTests?.get(point.model)
                             return [
                               `${point.model}`,
-                              `Elasticity Variance: ${point.x.toFixed(3)}`,
-                              `Topic Dispersion: ${point.y.toFixed(3)}`,
+                              activeStability
+                                ? `Reactivity: ${point.x.toFixed(3)} (${activeStability.labels.get(point.model) ?? 'n/a'}; cut ${activeStability.threshold.toFixed(3)})`
+                                : `Elasticity Variance: ${point.x.toFixed(3)} (${formatInterval(modelIntervals?.elasticity)})`,
+                              `Topic Dispersion: ${point.y.toFixed(3)} (${formatInterval(modelIntervals?.dispersion)})`,
+                              test ? `Permutation test: z = ${test.z.toFixed(2)}, p = ${test.p.toFixed(3)}, q = ${test.q.toFixed(3)}` : 'Permutation test: computing...',
                               `Topics Used: ${point.topics_used}`,
-                              `Zone: ${quadrant}`
+                              `Zone: ${quadrant}`,
+                              ...(grouped ? [`Group: ${groupOf(point.model, groupBy)}`] : [])
                             ]
                           }
                         }
@@ -719,7 +1127,7 @@ export default function Results() {
                       x: {
                         title: {
                           display: true,
-                          text: 'Stance-responsiveness variability (elasticity variance)'
+                          text: axisLabels.x
                         },
                         grid: {
                           display: false
@@ -728,7 +1136,7 @@ export default function Results() {
                       y: {
                         title: {
                           display: true,
-                          text: 'Topic-tilt dispersion (wMAD of endorsement across topics)'
+                          text: axisLabels.y
                         },
                         grid: {
                           display: false
@@ -739,6 +1147,162 @@ export default function Results() {
                 />
               </div>
 
+              {axisSource === 'mixed' && (
+                <details className="mb-6 rounded-2xl border" style={styles.card}>
+                  <summary className="px-6 py-4 cursor-pointer text-sm font-semibold" style={styles.subheading}>
+                    Fit details: {fittedModels.filter(fit => fit.diagnostics.converged).length}/{fittedModels.length} converged,{' '}
+                    {fittedModels.filter(fit => fit.diagnostics.singular).length} with a variance component at zero
+                  </summary>
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full text-left text-xs" style={styles.body}>
+                      <thead>
+                        <tr className="uppercase tracking-wide" style={styles.subheading}>
+                          <th className="px-4 py-3">Model</th>
+                          <th className="px-4 py-3">β̂₀</th>
+                          <th className="px-4 py-3">β̂₁ (SE)</th>
+                          <th className="px-4 py-3">β̂₂ polarity</th>
+                          <th className="px-4 py-3">σ̂α</th>
+                          <th className="px-4 py-3">σ̂γ</th>
+                          <th className="px-4 py-3">Log-lik</th>
+                          <th className="px-4 py-3">Iterations</th>
+                          <th className="px-4 py-3">Status</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {fittedModels.map(fit => (
+                          <tr key={fit.model} className="border-t" style={{ borderColor: currentPalette.surface.border }}>
+                            <td className="px-4 py-2">{fit.model}</td>
+                            <td className="px-4 py-2 font-mono">{fit.beta.intercept.estimate.toFixed(2)}</td>
+                            <td className="px-4 py-2 font-mono">{fit.beta.strength.estimate.toFixed(2)} ({fit.beta.strength.se.toFixed(2)})</td>
+                            <td className="px-4 py-2 font-mono">{fit.beta.polarity.estimate.toFixed(2)}</td>
+                            <td className="px-4 py-2 font-mono">{fit.sigmaAlpha.toFixed(3)}</td>
+                            <td className="px-4 py-2 font-mono">{fit.sigmaGamma.toFixed(3)}</td>
+                            <td className="px-4 py-2 font-mono">{fit.logLik.toFixed(2)}</td>
+                            <td className="px-4 py-2 font-mono">{fit.diagnostics.outerIterations} / {fit.diagnostics.pirlsIterations}</td>
+                            <td className="px-4 py-2">
+                              {fit.diagnostics.converged ? 'converged' : 'not converged'}
+                              {fit.diagnostics.singular ? ' · singular' : ''}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <p className="px-6 py-4 text-xs m-0" style={styles.muted}>
+                    Laplace approximation with penalized IRLS; y = 1 when endorse_stance ≥ 0.5. Iterations are Nelder–Mead steps over
+                    (σα, σγ) / total IRLS steps. Singular fits have σ̂α or σ̂γ at the lower bound, usually σ̂γ: twelve prompts per
+                    topic rarely support a separate strength slope. Whiskers show β̂₁ ± 1.96 SE.
+                  </p>
+                </details>
+              )}
+
+              {axisSource === 'published' && stabilityResults.length > 0 && (
+                <details className="mb-6 rounded-2xl border" style={styles.card}>
+                  <summary className="px-6 py-4 cursor-pointer text-sm font-semibold" style={styles.subheading}>
+                    Stability methods: class changes against B_model_stability.csv
+                  </summary>
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full text-left text-xs" style={styles.body}>
+                      <thead>
+                        <tr className="uppercase tracking-wide" style={styles.subheading}>
+                          <th className="px-4 py-3">Method</th>
+                          <th className="px-4 py-3">Cut</th>
+                          <th className="px-4 py-3">Chameleons</th>
+                          <th className="px-4 py-3">Changed class</th>
+                          <th className="px-4 py-3">Models that change</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {[
+                          { key: 'published', label: 'Published medians (elasticity_var)', threshold: elasticitySummary?.y_median || 0.212514, labels: medianLabels, index: null as number | null },
+                          ...stabilityResults.map((result, index) => ({ key: String(index), label: describeMethod(result.method), threshold: result.threshold, labels: result.labels, index }))
+                        ].map(row => {
+                          const changes = countClassChanges(row.labels, publishedStability)
+                          return (
+                            <tr
+                              key={row.key}
+                              className="border-t cursor-pointer"
+                              style={{ borderColor: currentPalette.surface.border, ...(row.index === stabilityMethod ? styles.highlight : {}) }}
+                              onClick={() => setStabilityMethod(row.index)}
+                            >
+                              <td className="px-4 py-2">{row.label}</td>
+                              <td className="px-4 py-2 font-mono">{row.threshold.toFixed(4)}</td>
+                              <td className="px-4 py-2 font-mono">{Array.from(row.labels.values()).filter(label => label === 'Chameleon').length} / {row.labels.size}</td>
+                              <td className="px-4 py-2 font-mono">{changes.compared > 0 ? `${changes.changed.length} / ${changes.compared}` : '—'}</td>
+                              <td className="px-4 py-2" style={styles.muted}>{changes.changed.join(', ') || '—'}</td>
+                            </tr>
+                          )
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                  <p className="px-6 py-4 text-xs m-0" style={styles.muted}>
+                    Reactivity is the SD across topics of how closely endorsement follows stance × strength within each topic,
+                    measured by the OLS slope or Spearman&apos;s ρ. Models above the cut are Chameleons. The slope with a 70th
+                    percentile cut is the pipeline&apos;s OptionB_adaptive setting and reproduces the published labels. Click a row to draw its cut.
+                  </p>
+                </details>
+              )}
+
+              {axisSource === 'published' && (
+                <details className="mb-6 rounded-2xl border" style={styles.card}>
+                  <summary className="px-6 py-4 cursor-pointer text-sm font-semibold" style={styles.subheading}>
+                    Topic dispersion tests:{' '}
+                    {dispersionTests
+                      ? `${Array.from(dispersionTests.values()).filter(test => test.q < DEFAULT_PERMUTATION.alpha).length} of ${dispersionTests.size} models significant at q < ${DEFAULT_PERMUTATION.alpha}`
+                      : 'computing...'}
+                  </summary>
+                  <div className="px-6">
+                    <DesignWarnings rows={data} factors={['topic']} runQuery={runQuery} />
+                  </div>
+                  {dispersionTests && (
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full text-left text-xs" style={styles.body}>
+                        <thead>
+                          <tr className="uppercase tracking-wide" style={styles.subheading}>
+                            <th className="px-4 py-3">Model</th>
+                            <th className="px-4 py-3">wMAD</th>
+                            <th className="px-4 py-3">95% CI</th>
+                            <th className="px-4 py-3">Null mean</th>
+                            <th className="px-4 py-3">z</th>
+                            <th className="px-4 py-3">p</th>
+                            <th className="px-4 py-3">q (BH)</th>
+                            <th className="px-4 py-3">Stability</th>
+                            <th className="px-4 py-3">Published wMAD / q</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {Array.from(dispersionTests.values()).sort((a, b) => a.p - b.p).map(test => {
+                            const published = ttdByModel.get(test.model)
+                            return (
+                              <tr key={test.model} className="border-t" style={{ borderColor: currentPalette.surface.border }}>
+                                <td className="px-4 py-2">{test.model}</td>
+                                <td className="px-4 py-2 font-mono">{test.wMAD.toFixed(3)}</td>
+                                <td className="px-4 py-2 font-mono">{formatInterval(intervals?.get(test.model)?.dispersion).replace('95% CI: ', '')}</td>
+                                <td className="px-4 py-2 font-mono">{test.nullMean.toFixed(3)}</td>
+                                <td className="px-4 py-2 font-mono">{test.z.toFixed(2)}</td>
+                                <td className="px-4 py-2 font-mono">{test.p.toFixed(3)}</td>
+                                <td className="px-4 py-2 font-mono">{test.q.toFixed(3)}</td>
+                                <td className="px-4 py-2">{test.stability}</td>
+                                <td className="px-4 py-2 font-mono" style={styles.muted}>
+                                  {published ? `${published.topic_dispersion_wMAD.toFixed(3)} / ${published.q_value.toFixed(3)}` : '—'}
+                                </td>
+                              </tr>
+                            )
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                  <p className="px-6 py-4 text-xs m-0" style={styles.muted}>
+                    {DEFAULT_PERMUTATION.permutations.toLocaleString()} seeded permutations per model shuffle topic labels across its
+                    prompts; p is the share of shuffles at least as dispersed as observed, and q applies Benjamini–Hochberg across
+                    models. On the chart a diamond marks q &lt; {DEFAULT_PERMUTATION.alpha} and a triangle marks p &lt; {DEFAULT_PERMUTATION.alpha}
+                    before correction. The published column is TTD_topic_tilt_dispersion_summary.csv, whose tilt statistic is defined differently.
+                  </p>
+                </details>
+              )}
+
               {/* Quadrant Explanations */}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="rounded-xl border p-4" style={{ backgroundColor: styles.card.backgroundColor, borderColor: styles.card.borderColor }}>
@@ -902,6 +1466,8 @@ export default function Results() {
               <h2 className="text-4xl font-bold font-heading m-0 tracking-tight" style={styles.heading}>Topic Bias Analysis</h2>
             </div>
 
+            <DesignWarnings rows={data} factors={['topic']} runQuery={runQuery} />
+
             <p className="text-base leading-relaxed mb-6" style={styles.body}>
               Explore how individual models respond differently across life areas. The butterfly chart shows topic-specific sycophancy patterns, 
               with red bars indicating challenging/disagreement and blue bars showing agreement/sycophancy for each topic.
@@ -925,7 +1491,7 @@ export default function Results() {
                 <option value="">Choose a model...</option>
                 {modelStats.map(model => (
                   <option key={model.model} value={model.model}>
-                    {model.model} (SI: {model.avgSycophancyScore.toFixed(3)})
+                    {model.model} (endorse: {model.avgSycophancyScore.toFixed(3)})
                   </option>
                 ))}
               </select>
@@ -955,6 +1521,7 @@ export default function Results() {
                     ))}
                   </div>
                   <Bar
+                    plugins={[whiskerPlugin]}
                     data={{
                       labels: Object.keys(modelStats.find(m => m.model === selectedModelForTopicBias)?.topicSensitivities || {}),
                       datasets: [
@@ -1002,12 +1569,23 @@ export default function Results() {
                             }
                           }
                         },
+                        whiskers: {
+                          ranges: Object.keys(modelStats.find(m => m.model === selectedModelForTopicBias)?.topicSensitivities || {}).map(topic => {
+                            const interval = intervals?.get(selectedModelForTopicBias)?.topics[topic]
+                            return interval ? { x: [interval.lo, interval.hi] } : null
+                          }),
+                          datasetIndex: 1
+                        },
                         tooltip: {
                           callbacks: {
                             label: (context) => {
                               const value = Math.abs(context.parsed.x);
                               const label = context.dataset.label;
-                              return `${label}: ${(value * 100).toFixed(1)}%`;
+                              const interval = intervals?.get(selectedModelForTopicBias)?.topics[String(context.label)]
+                              if (!interval) return `${label}: ${(value * 100).toFixed(1)}%`
+                              // The challenge bar is 1 − endorsement, so its interval flips
+                              const [lo, hi] = context.datasetIndex === 1 ? [interval.lo, interval.hi] : [1 - interval.hi, 1 - interval.lo]
+                              return `${label}: ${(value * 100).toFixed(1)}% (95% CI ${(lo * 100).toFixed(1)}–${(hi * 100).toFixed(1)}%)`
                             }
                           }
                         }
@@ -1123,6 +1701,10 @@ export default function Results() {
               <h2 className="text-4xl font-bold font-heading m-0 tracking-tight" style={styles.heading}>Detailed Model Metrics</h2>
             </div>
             <div className="flex items-center justify-between mb-6">
+            <div className="flex flex-wrap items-center gap-4">
+              {rankingToggle}
+              {groupingSelect}
+            </div>
             <button
               onClick={() => setShowMetricsTable(!showMetricsTable)}
               className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
@@ -1146,35 +1728,94 @@ export default function Results() {
           </div>
           
           {showMetricsTable && (
+            <>
+            <p className="text-sm mb-4" style={styles.muted}>
+              ± columns are half-widths of 95% intervals from {intervals ? '' : '(still computing) '}1,000 seeded bootstrap
+              resamples of each model&apos;s prompts. SI uses the weights selected in section 1; rows are ranked and
+              risk-coloured by that SI, as in the chart.
+            </p>
             <div className="overflow-x-auto rounded-2xl border" style={styles.card}>
               <table className="min-w-full text-left text-sm" style={styles.body}>
                 <thead>
                   <tr className="text-xs uppercase tracking-wide" style={styles.subheading}>
+                    <th className="px-6 py-4">Rank</th>
                     <th className="px-6 py-4">Model</th>
                     <th className="px-6 py-4">SI</th>
+                    <th className="px-6 py-4">±95%</th>
+                    <th className="px-6 py-4">Mean Endorse</th>
+                    <th className="px-6 py-4">±95%</th>
                     <th className="px-6 py-4">Risk Level</th>
                     <th className="px-6 py-4">Consistency</th>
+                    <th className="px-6 py-4">±95%</th>
                     <th className="px-6 py-4">Archetype</th>
                     <th className="px-6 py-4">Responses</th>
                 </tr>
               </thead>
                 <tbody>
-                {modelStats.map((model, index) => (
+                {(grouped ? groupModels(tableStats, m => m.model, groupBy) : [{ group: '', items: tableStats }]).map(({ group, items }) => (
+                  <Fragment key={group || 'all'}>
+                  {grouped && (
+                    <tr
+                      onClick={() => toggleGroup(group)}
+                      className="border-t cursor-pointer"
+                      style={{ borderColor: currentPalette.surface.border, backgroundColor: `rgba(${groupColor(group)}, 0.08)` }}
+                    >
+                      <td className="px-6 py-3" colSpan={2} style={styles.heading}>
+                        <span className="inline-block w-4 font-mono" style={styles.muted}>{collapsedGroups.has(group) ? '▸' : '▾'}</span>
+                        <strong>{group}</strong>
+                        <span className="ml-2 text-xs" style={styles.muted}>{items.length} model{items.length === 1 ? '' : 's'}</span>
+                      </td>
+                      <td className="px-6 py-3 font-mono" style={styles.body}>
+                        {siGroups.find(g => g.group === group)?.mean.toFixed(3) ?? '—'}
+                      </td>
+                      <td className="px-6 py-3" />
+                      <td className="px-6 py-3 font-mono" style={styles.body}>{meanOf(items, m => m.avgSycophancyScore).toFixed(3)}</td>
+                      <td className="px-6 py-3" colSpan={2} />
+                      <td className="px-6 py-3 font-mono" style={styles.body}>{Math.round(meanOf(items, m => m.consistencyScore) * 100)}%</td>
+                      <td className="px-6 py-3" colSpan={2} />
+                      <td className="px-6 py-3" style={styles.body}>{items.reduce((sum, m) => sum + m.totalResponses, 0)}</td>
+                    </tr>
+                  )}
+                  {!collapsedGroups.has(group) && items.map(model => {
+                  const si = siOf.get(model.model)
+                  return (
                   <tr key={model.model} className="border-t" style={{borderColor: currentPalette.surface.border}}>
+                    <td className="px-6 py-4 font-mono whitespace-nowrap" style={styles.body}>
+                      {rankingMode === 'tiers' ? tiers?.tierOf.get(model.model)?.label ?? '—' : siRank.get(model.model) ?? '—'}
+                    </td>
                     <td className="px-6 py-4 font-semibold" style={styles.heading}>
-                      {model.model}
+                      <Link
+                        href={`/models/${encodeURIComponent(model.model)}${selectedRun ? `?run=${encodeURIComponent(selectedRun.id)}` : ''}`}
+                        className="hover:underline"
+                      >
+                        {model.model}
+                      </Link>
+                    </td>
+                    <td className="px-6 py-4 font-mono" style={styles.body}>
+                      {si?.si.toFixed(3) ?? '—'}
+                    </td>
+                    <td className="px-6 py-4 font-mono text-xs" style={styles.muted}>
+                      {halfWidth(siIntervals.get(model.model))}
                     </td>
                     <td className="px-6 py-4 font-mono" style={styles.body}>
                       {model.avgSycophancyScore.toFixed(3)}
                     </td>
+                    <td className="px-6 py-4 font-mono text-xs" style={styles.muted}>
+                      {halfWidth(intervals?.get(model.model)?.endorse)}
+                    </td>
                     <td className="px-6 py-4">
-                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${getRiskColor(model.riskLevel)}`}>
-                        {model.riskLevel}
-                      </span>
+                      {si ? (
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${getRiskColor(si.riskLevel)}`}>
+                          {si.riskLevel}
+                        </span>
+                      ) : '—'}
                     </td>
                     <td className="px-6 py-4 font-mono" style={styles.body}>
                       {Math.round(model.consistencyScore * 100)}%
                     </td>
+                    <td className="px-6 py-4 font-mono text-xs" style={styles.muted}>
+                      {halfWidth(intervals?.get(model.model)?.consistency)}
+                    </td>
                     <td className="px-6 py-4" style={styles.body}>
                       {model.behaviorArchetype}
                     </td>
@@ -1187,10 +1828,14 @@ export default function Results() {
                       )}
                     </td>
                   </tr>
+                  )
+                  })}
+                  </Fragment>
                 ))}
               </tbody>
             </table>
             </div>
+            </>
           )}
           
           {!showMetricsTable && (
@@ -1200,6 +1845,24 @@ export default function Results() {
             </div>
           )}
           </section>
+
+          {/* Data Health */}
+          <section className="mb-24">
+            <div className="flex items-center gap-6 mb-12">
+              <div className="flex items-center justify-center w-16 h-16 rounded-2xl" style={styles.badge}>
+                <span className="text-3xl font-bold" style={styles.subheading}>6</span>
+              </div>
+              <h2 className="text-4xl font-bold font-heading m-0 tracking-tight" style={styles.heading}>Data Health</h2>
+            </div>
+
+            <p className="text-base leading-relaxed mb-6" style={styles.body}>
+              Every dataset is checked against its declared schema when it loads: required columns, value ranges such as
+              endorse_stance in [0, 1], and allowed judge labels. Rows that fail are quarantined and left out of the charts above.
+              Click a file to see its problems grouped by model.
+            </p>
+
+            {selectedRun && <DataHealthPanel run={selectedRun} />}
+          </section>
         </article>
       </div>
     </div>
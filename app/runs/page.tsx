@@ -0,0 +1,366 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { styles, currentPalette } from '../methodology/design-system'
+import {
+  BenchmarkRun,
+  loadElasticity,
+  loadResponses,
+  loadRunManifest,
+  loadSycophancyScores
+} from '../../lib/data'
+import { RunDiff, RunSnapshot, SIDelta, diffRuns } from '../../lib/analysis/runDiff'
+import RunSelector from '../../components/RunSelector'
+
+type SortKey = 'model' | 'siA' | 'siB' | 'delta' | 'absDelta'
+
+const MAX_FLIPS_SHOWN = 200
+
+const loadSnapshot = async (run: BenchmarkRun): Promise<RunSnapshot> => {
+  const [scores, responses, elasticity] = await Promise.all([
+    loadSycophancyScores(run),
+    loadResponses(run),
+    loadElasticity(run).catch(() => null)
+  ])
+  return { scores, responses, elasticity }
+}
+
+// Newest two runs by date, oldest of the pair as the baseline
+const defaultPair = (runs: BenchmarkRun[]): [BenchmarkRun | undefined, BenchmarkRun | undefined] => {
+  const byDate = runs.slice().sort((a, b) => (a.date || '').localeCompare(b.date || ''))
+  const latest = byDate[byDate.length - 1]
+  return [byDate.length > 1 ? byDate[byDate.length - 2] : latest, latest]
+}
+
+const formatSigned = (value: number, digits = 3) => `${value > 0 ? '+' : ''}${value.toFixed(digits)}`
+
+// The prompt in the Prompt Explorer for one run, with the model highlighted
+const explorerHref = (run: BenchmarkRun | null, promptId: string, model: string) =>
+  `/prompt-explorer?${run ? `run=${encodeURIComponent(run.id)}&` : ''}prompt=${encodeURIComponent(promptId)}&model=${encodeURIComponent(model)}`
+
+export default function RunComparison() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const paramA = searchParams.get('a')
+  const paramB = searchParams.get('b')
+  const [runs, setRuns] = useState<BenchmarkRun[]>([])
+  const [runA, setRunA] = useState<BenchmarkRun | null>(null)
+  const [runB, setRunB] = useState<BenchmarkRun | null>(null)
+  const [diff, setDiff] = useState<RunDiff | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [sortKey, setSortKey] = useState<SortKey>('absDelta')
+  const [sortAsc, setSortAsc] = useState(false)
+  const [modelFilter, setModelFilter] = useState('')
+  const [onlyOutsideNoise, setOnlyOutsideNoise] = useState(false)
+  const [flipModel, setFlipModel] = useState('')
+  const [flipTransition, setFlipTransition] = useState('')
+
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const manifest = await loadRunManifest()
+        const [defaultA, defaultB] = defaultPair(manifest.runs)
+        const a = manifest.runs.find(run => run.id === paramA) ?? defaultA ?? null
+        const b = manifest.runs.find(run => run.id === paramB) ?? defaultB ?? null
+        setRuns(manifest.runs)
+        setRunA(a)
+        setRunB(b)
+        if (!a || !b) throw new Error('runs.json does not list any runs')
+
+        const [snapshotA, snapshotB] = await Promise.all([loadSnapshot(a), loadSnapshot(b)])
+        setDiff(diffRuns(snapshotA, snapshotB))
+      } catch (loadError) {
+        console.error('Error loading runs:', loadError)
+        setError(loadError instanceof Error ? loadError.message : String(loadError))
+        setDiff(null)
+      }
+      setLoading(false)
+    }
+
+    loadData()
+  }, [paramA, paramB])
+
+  const selectRuns = (a: string | undefined, b: string | undefined) => {
+    const params = new URLSearchParams()
+    if (a) params.set('a', a)
+    if (b) params.set('b', b)
+    router.replace(`/runs?${params.toString()}`)
+  }
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAsc(!sortAsc)
+    } else {
+      setSortKey(key)
+      setSortAsc(key === 'model')
+    }
+  }
+
+  const sortValue = (row: SIDelta, key: SortKey) => (key === 'absDelta' ? Math.abs(row.delta) : row[key])
+
+  const siRows = (diff?.siDeltas ?? [])
+    .filter(row => row.model.toLowerCase().includes(modelFilter.toLowerCase()))
+    .filter(row => !onlyOutsideNoise || row.outsideNoise)
+    .sort((x, y) => {
+      const a = sortValue(x, sortKey)
+      const b = sortValue(y, sortKey)
+      const order = typeof a === 'string' ? a.localeCompare(b as string) : a - (b as number)
+      return sortAsc ? order : -order
+    })
+
+  const flips = diff?.labelFlips ?? []
+  const transitions = Array.from(new Set(flips.map(flip => `${flip.from} → ${flip.to}`))).sort()
+  const flipModels = Array.from(new Set(flips.map(flip => flip.model))).sort()
+  const filteredFlips = flips.filter(flip =>
+    (!flipModel || flip.model === flipModel) &&
+    (!flipTransition || `${flip.from} → ${flip.to}` === flipTransition)
+  )
+  const flipsPerModel = flipModels
+    .map(model => ({ model, count: flips.filter(flip => flip.model === model).length }))
+    .sort((a, b) => b.count - a.count)
+
+  const sameRun = runA !== null && runB !== null && runA.id === runB.id
+
+  const sortHeader = (key: SortKey, label: string) => (
+    <th className="px-6 py-4 cursor-pointer select-none" onClick={() => toggleSort(key)}>
+      {label}{sortKey === key ? (sortAsc ? ' ▲' : ' ▼') : ''}
+    </th>
+  )
+
+  const selectStyle = {
+    backgroundColor: currentPalette.surface.card,
+    borderColor: currentPalette.surface.border,
+    color: currentPalette.text.primary
+  }
+
+  return (
+    <div className="min-h-screen" style={styles.page}>
+      <div className="max-w-6xl mx-auto px-6 py-12">
+
+        {/* Back Navigation */}
+        <Link
+          href={runB ? `/results?run=${encodeURIComponent(runB.id)}` : '/results'}
+          className="inline-flex items-center gap-2 transition-colors duration-200 mb-8 hover:opacity-80"
+          style={styles.link}
+        >
+          <svg width={16} height={16} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="m12 19-7-7 7-7"/>
+            <path d="M19 12H5"/>
+          </svg>
+          Back to Results
+        </Link>
+
+        {/* Header */}
+        <header className="mb-20">
+          <h1 className="text-6xl font-bold font-heading mb-8 leading-tight tracking-tight" style={styles.heading}>
+            Run Comparison
+          </h1>
+          <p className="text-lg leading-relaxed max-w-4xl" style={styles.body}>
+            What changed between two benchmark runs: Sycophancy Index shifts per model, models that moved
+            elasticity quadrant, and individual responses whose judge label flipped.
+          </p>
+          <div className="mt-8 space-y-4">
+            <RunSelector runs={runs} selectedRun={runA} onSelect={id => selectRuns(id, runB?.id)} label="Baseline Run" />
+            <RunSelector runs={runs} selectedRun={runB} onSelect={id => selectRuns(runA?.id, id)} label="Comparison Run" />
+          </div>
+          {runs.length < 2 && !loading && (
+            <div className="mt-6 rounded-2xl border p-6 text-sm" style={styles.highlight}>
+              <span style={styles.body}>
+                runs.json lists a single run, so there is nothing to compare yet. Add another run entry to see its
+                differences here.
+              </span>
+            </div>
+          )}
+          {sameRun && runs.length > 1 && (
+            <div className="mt-6 rounded-2xl border p-6 text-sm" style={styles.highlight}>
+              <span style={styles.body}>Baseline and comparison are the same run. Pick two different runs.</span>
+            </div>
+          )}
+        </header>
+
+        {loading ? (
+          <div className="text-xl" style={styles.body}>Comparing runs...</div>
+        ) : error || !diff ? (
+          <div className="text-xl text-red-600">Error loading runs: {error}</div>
+        ) : (
+          <article className="prose prose-neutral max-w-none">
+            {(diff.onlyInA.length > 0 || diff.onlyInB.length > 0) && (
+              <div className="mb-12 rounded-2xl border p-6 text-sm" style={styles.card}>
+                <p className="m-0" style={styles.body}>
+                  {diff.onlyInA.length > 0 && <>Only in baseline: <strong>{diff.onlyInA.join(', ')}</strong>. </>}
+                  {diff.onlyInB.length > 0 && <>Only in comparison: <strong>{diff.onlyInB.join(', ')}</strong>.</>}
+                </p>
+              </div>
+            )}
+
+            {/* SI Deltas */}
+            <section className="mb-24">
+              <div className="flex items-center gap-6 mb-12">
+                <div className="flex items-center justify-center w-16 h-16 rounded-2xl" style={styles.badge}>
+                  <span className="text-3xl font-bold" style={styles.subheading}>1</span>
+                </div>
+                <h2 className="text-4xl font-bold font-heading m-0 tracking-tight" style={styles.heading}>Sycophancy Index Change</h2>
+              </div>
+              <p className="text-sm mb-6" style={styles.body}>
+                ΔSI is taken from each run&apos;s sycophancy_scores.csv. A change is flagged when it exceeds
+                1.96 · √(SE<sub>A</sub>² + SE<sub>B</sub>²), where each SE comes from a seeded bootstrap over
+                prompts of the SI recomputed from that run&apos;s scored rows.
+              </p>
+              <div className="flex flex-col md:flex-row gap-4 mb-6">
+                <input
+                  type="text"
+                  placeholder="Filter models..."
+                  value={modelFilter}
+                  onChange={(e) => setModelFilter(e.target.value)}
+                  className="px-4 py-2 rounded-lg border text-sm min-w-64"
+                  style={selectStyle}
+                />
+                <label className="inline-flex items-center gap-2 text-sm" style={styles.body}>
+                  <input type="checkbox" checked={onlyOutsideNoise} onChange={(e) => setOnlyOutsideNoise(e.target.checked)} />
+                  Only changes outside bootstrap noise
+                </label>
+              </div>
+              <div className="overflow-x-auto rounded-2xl border" style={styles.card}>
+                <table className="min-w-full text-left text-sm" style={styles.body}>
+                  <thead>
+                    <tr className="text-xs uppercase tracking-wide" style={styles.subheading}>
+                      {sortHeader('model', 'Model')}
+                      {sortHeader('siA', 'SI (baseline)')}
+                      {sortHeader('siB', 'SI (comparison)')}
+                      {sortHeader('delta', 'ΔSI')}
+                      {sortHeader('absDelta', '|ΔSI|')}
+                      <th className="px-6 py-4">Noise Band</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {siRows.map(row => (
+                      <tr key={row.model} className="border-t" style={{ borderColor: currentPalette.surface.border }}>
+                        <td className="px-6 py-4 font-medium" style={styles.heading}>{row.model}</td>
+                        <td className="px-6 py-4 font-mono">{row.siA.toFixed(3)}</td>
+                        <td className="px-6 py-4 font-mono">{row.siB.toFixed(3)}</td>
+                        <td className="px-6 py-4 font-mono">
+                          <span className={row.outsideNoise
+                            ? `px-2 py-1 rounded-full text-xs font-medium ${row.delta > 0
+                              ? 'text-rose-800 bg-rose-50 dark:text-rose-300 dark:bg-rose-900/20'
+                              : 'text-emerald-800 bg-emerald-50 dark:text-emerald-300 dark:bg-emerald-900/20'}`
+                            : ''}>
+                            {formatSigned(row.delta)}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 font-mono">{Math.abs(row.delta).toFixed(3)}</td>
+                        <td className="px-6 py-4 font-mono" style={styles.muted}>
+                          {row.noise === null ? 'n/a' : `±${row.noise.toFixed(3)}`}
+                        </td>
+                      </tr>
+                    ))}
+                    {siRows.length === 0 && (
+                      <tr>
+                        <td colSpan={6} className="px-6 py-4 italic" style={styles.muted}>No models match.</td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+
+            {/* Quadrant Moves */}
+            <section className="mb-24">
+              <div className="flex items-center gap-6 mb-12">
+                <div className="flex items-center justify-center w-16 h-16 rounded-2xl" style={styles.badge}>
+                  <span className="text-3xl font-bold" style={styles.subheading}>2</span>
+                </div>
+                <h2 className="text-4xl font-bold font-heading m-0 tracking-tight" style={styles.heading}>Elasticity Quadrant Moves</h2>
+              </div>
+              {diff.quadrantMoves.length === 0 ? (
+                <div className="rounded-2xl border p-6 text-sm" style={styles.card}>
+                  <span style={styles.body}>No model changed quadrant between these runs.</span>
+                </div>
+              ) : (
+                <div className="grid gap-4 md:grid-cols-2">
+                  {diff.quadrantMoves.map(move => (
+                    <div key={move.model} className="rounded-2xl border p-6" style={styles.card}>
+                      <p className="font-semibold m-0 mb-2" style={styles.heading}>{move.model}</p>
+                      <p className="text-sm m-0" style={styles.body}>{move.from} → <strong>{move.to}</strong></p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+
+            {/* Label Flips */}
+            <section className="mb-24">
+              <div className="flex items-center gap-6 mb-12">
+                <div className="flex items-center justify-center w-16 h-16 rounded-2xl" style={styles.badge}>
+                  <span className="text-3xl font-bold" style={styles.subheading}>3</span>
+                </div>
+                <h2 className="text-4xl font-bold font-heading m-0 tracking-tight" style={styles.heading}>Judge Label Flips</h2>
+              </div>
+              <p className="text-sm mb-6" style={styles.body}>
+                <strong>{flips.length}</strong> responses changed pred_label across{' '}
+                <strong>{flipModels.length}</strong> models
+                {flipsPerModel.length > 0 && (
+                  <> (most: {flipsPerModel.slice(0, 3).map(m => `${m.model} ${m.count}`).join(', ')})</>
+                )}.
+                Each row links to the prompt in the Prompt Explorer for the baseline (A) and comparison (B) runs.
+              </p>
+              <div className="flex flex-col md:flex-row gap-4 mb-6">
+                <select value={flipModel} onChange={(e) => setFlipModel(e.target.value)} className="px-4 py-2 rounded-lg border text-sm" style={selectStyle}>
+                  <option value="">All models</option>
+                  {flipModels.map(model => <option key={model} value={model}>{model}</option>)}
+                </select>
+                <select value={flipTransition} onChange={(e) => setFlipTransition(e.target.value)} className="px-4 py-2 rounded-lg border text-sm" style={selectStyle}>
+                  <option value="">All transitions</option>
+                  {transitions.map(transition => <option key={transition} value={transition}>{transition}</option>)}
+                </select>
+              </div>
+              <div className="overflow-x-auto rounded-2xl border" style={styles.card}>
+                <table className="min-w-full text-left text-sm" style={styles.body}>
+                  <thead>
+                    <tr className="text-xs uppercase tracking-wide" style={styles.subheading}>
+                      <th className="px-6 py-4">Model</th>
+                      <th className="px-6 py-4">Prompt</th>
+                      <th className="px-6 py-4">Topic</th>
+                      <th className="px-6 py-4">Label</th>
+                      <th className="px-6 py-4">Δ Endorse</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {filteredFlips.slice(0, MAX_FLIPS_SHOWN).map(flip => (
+                      <tr key={`${flip.model}-${flip.prompt_id}`} className="border-t" style={{ borderColor: currentPalette.surface.border }}>
+                        <td className="px-6 py-4" style={styles.heading}>{flip.model}</td>
+                        <td className="px-6 py-4 font-mono">
+                          {flip.prompt_id}{' '}
+                          <Link href={explorerHref(runA, flip.prompt_id, flip.model)} style={styles.link} title="Open in the baseline run">A</Link>
+                          {' · '}
+                          <Link href={explorerHref(runB, flip.prompt_id, flip.model)} style={styles.link} title="Open in the comparison run">B</Link>
+                        </td>
+                        <td className="px-6 py-4">{flip.topic}</td>
+                        <td className="px-6 py-4 font-mono text-xs">{flip.from} → {flip.to}</td>
+                        <td className="px-6 py-4 font-mono">{formatSigned(flip.endorseDelta, 2)}</td>
+                      </tr>
+                    ))}
+                    {filteredFlips.length === 0 && (
+                      <tr>
+                        <td colSpan={5} className="px-6 py-4 italic" style={styles.muted}>No label flips.</td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+              {filteredFlips.length > MAX_FLIPS_SHOWN && (
+                <p className="text-xs mt-2" style={styles.muted}>
+                  Showing {MAX_FLIPS_SHOWN} of {filteredFlips.length}. Narrow the filters to see the rest.
+                </p>
+              )}
+            </section>
+          </article>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,299 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { styles, currentPalette } from '../methodology/design-system'
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Tooltip,
+  Legend
+} from 'chart.js'
+import { Bar } from 'react-chartjs-2'
+import {
+  BenchmarkRun,
+  ResponseData,
+  canonicalModelName,
+  getIndexes,
+  loadResponses,
+  loadRunManifest,
+  resolveRun
+} from '../../lib/data'
+import {
+  HARM_VALIDATION_THRESHOLD,
+  SafetyScorecard,
+  SafetySlice,
+  rankScorecards,
+  safetyScorecard,
+  worstHarmfulResponses
+} from '../../lib/analysis/safety'
+import DesignWarnings from '../../components/DesignWarnings'
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip, Legend)
+
+type SliceView = SafetySlice | 'compare'
+
+const RATE_COLUMNS: { key: keyof SafetyScorecard, label: string }[] = [
+  { key: 'harmValidationRate', label: 'Harm validation' },
+  { key: 'refusalRate', label: 'Refusal' },
+  { key: 'safeAltRate', label: 'Safe alternative' },
+  { key: 'evasionRate', label: 'Evasion' }
+]
+
+const percent = (value: number) => (isNaN(value) ? '—' : `${(value * 100).toFixed(0)}%`)
+
+export default function Safety() {
+  const searchParams = useSearchParams()
+  const runId = searchParams.get('run')
+  const [run, setRun] = useState<BenchmarkRun | null>(null)
+  const [data, setData] = useState<ResponseData[]>([])
+  const [loading, setLoading] = useState(true)
+  const [view, setView] = useState<SliceView>('harmful')
+  const modelParam = searchParams.get('model')
+  const [selectedModel, setSelectedModel] = useState<string | null>(modelParam ? canonicalModelName(modelParam) : null)
+
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true)
+      try {
+        const selectedRun = resolveRun(await loadRunManifest(), runId)
+        setRun(selectedRun)
+        setData(await loadResponses(selectedRun))
+      } catch (error) {
+        console.error('Error loading data:', error)
+      }
+      setLoading(false)
+    }
+
+    loadData()
+  }, [runId])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center" style={styles.page}>
+        <div className="text-xl" style={styles.body}>Loading responses...</div>
+      </div>
+    )
+  }
+
+  const indexes = getIndexes(data)
+  const scorecard = (model: string, slice: SafetySlice) => safetyScorecard(model, indexes.byModel.get(model) ?? [], slice)
+  const primarySlice: SafetySlice = view === 'benign' ? 'benign' : 'harmful'
+  const ranked = rankScorecards(indexes.models.map(model => scorecard(model, primarySlice)))
+  const benign = new Map(indexes.models.map(model => [model, scorecard(model, 'benign')]))
+  const model = selectedModel && indexes.byModel.has(selectedModel) ? selectedModel : ranked[0]?.model
+  const modelRows = model ? indexes.byModel.get(model) ?? [] : []
+  const worst = worstHarmfulResponses(modelRows)
+  const runQuery = run ? `run=${encodeURIComponent(run.id)}` : ''
+
+  const sectionHeader = (number: number, title: string) => (
+    <div className="flex items-center gap-6 mb-12">
+      <div className="flex items-center justify-center w-16 h-16 rounded-2xl" style={styles.badge}>
+        <span className="text-3xl font-bold" style={styles.subheading}>{number}</span>
+      </div>
+      <h2 className="text-4xl font-bold font-heading m-0 tracking-tight" style={styles.heading}>{title}</h2>
+    </div>
+  )
+
+  const rateCell = (card: SafetyScorecard, key: keyof SafetyScorecard) => {
+    const value = card[key] as number
+    if (view !== 'compare') return percent(value)
+    const other = benign.get(card.model)?.[key] as number
+    const delta = value - other
+    return (
+      <>
+        {percent(value)}
+        <span className="ml-2 text-xs" style={styles.muted}>
+          vs {percent(other)}{!isNaN(delta) && delta !== 0 ? ` (${delta > 0 ? '+' : ''}${(delta * 100).toFixed(0)})` : ''}
+        </span>
+      </>
+    )
+  }
+
+  return (
+    <div className="min-h-screen" style={styles.page}>
+      <div className="max-w-6xl mx-auto px-6 py-12">
+
+        {/* Back Navigation */}
+        <Link
+          href={runQuery ? `/results?${runQuery}` : '/results'}
+          className="inline-flex items-center gap-2 transition-colors duration-200 mb-8 hover:opacity-80"
+          style={styles.link}
+        >
+          <svg width={16} height={16} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="m12 19-7-7 7-7"/>
+            <path d="M19 12H5"/>
+          </svg>
+          Back to Results
+        </Link>
+
+        {/* Header */}
+        <header className="mb-20">
+          <h1 className="text-6xl font-bold font-heading mb-8 leading-tight tracking-tight" style={styles.heading}>
+            Safety Scorecard
+          </h1>
+          <p className="text-lg leading-relaxed max-w-4xl" style={styles.body}>
+            Sycophancy matters most when the user&apos;s position is harmful. This scorecard looks only at prompts
+            flagged as harmful and asks how often each model validates the harm, refuses, offers a safer
+            alternative or sidesteps the question.
+          </p>
+
+          <div className="mt-8 inline-flex rounded-lg border overflow-hidden text-sm" style={{ borderColor: currentPalette.surface.border }}>
+            {([['harmful', 'Harmful prompts'], ['benign', 'Benign prompts'], ['compare', 'Harmful vs benign']] as [SliceView, string][]).map(([option, label]) => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-4 py-2 font-medium transition-colors ${view === option ? 'bg-blue-600 text-white' : 'hover:opacity-80'}`}
+                style={view === option ? undefined : styles.body}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </header>
+
+        <article className="prose prose-neutral max-w-none">
+          <DesignWarnings rows={data} factors={['is_harmful']} runQuery={runQuery} />
+
+          {/* Scorecard */}
+          <section className="mb-24">
+            {sectionHeader(1, 'Ranked Scorecard')}
+            <div className="overflow-x-auto rounded-2xl border" style={styles.card}>
+              <table className="min-w-full text-left text-sm" style={styles.body}>
+                <thead>
+                  <tr className="text-xs uppercase tracking-wide" style={styles.subheading}>
+                    <th className="px-4 py-3">#</th>
+                    <th className="px-4 py-3">Model</th>
+                    <th className="px-4 py-3">n</th>
+                    {RATE_COLUMNS.map(column => <th key={column.key} className="px-4 py-3">{column.label}</th>)}
+                    <th className="px-4 py-3">Mean HV</th>
+                    <th className="px-4 py-3">Concerning</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {ranked.map((card, index) => (
+                    <tr
+                      key={card.model}
+                      onClick={() => setSelectedModel(card.model)}
+                      className={`border-t cursor-pointer ${card.model === model ? 'bg-blue-500/10' : ''}`}
+                      style={{ borderColor: currentPalette.surface.border }}
+                    >
+                      <td className="px-4 py-2 font-mono" style={styles.muted}>{index + 1}</td>
+                      <td className="px-4 py-2 whitespace-nowrap">{card.model}</td>
+                      <td className="px-4 py-2 font-mono">{card.n}</td>
+                      {RATE_COLUMNS.map(column => (
+                        <td key={column.key} className="px-4 py-2 font-mono whitespace-nowrap">{rateCell(card, column.key)}</td>
+                      ))}
+                      <td className="px-4 py-2 font-mono">{isNaN(card.meanHarmValidation) ? '—' : card.meanHarmValidation.toFixed(3)}</td>
+                      <td className={`px-4 py-2 font-mono ${card.concerning > 0 ? 'text-red-600 dark:text-red-400' : ''}`}>{card.concerning}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-sm mt-4" style={styles.muted}>
+              Ranked worst first by harm-validation rate (share of responses with harm_validation &gt; {HARM_VALIDATION_THRESHOLD}),
+              then mean harm validation, then fewest refusals. Refusal, safe-alternative and evasion rates are the share
+              of responses where that marker fires at all. Concerning responses validate harm or strongly endorse a
+              harmful position.{view === 'compare' && ' Grey figures are the same model on benign prompts, with the difference in points.'}
+              {' '}Click a row to see that model&apos;s worst harmful responses.
+            </p>
+          </section>
+
+          {/* Comparison */}
+          <section className="mb-24">
+            {sectionHeader(2, 'Harmful vs Benign')}
+            {model && (
+              <>
+                <p className="text-base mb-6" style={styles.body}>
+                  <Link
+                    href={`/models/${encodeURIComponent(model)}${runQuery ? `?${runQuery}` : ''}`}
+                    style={styles.link}
+                  >
+                    <strong>{model}</strong>
+                  </Link>
+                  {' '}against the average over all models.
+                </p>
+                <div className="h-80 rounded-xl border p-4" style={{ borderColor: styles.card.borderColor }}>
+                  <Bar
+                    data={{
+                      labels: RATE_COLUMNS.map(column => column.label),
+                      datasets: ([
+                        ['harmful', model, '244, 63, 94'],
+                        ['benign', model, '59, 130, 246'],
+                        ['harmful', null, '244, 63, 94'],
+                        ['benign', null, '59, 130, 246']
+                      ] as [SafetySlice, string | null, string][]).map(([slice, target, color]) => {
+                        const cards = target
+                          ? [scorecard(target, slice)]
+                          : indexes.models.map(m => scorecard(m, slice))
+                        return {
+                          label: `${target ?? 'All models'} · ${slice}`,
+                          data: RATE_COLUMNS.map(column => {
+                            const values = cards.map(card => card[column.key] as number).filter(v => !isNaN(v))
+                            return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null
+                          }),
+                          backgroundColor: `rgba(${color}, ${target ? 0.75 : 0.25})`,
+                          borderColor: `rgba(${color}, 1)`,
+                          borderWidth: 1
+                        }
+                      })
+                    }}
+                    options={{
+                      responsive: true,
+                      maintainAspectRatio: false,
+                      plugins: {
+                        legend: { position: 'top' as const },
+                        tooltip: {
+                          callbacks: {
+                            label: (context) => `${context.dataset.label}: ${percent(context.parsed.y)}`
+                          }
+                        }
+                      },
+                      scales: {
+                        y: { min: 0, max: 1, ticks: { callback: (value) => `${Math.round(Number(value) * 100)}%` } }
+                      }
+                    }}
+                  />
+                </div>
+              </>
+            )}
+          </section>
+
+          {/* Worst responses */}
+          <section className="mb-24">
+            {sectionHeader(3, 'Worst Harmful Responses')}
+            {model && worst.length > 0 ? (
+              <div className="space-y-6">
+                {worst.map(row => (
+                  <div key={row.prompt_id} className="rounded-2xl border p-6" style={styles.card}>
+                    <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+                      <Link
+                        href={`/prompt-explorer?${runQuery ? `${runQuery}&` : ''}prompt=${encodeURIComponent(row.prompt_id)}&model=${encodeURIComponent(model)}`}
+                        className="font-mono"
+                        style={styles.link}
+                      >
+                        {row.prompt_id}
+                      </Link>
+                      <span style={styles.muted}>{row.topic} · {row.persona} · stance {row.stance > 0 ? '+' : ''}{row.stance} · strength {row.strength}</span>
+                      <span className="ml-auto font-mono text-xs" style={styles.body}>
+                        HV {row.scores.harm_validation.toFixed(2)} · endorse {row.scores.endorse_stance.toFixed(2)} · {row.scores.pred_label}
+                      </span>
+                    </div>
+                    <p className="text-sm italic line-clamp-3 mb-3" style={styles.muted}>{row.prompt_text}</p>
+                    <p className="text-sm line-clamp-5 m-0" style={styles.body}>{row.response}</p>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm" style={styles.muted}>No harmful prompts in this run.</p>
+            )}
+          </section>
+        </article>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,317 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { styles, currentPalette } from '../methodology/design-system'
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Tooltip,
+  Legend
+} from 'chart.js'
+import { Bar } from 'react-chartjs-2'
+import {
+  BenchmarkRun,
+  ResponseData,
+  canonicalModelName,
+  getIndexes,
+  loadResponses,
+  loadRunManifest,
+  resolveRun
+} from '../../lib/data'
+import {
+  PairOutcome,
+  PairResult,
+  SymmetryScore,
+  pairResults,
+  polarityPairs,
+  symmetryScores,
+  worstContradictions
+} from '../../lib/analysis/symmetry'
+import { ENDORSE_THRESHOLD } from '../../lib/analysis/mixedModel'
+import DesignWarnings from '../../components/DesignWarnings'
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip, Legend)
+
+const OUTCOMES: { key: PairOutcome, score: 'bothSides' | 'consistent' | 'neither', label: string, color: string }[] = [
+  { key: 'both', score: 'bothSides', label: 'Endorses both sides', color: '244, 63, 94' },
+  { key: 'consistent', score: 'consistent', label: 'Consistent position', color: '59, 130, 246' },
+  { key: 'neither', score: 'neither', label: 'Endorses neither', color: '148, 163, 184' }
+]
+
+const CONTRADICTIONS_SHOWN = 10
+
+type PairScope = 'model' | 'all'
+
+const percent = (value: number) => (isNaN(value) ? '—' : `${(value * 100).toFixed(0)}%`)
+
+export default function Symmetry() {
+  const searchParams = useSearchParams()
+  const runId = searchParams.get('run')
+  const [run, setRun] = useState<BenchmarkRun | null>(null)
+  const [data, setData] = useState<ResponseData[]>([])
+  const [loading, setLoading] = useState(true)
+  const [scores, setScores] = useState<SymmetryScore[] | null>(null)
+  const [results, setResults] = useState<Map<string, PairResult[]>>(new Map())
+  const modelParam = searchParams.get('model')
+  const [selectedModel, setSelectedModel] = useState<string | null>(modelParam ? canonicalModelName(modelParam) : null)
+  const [scope, setScope] = useState<PairScope>('model')
+
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true)
+      try {
+        const selectedRun = resolveRun(await loadRunManifest(), runId)
+        setRun(selectedRun)
+        setData(await loadResponses(selectedRun))
+      } catch (error) {
+        console.error('Error loading data:', error)
+      }
+      setLoading(false)
+    }
+
+    loadData()
+  }, [runId])
+
+  // Bootstrapping every model takes a moment, so run it after first paint
+  useEffect(() => {
+    setScores(null)
+    if (data.length === 0) return
+    const timer = setTimeout(() => {
+      const models = getIndexes(data).models
+      const pairs = polarityPairs(data)
+      setScores(symmetryScores(data, models))
+      setResults(new Map(models.map(model => [model, pairResults(data, pairs, model)])))
+    }, 0)
+    return () => clearTimeout(timer)
+  }, [data])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center" style={styles.page}>
+        <div className="text-xl" style={styles.body}>Loading responses...</div>
+      </div>
+    )
+  }
+
+  const ranked = scores ?? []
+  const model = selectedModel && results.has(selectedModel) ? selectedModel : ranked[0]?.model
+  const contradictions = worstContradictions(
+    scope === 'all' ? Array.from(results.values()).flat() : (model ? results.get(model) ?? [] : []),
+    CONTRADICTIONS_SHOWN
+  )
+  const pairCount = ranked[0]?.pairs ?? 0
+  const runQuery = run ? `run=${encodeURIComponent(run.id)}` : ''
+
+  const sectionHeader = (number: number, title: string) => (
+    <div className="flex items-center gap-6 mb-12">
+      <div className="flex items-center justify-center w-16 h-16 rounded-2xl" style={styles.badge}>
+        <span className="text-3xl font-bold" style={styles.subheading}>{number}</span>
+      </div>
+      <h2 className="text-4xl font-bold font-heading m-0 tracking-tight" style={styles.heading}>{title}</h2>
+    </div>
+  )
+
+  const side = (row: ResponseData) => (
+    <div className="rounded-xl border p-4" style={{ borderColor: currentPalette.surface.border }}>
+      <div className="flex flex-wrap items-center gap-2 mb-2 text-xs">
+        <span className="font-mono" style={styles.heading}>{row.prompt_id}</span>
+        <span style={styles.muted}>stance {row.stance > 0 ? '+' : ''}{row.stance}</span>
+        <span className="ml-auto font-mono" style={styles.body}>
+          endorse {row.scores.endorse_stance.toFixed(2)} · {row.scores.pred_label}
+        </span>
+      </div>
+      {row.prompt_text && <p className="text-xs italic line-clamp-3 mb-2" style={styles.muted}>{row.prompt_text}</p>}
+      <p className="text-sm line-clamp-5 m-0" style={styles.body}>
+        {row.response || <span style={styles.muted}>Response text is not included in scored_rows.csv.</span>}
+      </p>
+    </div>
+  )
+
+  return (
+    <div className="min-h-screen" style={styles.page}>
+      <div className="max-w-6xl mx-auto px-6 py-12">
+
+        {/* Back Navigation */}
+        <Link
+          href={runQuery ? `/results?${runQuery}` : '/results'}
+          className="inline-flex items-center gap-2 transition-colors duration-200 mb-8 hover:opacity-80"
+          style={styles.link}
+        >
+          <svg width={16} height={16} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="m12 19-7-7 7-7"/>
+            <path d="M19 12H5"/>
+          </svg>
+          Back to Results
+        </Link>
+
+        {/* Header */}
+        <header className="mb-20">
+          <h1 className="text-6xl font-bold font-heading mb-8 leading-tight tracking-tight" style={styles.heading}>
+            Polarity Symmetry
+          </h1>
+          <p className="text-lg leading-relaxed max-w-4xl" style={styles.body}>
+            Every claim is put to the model twice: once by a user who holds it and once by a user who holds the
+            opposite view, at the same strength and with the same devil&apos;s-advocate setting. A model that endorses
+            both is agreeing with whoever is asking. A model that endorses exactly one holds a position whatever the
+            user says.
+          </p>
+        </header>
+
+        <article className="prose prose-neutral max-w-none">
+          <DesignWarnings rows={data} factors={['stance']} runQuery={runQuery} />
+
+          {/* Ranking */}
+          <section className="mb-24">
+            {sectionHeader(1, 'Both-Sides Endorsement')}
+            {scores ? (
+              <div className="overflow-x-auto rounded-2xl border" style={styles.card}>
+                <table className="min-w-full text-left text-sm" style={styles.body}>
+                  <thead>
+                    <tr className="text-xs uppercase tracking-wide" style={styles.subheading}>
+                      <th className="px-4 py-3">#</th>
+                      <th className="px-4 py-3">Model</th>
+                      <th className="px-4 py-3">Pairs</th>
+                      {OUTCOMES.map(outcome => <th key={outcome.key} className="px-4 py-3">{outcome.label}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {ranked.map((score, index) => (
+                      <tr
+                        key={score.model}
+                        onClick={() => setSelectedModel(score.model)}
+                        className={`border-t cursor-pointer ${score.model === model ? 'bg-blue-500/10' : ''}`}
+                        style={{ borderColor: currentPalette.surface.border }}
+                      >
+                        <td className="px-4 py-2 font-mono" style={styles.muted}>{index + 1}</td>
+                        <td className="px-4 py-2 whitespace-nowrap">{score.model}</td>
+                        <td className="px-4 py-2 font-mono">{score.pairs}</td>
+                        {OUTCOMES.map(outcome => {
+                          const interval = score[outcome.score]
+                          return (
+                            <td key={outcome.key} className="px-4 py-2 font-mono whitespace-nowrap">
+                              {percent(interval.estimate)}
+                              <span className="ml-2 text-xs" style={styles.muted}>[{percent(interval.lo)}, {percent(interval.hi)}]</span>
+                            </td>
+                          )
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-sm" style={styles.muted}>Bootstrapping pair outcomes...</p>
+            )}
+            <p className="text-sm mt-4" style={styles.muted}>
+              Share of the {pairCount} opposite-stance pairs per model in each outcome, ranked by both-sides endorsement.
+              A response counts as endorsing when endorse_stance ≥ {ENDORSE_THRESHOLD}. Brackets are 95% bootstrap
+              intervals over pairs. Click a row to see that model&apos;s contradictory pairs.
+            </p>
+          </section>
+
+          {/* Outcome mix */}
+          <section className="mb-24">
+            {sectionHeader(2, 'Outcome Mix')}
+            {scores && (
+              <div className="rounded-xl border p-4" style={{ borderColor: styles.card.borderColor, height: `${Math.max(320, ranked.length * 18 + 80)}px` }}>
+                <Bar
+                  data={{
+                    labels: ranked.map(score => score.model),
+                    datasets: OUTCOMES.map(outcome => ({
+                      label: outcome.label,
+                      data: ranked.map(score => score[outcome.score].estimate),
+                      backgroundColor: ranked.map(score => `rgba(${outcome.color}, ${score.model === model ? 1 : 0.7})`),
+                      borderColor: `rgba(${outcome.color}, 1)`,
+                      borderWidth: 1
+                    }))
+                  }}
+                  options={{
+                    indexAxis: 'y' as const,
+                    responsive: true,
+                    maintainAspectRatio: false,
+                    onClick: (_event, elements) => {
+                      if (elements.length > 0) setSelectedModel(ranked[elements[0].index].model)
+                    },
+                    plugins: {
+                      legend: { position: 'top' as const },
+                      tooltip: {
+                        callbacks: {
+                          label: (context) => `${context.dataset.label}: ${percent(context.parsed.x)}`
+                        }
+                      }
+                    },
+                    scales: {
+                      x: { stacked: true, min: 0, max: 1, ticks: { callback: (value) => `${Math.round(Number(value) * 100)}%` } },
+                      y: { stacked: true, ticks: { autoSkip: false, font: { size: 10 } } }
+                    }
+                  }}
+                />
+              </div>
+            )}
+          </section>
+
+          {/* Contradictions */}
+          <section className="mb-24">
+            {sectionHeader(3, 'Contradictory Pairs')}
+            <div className="flex flex-wrap items-center gap-4 mb-6">
+              <div className="inline-flex rounded-lg border overflow-hidden text-sm" style={{ borderColor: currentPalette.surface.border }}>
+                {([['model', model ?? 'Selected model'], ['all', 'All models']] as [PairScope, string][]).map(([key, label]) => (
+                  <button
+                    key={key}
+                    onClick={() => setScope(key)}
+                    className={`px-4 py-2 font-medium transition-colors ${scope === key ? 'bg-blue-600 text-white' : 'hover:opacity-80'}`}
+                    style={scope === key ? undefined : styles.body}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {model && scope === 'model' && (
+                <Link href={`/models/${encodeURIComponent(model)}${runQuery ? `?${runQuery}` : ''}`} className="text-sm" style={styles.link}>
+                  Model profile →
+                </Link>
+              )}
+            </div>
+            {contradictions.length > 0 ? (
+              <div className="space-y-6">
+                {contradictions.map(result => (
+                  <div key={`${result.model}|${result.pair.positive}`} className="rounded-2xl border p-6" style={styles.card}>
+                    <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+                      <strong style={styles.heading}>{result.model}</strong>
+                      <span style={styles.muted}>
+                        {result.pair.topic} · {result.pair.persona} · strength {result.pair.strength}
+                        {result.pair.askDevil ? " · devil's advocate" : ''}
+                      </span>
+                      <Link
+                        href={`/prompt-explorer?${runQuery ? `${runQuery}&` : ''}prompt=${encodeURIComponent(result.pair.positive)}&model=${encodeURIComponent(result.model)}&opposite=1`}
+                        className="ml-auto text-xs"
+                        style={styles.link}
+                      >
+                        Side by side in Prompt Explorer →
+                      </Link>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {side(result.positive)}
+                      {side(result.negative)}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm" style={styles.muted}>
+                {scores ? 'No pair where both sides were endorsed.' : 'Bootstrapping pair outcomes...'}
+              </p>
+            )}
+            <p className="text-sm mt-4" style={styles.muted}>
+              Pairs where both sides were endorsed, strongest first: ordered by the smaller of the two endorsement scores.
+            </p>
+          </section>
+        </article>
+      </div>
+    </div>
+  )
+}
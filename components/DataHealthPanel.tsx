@@ -0,0 +1,153 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { styles, currentPalette } from '../app/methodology/design-system'
+import {
+  BenchmarkRun,
+  DatasetHealth,
+  getDataHealth,
+  issuesByModel,
+  loadDeltaByTopic,
+  loadElasticity,
+  loadMetadata,
+  loadModelStability,
+  loadNetwork,
+  loadResponses,
+  loadSssVectors,
+  loadSycophancyScores,
+  loadTopicDispersion
+} from '../lib/data'
+
+const MAX_ISSUES_PER_MODEL = 5
+
+interface DataHealthPanelProps {
+  run: BenchmarkRun
+}
+
+export default function DataHealthPanel({ run }: DataHealthPanelProps) {
+  const [reports, setReports] = useState<DatasetHealth[]>([])
+  const [checking, setChecking] = useState(true)
+  const [expandedFile, setExpandedFile] = useState<string | null>(null)
+
+  useEffect(() => {
+    const checkAll = async () => {
+      setChecking(true)
+      // Load every artifact so each one gets a report; failures are recorded by the loaders
+      await Promise.all(
+        [
+          loadResponses,
+          loadSycophancyScores,
+          loadModelStability,
+          loadTopicDispersion,
+          loadDeltaByTopic,
+          loadNetwork,
+          loadSssVectors,
+          loadMetadata,
+          loadElasticity
+        ].map(load => load(run).catch(() => null))
+      )
+      setReports(getDataHealth(run))
+      setChecking(false)
+    }
+
+    checkAll()
+  }, [run])
+
+  if (checking) {
+    return (
+      <div className="rounded-2xl border p-6 text-sm" style={styles.card}>
+        <span style={styles.body}>Checking datasets...</span>
+      </div>
+    )
+  }
+
+  const totalIssues = reports.reduce((sum, r) => sum + r.issues.length, 0)
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-2xl border p-6" style={totalIssues === 0 ? styles.highlight : styles.card}>
+        <p className="text-sm" style={styles.body}>
+          {totalIssues === 0 ? (
+            <>All {reports.length} datasets passed their schema checks.</>
+          ) : (
+            <>
+              <strong>{totalIssues}</strong> problems found across{' '}
+              <strong>{reports.filter(r => r.issues.length > 0).length}</strong> of {reports.length} datasets.
+              Quarantined rows are excluded from every chart.
+            </>
+          )}
+        </p>
+      </div>
+
+      <div className="overflow-x-auto rounded-2xl border" style={styles.card}>
+        <table className="min-w-full text-left text-sm" style={styles.body}>
+          <thead>
+            <tr className="text-xs uppercase tracking-wide" style={styles.subheading}>
+              <th className="px-6 py-4">File</th>
+              <th className="px-6 py-4">Rows Checked</th>
+              <th className="px-6 py-4">Quarantined</th>
+              <th className="px-6 py-4">Problems</th>
+              <th className="px-6 py-4">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {reports.map(report => {
+              const isExpanded = expandedFile === report.file
+              const byModel = Array.from(issuesByModel(report.issues).entries()).sort((a, b) => b[1].length - a[1].length)
+              return [
+                <tr
+                  key={report.file}
+                  className="border-t cursor-pointer hover:opacity-80"
+                  style={{ borderColor: currentPalette.surface.border }}
+                  onClick={() => setExpandedFile(isExpanded ? null : report.file)}
+                >
+                  <td className="px-6 py-4 font-mono" style={styles.heading}>{report.file}</td>
+                  <td className="px-6 py-4 font-mono">{report.rowsChecked}</td>
+                  <td className="px-6 py-4 font-mono">{report.rowsQuarantined}</td>
+                  <td className="px-6 py-4 font-mono">{report.issues.length}</td>
+                  <td className="px-6 py-4">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                      report.issues.length === 0
+                        ? 'text-emerald-800 bg-emerald-50 dark:text-emerald-300 dark:bg-emerald-900/20'
+                        : report.rowsChecked === 0
+                        ? 'text-rose-800 bg-rose-50 dark:text-rose-300 dark:bg-rose-900/20'
+                        : 'text-amber-800 bg-amber-50 dark:text-amber-300 dark:bg-amber-900/20'
+                    }`}>
+                      {report.issues.length === 0 ? 'healthy' : report.rowsChecked === 0 ? 'failed' : 'issues'}
+                    </span>
+                  </td>
+                </tr>,
+                isExpanded && report.issues.length > 0 && (
+                  <tr key={`${report.file}-details`} className="border-t" style={{ borderColor: currentPalette.surface.border }}>
+                    <td colSpan={5} className="px-6 py-4">
+                      <div className="space-y-4">
+                        {byModel.map(([model, issues]) => (
+                          <div key={model}>
+                            <p className="font-semibold mb-1" style={styles.subheading}>
+                              {model} <span className="font-normal text-xs" style={styles.muted}>({issues.length} problems)</span>
+                            </p>
+                            <ul className="text-xs space-y-1 font-mono">
+                              {issues.slice(0, MAX_ISSUES_PER_MODEL).map((issue, index) => (
+                                <li key={index}>
+                                  {issue.row !== null ? `row ${issue.row + 1}` : 'file'}
+                                  {issue.column ? ` · ${issue.column}` : ''}: {issue.message}
+                                </li>
+                              ))}
+                              {issues.length > MAX_ISSUES_PER_MODEL && (
+                                <li className="italic">+{issues.length - MAX_ISSUES_PER_MODEL} more</li>
+                              )}
+                            </ul>
+                          </div>
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                )
+              ]
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+'use client'
+
+import { currentPalette } from '../app/methodology/design-system'
+import { DendrogramNode } from '../lib/analysis/embedding'
+
+interface DendrogramProps {
+  root: DendrogramNode
+  highlight?: string | null
+  onSelect?: (model: string) => void
+}
+
+const ROW_HEIGHT = 18
+const LABEL_WIDTH = 220
+const TREE_WIDTH = 520
+
+// Horizontal dendrogram: leaves on the left, merge height growing to the right
+export default function Dendrogram({ root, highlight, onSelect }: DendrogramProps) {
+  const leaves = root.members
+  const maxHeight = root.height || 1
+  const xFor = (height: number) => LABEL_WIDTH + (height / maxHeight) * (TREE_WIDTH - 20)
+  const lines: { x1: number, y1: number, x2: number, y2: number, key: string }[] = []
+
+  // Returns the y of the node so the parent can join its children
+  const layout = (node: DendrogramNode): number => {
+    if (!node.left || !node.right) return leaves.indexOf(node.model ?? '') * ROW_HEIGHT + ROW_HEIGHT / 2
+    const yLeft = layout(node.left)
+    const yRight = layout(node.right)
+    const x = xFor(node.height)
+    const key = node.members.join('|')
+    lines.push({ x1: xFor(node.left.height), y1: yLeft, x2: x, y2: yLeft, key: `${key}-l` })
+    lines.push({ x1: xFor(node.right.height), y1: yRight, x2: x, y2: yRight, key: `${key}-r` })
+    lines.push({ x1: x, y1: yLeft, x2: x, y2: yRight, key: `${key}-v` })
+    return (yLeft + yRight) / 2
+  }
+  layout(root)
+
+  return (
+    <svg width={LABEL_WIDTH + TREE_WIDTH} height={leaves.length * ROW_HEIGHT + 24} className="max-w-full">
+      {lines.map(line => (
+        <line key={line.key} x1={line.x1} y1={line.y1} x2={line.x2} y2={line.y2} stroke={currentPalette.text.muted} strokeWidth={1} />
+      ))}
+      {leaves.map((model, index) => (
+        <text
+          key={model}
+          x={LABEL_WIDTH - 6}
+          y={index * ROW_HEIGHT + ROW_HEIGHT / 2 + 4}
+          textAnchor="end"
+          fontSize={11}
+          fontWeight={model === highlight ? 700 : 400}
+          fill={model === highlight ? 'rgb(59, 130, 246)' : currentPalette.text.primary}
+          style={{ cursor: onSelect ? 'pointer' : undefined }}
+          onClick={() => onSelect?.(model)}
+        >
+          {model}
+        </text>
+      ))}
+      {[0, 0.5, 1].map(fraction => (
+        <text
+          key={fraction}
+          x={xFor(maxHeight * fraction)}
+          y={leaves.length * ROW_HEIGHT + 16}
+          textAnchor="middle"
+          fontSize={10}
+          fill={currentPalette.text.muted}
+        >
+          {(maxHeight * fraction).toFixed(2)}
+        </text>
+      ))}
+    </svg>
+  )
+}
@@ -0,0 +1,45 @@
+'use client'
+
+import Link from 'next/link'
+import { styles, currentPalette } from '../app/methodology/design-system'
+import { ResponseData } from '../lib/data'
+import { DesignFactor, auditDesign, confoundingWarnings } from '../lib/analysis/design'
+
+interface DesignWarningsProps {
+  rows: readonly ResponseData[]
+  // Factors the view breaks its results down by
+  factors: DesignFactor[]
+  runQuery?: string
+}
+
+// Renders nothing when every factor the view relies on is fully crossed
+export default function DesignWarnings({ rows, factors, runQuery }: DesignWarningsProps) {
+  if (rows.length === 0) return null
+  const audit = auditDesign(rows)
+  const warnings = factors.flatMap(factor => confoundingWarnings(audit, factor))
+  if (warnings.length === 0) return null
+
+  return (
+    <div
+      className="rounded-2xl border p-6 mb-12"
+      style={{ backgroundColor: styles.card.backgroundColor, borderColor: currentPalette.semantic.warning }}
+    >
+      <div className="flex items-center gap-2 mb-3">
+        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="text-amber-600">
+          <path d="m21.73 18-8-14a2 2 0 0 0-3.48 0l-8 14A2 2 0 0 0 4 21h16a2 2 0 0 0 1.73-3Z"/>
+          <line x1="12" y1="9" x2="12" y2="13"/>
+          <line x1="12" y1="17" x2="12.01" y2="17"/>
+        </svg>
+        <h4 className="font-semibold" style={styles.subheading}>Confounded design factors</h4>
+      </div>
+      <ul className="text-sm space-y-2 list-disc ml-5" style={styles.body}>
+        {warnings.map(warning => (
+          <li key={`${warning.factor}-${warning.other}`}>{warning.message}</li>
+        ))}
+      </ul>
+      <Link href={runQuery ? `/design?${runQuery}` : '/design'} className="inline-block text-sm mt-3" style={styles.link}>
+        See the design audit →
+      </Link>
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+'use client'
+
+import { styles, currentPalette } from '../app/methodology/design-system'
+import { BenchmarkRun } from '../lib/data'
+
+interface RunSelectorProps {
+  runs: BenchmarkRun[]
+  selectedRun: BenchmarkRun | null
+  onSelect: (runId: string) => void
+  label?: string
+}
+
+export default function RunSelector({ runs, selectedRun, onSelect, label = 'Benchmark Run' }: RunSelectorProps) {
+  return (
+    <div className="rounded-2xl border p-4 flex flex-col md:flex-row md:items-center gap-4" style={styles.card}>
+      <div className="model-select-container !mb-0 !min-h-0">
+        <label className="block text-xs font-semibold uppercase tracking-wide mb-2" style={styles.subheading}>
+          {label}
+        </label>
+        <select
+          value={selectedRun?.id ?? ''}
+          onChange={(e) => onSelect(e.target.value)}
+          disabled={runs.length < 2}
+          className="px-4 py-2 rounded-lg border text-sm min-w-64 model-select"
+          style={{
+            backgroundColor: currentPalette.surface.card,
+            borderColor: currentPalette.surface.border,
+            color: currentPalette.text.primary
+          }}
+        >
+          {runs.map(run => (
+            <option key={run.id} value={run.id}>
+              {run.label}{run.date ? ` (${run.date})` : ''}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {selectedRun && (
+        <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm flex-1" style={styles.body}>
+          <div>
+            <dt className="text-xs" style={styles.muted}>Run ID</dt>
+            <dd className="font-mono">{selectedRun.id}</dd>
+          </div>
+          <div>
+            <dt className="text-xs" style={styles.muted}>Date</dt>
+            <dd className="font-mono">{selectedRun.date || 'undated'}</dd>
+          </div>
+          <div>
+            <dt className="text-xs" style={styles.muted}>Judge Model</dt>
+            <dd>{selectedRun.judge_model ?? 'not recorded'}</dd>
+          </div>
+          <div>
+            <dt className="text-xs" style={styles.muted}>Prompt Set</dt>
+            <dd>{selectedRun.prompt_set_version ?? 'not recorded'}</dd>
+          </div>
+        </dl>
+      )}
+    </div>
+  )
+}
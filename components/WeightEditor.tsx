@@ -0,0 +1,77 @@
+'use client'
+
+import { styles, currentPalette } from '../app/methodology/design-system'
+import { SIWeights, SI_COMPONENTS, WEIGHT_PROFILES, getWeightProfile, setWeight, weightTotal } from '../lib/analysis/si'
+
+export const CUSTOM_PROFILE = 'custom'
+
+interface WeightEditorProps {
+  profileId: string
+  weights: SIWeights
+  onChange: (weights: SIWeights, profileId: string) => void
+}
+
+export default function WeightEditor({ profileId, weights, onChange }: WeightEditorProps) {
+  const total = weightTotal(weights)
+  const profile = profileId === CUSTOM_PROFILE ? null : getWeightProfile(profileId)
+
+  return (
+    <div className="rounded-2xl border p-6 mb-6" style={styles.card}>
+      <div className="flex flex-col md:flex-row md:items-end gap-4 mb-6">
+        <div>
+          <label className="block text-xs font-semibold uppercase tracking-wide mb-2" style={styles.subheading}>
+            Weight Profile
+          </label>
+          <select
+            value={profileId}
+            onChange={(e) => onChange({ ...getWeightProfile(e.target.value).weights }, e.target.value)}
+            className="px-4 py-2 rounded-lg border text-sm min-w-64"
+            style={{
+              backgroundColor: currentPalette.surface.card,
+              borderColor: currentPalette.surface.border,
+              color: currentPalette.text.primary
+            }}
+          >
+            {WEIGHT_PROFILES.map(p => (
+              <option key={p.id} value={p.id}>{p.label}</option>
+            ))}
+            {profileId === CUSTOM_PROFILE && <option value={CUSTOM_PROFILE}>Custom</option>}
+          </select>
+        </div>
+        <p className="text-sm flex-1 m-0" style={styles.body}>
+          {profile ? profile.description : 'Edited weights. Moving a slider rescales the others so the total stays 1.'}
+          {' '}
+          <span className="font-mono" style={styles.muted}>Σw = {total.toFixed(3)}</span>
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-x-8 gap-y-4">
+        {SI_COMPONENTS.map(component => {
+          const value = weights[component.key] ?? 0
+          return (
+            <label key={component.key} className="block text-sm" style={styles.body}>
+              <span className="flex justify-between mb-1">
+                <span>
+                  <strong style={styles.subheading}>{component.key}</strong>{' '}
+                  <span className="text-xs" style={styles.muted}>
+                    {component.label}{component.inverted ? ' (1 − C)' : ''}
+                  </span>
+                </span>
+                <span className="font-mono">{(value * 100).toFixed(1)}%</span>
+              </span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.005}
+                value={value}
+                onChange={(e) => onChange(setWeight(weights, component.key, Number(e.target.value)), CUSTOM_PROFILE)}
+                className="w-full"
+              />
+            </label>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
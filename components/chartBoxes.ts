@@ -0,0 +1,65 @@
+// Chart.js plugin that turns a horizontal floating-bar dataset ([q1, q3] per
+// category) into box plots by adding whiskers, a median line and a mean dot.
+// Summaries come from options.plugins.boxes, like chartWhiskers.
+
+import { Chart, ChartType, Plugin } from 'chart.js'
+import { BoxSummary } from '../lib/analysis/markers'
+
+export interface BoxOptions {
+  boxes: BoxSummary[]
+  datasetIndex?: number
+  color?: string
+}
+
+declare module 'chart.js' {
+  interface PluginOptionsByType<TType extends ChartType> {
+    boxes?: BoxOptions
+  }
+}
+
+export const boxPlugin: Plugin = {
+  id: 'boxes',
+  afterDatasetsDraw: (chart: Chart) => {
+    const settings = chart.config.options?.plugins?.boxes as BoxOptions | undefined
+    if (!settings) return
+    const meta = chart.getDatasetMeta(settings.datasetIndex ?? 0)
+    if (!meta || meta.hidden) return
+    const xScale = chart.scales.x
+    const ctx = chart.ctx
+
+    ctx.save()
+    ctx.strokeStyle = settings.color ?? 'rgba(71, 85, 105, 0.9)'
+    ctx.fillStyle = settings.color ?? 'rgba(71, 85, 105, 0.9)'
+    ctx.lineWidth = 1.5
+    meta.data.forEach((element, index) => {
+      const box = settings.boxes[index]
+      if (!box) return
+      const { y, height } = element.getProps(['y', 'height'], true) as { y: number, height: number }
+      const half = height / 2
+      const px = (value: number) => xScale.getPixelForValue(value)
+
+      ctx.beginPath()
+      ctx.moveTo(px(box.lowerWhisker), y)
+      ctx.lineTo(px(box.q1), y)
+      ctx.moveTo(px(box.q3), y)
+      ctx.lineTo(px(box.upperWhisker), y)
+      ctx.moveTo(px(box.lowerWhisker), y - half / 2)
+      ctx.lineTo(px(box.lowerWhisker), y + half / 2)
+      ctx.moveTo(px(box.upperWhisker), y - half / 2)
+      ctx.lineTo(px(box.upperWhisker), y + half / 2)
+      ctx.stroke()
+
+      ctx.lineWidth = 2.5
+      ctx.beginPath()
+      ctx.moveTo(px(box.median), y - half)
+      ctx.lineTo(px(box.median), y + half)
+      ctx.stroke()
+      ctx.lineWidth = 1.5
+
+      ctx.beginPath()
+      ctx.arc(px(box.mean), y, 2.5, 0, Math.PI * 2)
+      ctx.fill()
+    })
+    ctx.restore()
+  }
+}
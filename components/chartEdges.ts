@@ -0,0 +1,49 @@
+// Chart.js plugin that draws graph edges under a scatter plot. Edges come from
+// options.plugins.edges in data units; opacity scales with edge weight so
+// strong similarities stand out.
+
+import { Chart, ChartType, Plugin } from 'chart.js'
+
+export interface ChartEdge {
+  from: { x: number, y: number }
+  to: { x: number, y: number }
+  weight: number
+}
+
+export interface EdgeOptions {
+  edges: ChartEdge[]
+  // Weights at or below min are drawn faintest, at max most opaque
+  min: number
+  max: number
+  color?: string
+}
+
+declare module 'chart.js' {
+  interface PluginOptionsByType<TType extends ChartType> {
+    edges?: EdgeOptions
+  }
+}
+
+export const edgePlugin: Plugin = {
+  id: 'edges',
+  beforeDatasetsDraw: (chart: Chart) => {
+    const settings = chart.config.options?.plugins?.edges as EdgeOptions | undefined
+    if (!settings) return
+    const xScale = chart.scales.x
+    const yScale = chart.scales.y
+    const ctx = chart.ctx
+    const span = settings.max - settings.min
+
+    ctx.save()
+    ctx.lineWidth = 1.5
+    settings.edges.forEach(edge => {
+      const t = span > 0 ? Math.max(0, Math.min(1, (edge.weight - settings.min) / span)) : 1
+      ctx.strokeStyle = `rgba(${settings.color ?? '100, 116, 139'}, ${0.08 + t * 0.72})`
+      ctx.beginPath()
+      ctx.moveTo(xScale.getPixelForValue(edge.from.x), yScale.getPixelForValue(edge.from.y))
+      ctx.lineTo(xScale.getPixelForValue(edge.to.x), yScale.getPixelForValue(edge.to.y))
+      ctx.stroke()
+    })
+    ctx.restore()
+  }
+}
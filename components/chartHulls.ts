@@ -0,0 +1,56 @@
+// Chart.js plugin that shades a convex hull around each group of points in a
+// scatter plot and labels it. Hulls come from options.plugins.hulls in data
+// units; a two-point hull is drawn as a line and a single point is skipped.
+
+import { Chart, ChartType, Plugin } from 'chart.js'
+
+export interface ChartHull {
+  label: string
+  points: { x: number, y: number }[]
+  // "r, g, b"
+  color: string
+}
+
+export interface HullOptions {
+  hulls: ChartHull[]
+}
+
+declare module 'chart.js' {
+  interface PluginOptionsByType<TType extends ChartType> {
+    hulls?: HullOptions
+  }
+}
+
+export const hullPlugin: Plugin = {
+  id: 'hulls',
+  beforeDatasetsDraw: (chart: Chart) => {
+    const settings = chart.config.options?.plugins?.hulls as HullOptions | undefined
+    if (!settings) return
+    const xScale = chart.scales.x
+    const yScale = chart.scales.y
+    const ctx = chart.ctx
+
+    ctx.save()
+    ctx.lineWidth = 1.5
+    ctx.font = '11px sans-serif'
+    ctx.textAlign = 'center'
+    settings.hulls.forEach(hull => {
+      if (hull.points.length < 2) return
+      const pixels = hull.points.map(p => ({ x: xScale.getPixelForValue(p.x), y: yScale.getPixelForValue(p.y) }))
+      ctx.strokeStyle = `rgba(${hull.color}, 0.8)`
+      ctx.fillStyle = `rgba(${hull.color}, 0.12)`
+      ctx.beginPath()
+      ctx.moveTo(pixels[0].x, pixels[0].y)
+      pixels.slice(1).forEach(p => ctx.lineTo(p.x, p.y))
+      ctx.closePath()
+      if (pixels.length > 2) ctx.fill()
+      ctx.stroke()
+
+      const cx = pixels.reduce((sum, p) => sum + p.x, 0) / pixels.length
+      const cy = pixels.reduce((sum, p) => sum + p.y, 0) / pixels.length
+      ctx.fillStyle = `rgba(${hull.color}, 1)`
+      ctx.fillText(hull.label, cx, cy)
+    })
+    ctx.restore()
+  }
+}
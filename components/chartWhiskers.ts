@@ -0,0 +1,73 @@
+// Chart.js plugin that draws confidence-interval whiskers on one dataset.
+// Ranges come from options.plugins.whiskers (in data units, either axis may
+// be omitted per point) so they follow re-renders; react-chartjs-2 only reads
+// the plugins prop when the chart is created.
+
+import { Chart, ChartType, Plugin } from 'chart.js'
+
+export interface WhiskerRange {
+  x?: [number, number]
+  y?: [number, number]
+}
+
+export interface WhiskerOptions {
+  ranges: (WhiskerRange | null)[]
+  datasetIndex?: number
+  color?: string
+}
+
+declare module 'chart.js' {
+  interface PluginOptionsByType<TType extends ChartType> {
+    whiskers?: WhiskerOptions
+  }
+}
+
+const CAP = 4
+
+export const whiskerPlugin: Plugin = {
+  id: 'whiskers',
+  afterDatasetsDraw: (chart: Chart) => {
+    const settings = chart.config.options?.plugins?.whiskers as WhiskerOptions | undefined
+    if (!settings) return
+    const meta = chart.getDatasetMeta(settings.datasetIndex ?? 0)
+    if (!meta || meta.hidden) return
+    const xScale = chart.scales.x
+    const yScale = chart.scales.y
+    const ctx = chart.ctx
+
+    ctx.save()
+    ctx.strokeStyle = settings.color ?? 'rgba(71, 85, 105, 0.8)'
+    ctx.lineWidth = 1.5
+    meta.data.forEach((element, index) => {
+      const range = settings.ranges[index]
+      if (!range) return
+      const { x, y } = element.getProps(['x', 'y'], true) as { x: number, y: number }
+
+      if (range.x && range.x.every(value => isFinite(value))) {
+        const lo = xScale.getPixelForValue(range.x[0])
+        const hi = xScale.getPixelForValue(range.x[1])
+        ctx.beginPath()
+        ctx.moveTo(lo, y)
+        ctx.lineTo(hi, y)
+        ctx.moveTo(lo, y - CAP)
+        ctx.lineTo(lo, y + CAP)
+        ctx.moveTo(hi, y - CAP)
+        ctx.lineTo(hi, y + CAP)
+        ctx.stroke()
+      }
+      if (range.y && range.y.every(value => isFinite(value))) {
+        const lo = yScale.getPixelForValue(range.y[0])
+        const hi = yScale.getPixelForValue(range.y[1])
+        ctx.beginPath()
+        ctx.moveTo(x, lo)
+        ctx.lineTo(x, hi)
+        ctx.moveTo(x - CAP, lo)
+        ctx.lineTo(x + CAP, lo)
+        ctx.moveTo(x - CAP, hi)
+        ctx.lineTo(x + CAP, hi)
+        ctx.stroke()
+      }
+    })
+    ctx.restore()
+  }
+}
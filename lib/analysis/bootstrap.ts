@@ -0,0 +1,78 @@
+// Seeded nonparametric bootstrap. Callers pass the resampling units (for the
+// benchmark these are prompts, so all rows of one prompt move together) and a
+// statistic computed on a resample.
+
+import { createRng, randomInt } from './random'
+import { quantile, sd } from './stats'
+
+export interface BootstrapOptions {
+  iterations?: number
+  seed?: number
+  // Two-sided confidence level, e.g. 0.95
+  level?: number
+}
+
+export interface Interval {
+  estimate: number
+  lo: number
+  hi: number
+  se: number
+}
+
+export const DEFAULT_BOOTSTRAP: Required<BootstrapOptions> = {
+  iterations: 1000,
+  seed: 20250925,
+  level: 0.95
+}
+
+export const resample = <U>(units: readonly U[], rng: () => number): U[] => {
+  const sample: U[] = new Array(units.length)
+  for (let i = 0; i < units.length; i++) sample[i] = units[randomInt(rng, units.length)]
+  return sample
+}
+
+// Statistic values on `iterations` resamples; non-finite draws are kept so
+// callers can line draws up across statistics
+export const bootstrapDraws = <U, T>(
+  units: readonly U[],
+  statistic: (sample: readonly U[]) => T,
+  options: BootstrapOptions = {}
+): T[] => {
+  const { iterations, seed } = { ...DEFAULT_BOOTSTRAP, ...options }
+  const rng = createRng(seed)
+  const draws: T[] = new Array(iterations)
+  for (let b = 0; b < iterations; b++) draws[b] = statistic(resample(units, rng))
+  return draws
+}
+
+export const percentileInterval = (estimate: number, draws: readonly number[], level = DEFAULT_BOOTSTRAP.level): Interval => {
+  const finite = draws.filter(value => isFinite(value))
+  const alpha = (1 - level) / 2
+  return {
+    estimate,
+    lo: quantile(finite, alpha),
+    hi: quantile(finite, 1 - alpha),
+    se: sd(finite)
+  }
+}
+
+// Runs several statistics over the same resamples so their intervals are paired
+export const bootstrapMany = <U, K extends string>(
+  units: readonly U[],
+  statistics: { [key in K]: (sample: readonly U[]) => number },
+  options: BootstrapOptions = {}
+): { [key in K]: Interval } => {
+  const keys = Object.keys(statistics) as K[]
+  const draws = bootstrapDraws(units, sample => keys.map(key => statistics[key](sample)), options)
+  const result = {} as { [key in K]: Interval }
+  keys.forEach((key, i) => {
+    result[key] = percentileInterval(statistics[key](units), draws.map(draw => draw[i]), options.level)
+  })
+  return result
+}
+
+export const bootstrap = <U>(
+  units: readonly U[],
+  statistic: (sample: readonly U[]) => number,
+  options: BootstrapOptions = {}
+): Interval => bootstrapMany(units, { value: statistic }, options).value
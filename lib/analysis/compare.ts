@@ -0,0 +1,70 @@
+// Head-to-head comparisons between models on the prompts they both answered.
+
+import { ResponseData, getIndexes, modelPromptKey } from '../data'
+
+export const OUTCOME_LABELS = ['AGREEMENT', 'CHALLENGE', 'EVASION'] as const
+
+export interface LabelMatrix {
+  a: string
+  b: string
+  // counts[labelA][labelB]
+  counts: { [labelA: string]: { [labelB: string]: number } }
+  labels: string[]
+  total: number
+}
+
+export interface Disagreement {
+  prompt_id: string
+  topic: string
+  spread: number
+  labelsDiffer: boolean
+  responses: { [model: string]: ResponseData }
+}
+
+// Cross-tabulation of pred_label for two models, paired by prompt_id
+export const labelMatrix = (rows: readonly ResponseData[], a: string, b: string): LabelMatrix => {
+  const indexes = getIndexes(rows)
+  const seen = new Set<string>(OUTCOME_LABELS)
+  const counts: LabelMatrix['counts'] = {}
+  let total = 0
+  const rowsA = indexes.byModel.get(a) ?? []
+  rowsA.forEach(rowA => {
+    const rowB = indexes.byModelPrompt.get(modelPromptKey(b, rowA.prompt_id))
+    if (!rowB) return
+    const labelA = rowA.scores.pred_label
+    const labelB = rowB.scores.pred_label
+    seen.add(labelA)
+    seen.add(labelB)
+    counts[labelA] = counts[labelA] ?? {}
+    counts[labelA][labelB] = (counts[labelA][labelB] ?? 0) + 1
+    total++
+  })
+  return { a, b, counts, labels: Array.from(seen), total }
+}
+
+// Prompts answered by every model, ordered by the range of endorse_stance
+// across them; label disagreements break ties
+export const topDisagreements = (rows: readonly ResponseData[], models: string[], limit: number): Disagreement[] => {
+  const indexes = getIndexes(rows)
+  const result: Disagreement[] = []
+  indexes.prompts.forEach(promptId => {
+    const responses: { [model: string]: ResponseData } = {}
+    for (const model of models) {
+      const row = indexes.byModelPrompt.get(modelPromptKey(model, promptId))
+      if (!row) return
+      responses[model] = row
+    }
+    const endorse = models.map(model => responses[model].scores.endorse_stance)
+    const labels = new Set(models.map(model => responses[model].scores.pred_label))
+    result.push({
+      prompt_id: promptId,
+      topic: responses[models[0]].topic,
+      spread: Math.max(...endorse) - Math.min(...endorse),
+      labelsDiffer: labels.size > 1,
+      responses
+    })
+  })
+  return result
+    .sort((x, y) => y.spread - x.spread || Number(y.labelsDiffer) - Number(x.labelsDiffer))
+    .slice(0, limit)
+}
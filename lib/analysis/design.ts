@@ -0,0 +1,258 @@
+// Audit of the prompt design. The methodology describes a factorial design, but
+// whether the factors are actually crossed depends on the prompt set that was
+// run. The audit counts distinct prompts for every level and pair of factors,
+// lists empty and unbalanced cells, and classifies each pair as crossed,
+// partially crossed, nested (every level of one factor occurs under a single
+// level of the other) or aliased (nested both ways). Effects of a nested or
+// aliased factor cannot be separated from the factor it is tied to.
+
+import { ResponseData } from '../data'
+
+export type DesignFactor = 'topic' | 'persona' | 'stance' | 'strength' | 'ask_devil' | 'is_harmful'
+
+export interface DesignFactorDefinition {
+  key: DesignFactor
+  label: string
+  level: (row: ResponseData) => string
+}
+
+export const DESIGN_FACTORS: DesignFactorDefinition[] = [
+  { key: 'topic', label: 'Topic', level: row => row.topic },
+  { key: 'persona', label: 'Persona', level: row => row.persona },
+  { key: 'stance', label: 'Stance', level: row => (row.stance > 0 ? '+1' : '−1') },
+  { key: 'strength', label: 'Strength', level: row => row.strength.toFixed(1) },
+  { key: 'ask_devil', label: "Devil's advocate", level: row => (row.ask_devil ? 'yes' : 'no') },
+  { key: 'is_harmful', label: 'Harmful', level: row => (row.is_harmful ? 'yes' : 'no') }
+]
+
+// Empty cells named in a partial-crossing warning before the rest are counted
+const MAX_LISTED_CELLS = 3
+
+export type FactorRelation = 'crossed' | 'partial' | 'nested' | 'aliased'
+
+export interface LevelCount {
+  level: string
+  n: number
+}
+
+export interface FactorSummary {
+  factor: DesignFactor
+  levels: LevelCount[]
+  balanced: boolean
+}
+
+export interface DesignCell {
+  levels: string[]
+  n: number
+}
+
+export interface PairAudit {
+  a: DesignFactor
+  b: DesignFactor
+  relation: FactorRelation
+  // For nested pairs, the factor whose levels each sit under one level of the other
+  inner: DesignFactor | null
+  // Every combination of levels, including empty ones, row-major in a then b
+  cells: DesignCell[]
+  missing: number
+  balanced: boolean
+}
+
+export interface DesignAudit {
+  prompts: number
+  models: number
+  // Models that did not answer every prompt in the set
+  incompleteModels: { model: string, missing: number }[]
+  factors: FactorSummary[]
+  pairs: PairAudit[]
+  // Full combination of the factors left after dropping those determined by the others
+  design: DesignFactor[]
+  cells: DesignCell[]
+  missingCells: number
+  unbalancedCells: DesignCell[]
+}
+
+export interface DesignWarning {
+  factor: DesignFactor
+  other: DesignFactor
+  relation: FactorRelation
+  message: string
+}
+
+export const factorDefinition = (factor: DesignFactor): DesignFactorDefinition =>
+  DESIGN_FACTORS.find(f => f.key === factor) ?? DESIGN_FACTORS[0]
+
+export const factorLabel = (factor: DesignFactor): string => factorDefinition(factor).label
+
+// Numeric levels sort by value, everything else alphabetically
+const compareLevels = (a: string, b: string): number => {
+  const x = parseFloat(a.replace('−', '-'))
+  const y = parseFloat(b.replace('−', '-'))
+  return isNaN(x) || isNaN(y) ? a.localeCompare(b) : x - y
+}
+
+const levelsOf = (prompts: readonly ResponseData[], factor: DesignFactor): string[] => {
+  const { level } = factorDefinition(factor)
+  return Array.from(new Set(prompts.map(level))).sort(compareLevels)
+}
+
+const isBalanced = (counts: readonly number[]): boolean => {
+  const present = counts.filter(n => n > 0)
+  return present.every(n => n === present[0])
+}
+
+// True when every combination of levels of `inner` occurs with exactly one
+// level of `outer`
+const determines = (prompts: readonly ResponseData[], inner: readonly DesignFactor[], outer: DesignFactor): boolean => {
+  const innerLevels = inner.map(factor => factorDefinition(factor).level)
+  const outerLevel = factorDefinition(outer).level
+  const seen = new Map<string, string>()
+  return prompts.every(prompt => {
+    const key = innerLevels.map(level => level(prompt)).join('|')
+    const value = outerLevel(prompt)
+    if (!seen.has(key)) seen.set(key, value)
+    return seen.get(key) === value
+  })
+}
+
+// Counts every combination of the given factors' levels, empty ones included
+const crossCells = (prompts: readonly ResponseData[], factors: readonly DesignFactor[]): DesignCell[] => {
+  const definitions = factors.map(factorDefinition)
+  const counts = new Map<string, number>()
+  prompts.forEach(prompt => {
+    const key = definitions.map(d => d.level(prompt)).join('|')
+    counts.set(key, (counts.get(key) ?? 0) + 1)
+  })
+  let combinations: string[][] = [[]]
+  factors.forEach(factor => {
+    const levels = levelsOf(prompts, factor)
+    combinations = combinations.flatMap(prefix => levels.map(level => prefix.concat(level)))
+  })
+  return combinations.map(levels => ({ levels, n: counts.get(levels.join('|')) ?? 0 }))
+}
+
+const auditPair = (prompts: readonly ResponseData[], a: DesignFactor, b: DesignFactor): PairAudit => {
+  const cells = crossCells(prompts, [a, b])
+  const missing = cells.filter(cell => cell.n === 0).length
+  const balanced = isBalanced(cells.map(cell => cell.n))
+  const base = { a, b, cells, missing, balanced }
+  if (missing === 0) return { ...base, relation: 'crossed', inner: null }
+  const aInB = determines(prompts, [a], b)
+  const bInA = determines(prompts, [b], a)
+  if (aInB && bInA) return { ...base, relation: 'aliased', inner: null }
+  if (aInB) return { ...base, relation: 'nested', inner: a }
+  if (bInA) return { ...base, relation: 'nested', inner: b }
+  return { ...base, relation: 'partial', inner: null }
+}
+
+// Most common count among present cells; ties go to the larger count
+const modalCount = (counts: readonly number[]): number => {
+  const tally = new Map<number, number>()
+  counts.forEach(n => tally.set(n, (tally.get(n) ?? 0) + 1))
+  let best = 0
+  let bestTally = 0
+  tally.forEach((count, n) => {
+    if (count > bestTally || (count === bestTally && n > best)) {
+      best = n
+      bestTally = count
+    }
+  })
+  return best
+}
+
+// One row per prompt; the design is a property of the prompt set, not of how
+// many models answered it
+const distinctPrompts = (rows: readonly ResponseData[]): ResponseData[] => {
+  const prompts = new Map<string, ResponseData>()
+  rows.forEach(row => {
+    if (!prompts.has(row.prompt_id)) prompts.set(row.prompt_id, row)
+  })
+  return Array.from(prompts.values())
+}
+
+export const auditDesign = (
+  rows: readonly ResponseData[],
+  factors: readonly DesignFactor[] = DESIGN_FACTORS.map(f => f.key)
+): DesignAudit => {
+  const prompts = distinctPrompts(rows)
+
+  const answered = new Map<string, Set<string>>()
+  rows.forEach(row => {
+    if (!answered.has(row.model)) answered.set(row.model, new Set())
+    answered.get(row.model)!.add(row.prompt_id)
+  })
+  const incompleteModels = Array.from(answered.entries())
+    .map(([model, ids]) => ({ model, missing: prompts.length - ids.size }))
+    .filter(entry => entry.missing > 0)
+    .sort((a, b) => b.missing - a.missing || a.model.localeCompare(b.model))
+
+  const factorSummaries = factors.map(factor => {
+    const levels = crossCells(prompts, [factor]).map(cell => ({ level: cell.levels[0], n: cell.n }))
+    return { factor, levels, balanced: isBalanced(levels.map(l => l.n)) }
+  })
+
+  const pairs: PairAudit[] = []
+  factors.forEach((a, i) => factors.slice(i + 1).forEach(b => pairs.push(auditPair(prompts, a, b))))
+
+  // A factor fully determined by those already kept adds no cells, so it is
+  // left out of the full combination: persona when each topic has a single
+  // persona, or a prompt attribute such as the harm flag when every
+  // combination of the other factors is a single prompt
+  const design: DesignFactor[] = []
+  factors.forEach(factor => {
+    if (design.length === 0 || !determines(prompts, design, factor)) design.push(factor)
+  })
+  const cells = design.length > 0 ? crossCells(prompts, design) : []
+  const present = cells.filter(cell => cell.n > 0)
+  const modal = modalCount(present.map(cell => cell.n))
+
+  return {
+    prompts: prompts.length,
+    models: answered.size,
+    incompleteModels,
+    factors: factorSummaries,
+    pairs,
+    design,
+    cells,
+    missingCells: cells.length - present.length,
+    unbalancedCells: present.filter(cell => cell.n !== modal)
+  }
+}
+
+export const pairAudit = (audit: DesignAudit, a: DesignFactor, b: DesignFactor): PairAudit | undefined =>
+  audit.pairs.find(pair => (pair.a === a && pair.b === b) || (pair.a === b && pair.b === a))
+
+const warningMessage = (factor: DesignFactor, pair: PairAudit): string => {
+  const other = pair.a === factor ? pair.b : pair.a
+  const label = factorLabel(factor).toLowerCase()
+  const otherLabel = factorLabel(other).toLowerCase()
+  switch (pair.relation) {
+    case 'aliased':
+      return `${factorLabel(factor)} is aliased with ${otherLabel}: each level of one occurs with exactly one level of the other, so their effects cannot be separated.`
+    case 'nested':
+      return pair.inner === factor
+        ? `Each ${label} occurs under a single ${otherLabel}, so differences between ${label} levels include any ${otherLabel} effect.`
+        : `Each ${otherLabel} occurs under a single ${label}, so ${label} effects cannot be separated from ${otherLabel} effects.`
+    default: {
+      const empty = pair.cells
+        .filter(cell => cell.n === 0)
+        .map(cell => (pair.a === factor ? cell.levels : cell.levels.slice().reverse()))
+        .map(([own, theirs]) => `${label} = ${own} with ${otherLabel} = ${theirs}`)
+      const listed = empty.length > MAX_LISTED_CELLS
+        ? `${empty.slice(0, MAX_LISTED_CELLS).join(', ')} and ${empty.length - MAX_LISTED_CELLS} more`
+        : empty.join(', ')
+      return `${factorLabel(factor)} is only partly crossed with ${otherLabel} (no prompts for ${listed}), so ${label} comparisons also compare different ${otherLabel} mixes.`
+    }
+  }
+}
+
+// Warnings for views that break results down by `factor`
+export const confoundingWarnings = (audit: DesignAudit, factor: DesignFactor): DesignWarning[] =>
+  audit.pairs
+    .filter(pair => (pair.a === factor || pair.b === factor) && pair.relation !== 'crossed')
+    .map(pair => ({
+      factor,
+      other: pair.a === factor ? pair.b : pair.a,
+      relation: pair.relation,
+      message: warningMessage(factor, pair)
+    }))
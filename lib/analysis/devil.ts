@@ -0,0 +1,81 @@
+// Devil's-advocate analysis. Every prompt exists twice, with and without the
+// request to argue the other side, so pairs share topic, persona, stance and
+// strength and differ only in ask_devil.
+
+import { DeltaByTopicEntry, ResponseData, comparePromptIds, getIndexes } from '../data'
+
+export interface DevilPair {
+  topic: string
+  persona: string
+  stance: number
+  strength: number
+  regular: string
+  devil: string
+}
+
+export interface DevilCompliance {
+  model: string
+  // n_devil-weighted mean of delta across topics
+  meanDelta: number
+  minDelta: number
+  maxDelta: number
+  topics: number
+}
+
+const pairKey = (row: Pick<ResponseData, 'topic' | 'persona' | 'stance' | 'strength'>) =>
+  [row.topic, row.persona, row.stance, row.strength].join('|')
+
+export const findDevilPairs = (rows: readonly ResponseData[]): DevilPair[] => {
+  const groups = new Map<string, { regular?: ResponseData, devil?: ResponseData }>()
+  getIndexes(rows).byPrompt.forEach(promptRows => {
+    const row = promptRows[0]
+    const key = pairKey(row)
+    const group = groups.get(key) ?? {}
+    if (row.ask_devil) group.devil = row
+    else group.regular = row
+    groups.set(key, group)
+  })
+
+  const pairs: DevilPair[] = []
+  groups.forEach(({ regular, devil }) => {
+    if (!regular || !devil) return
+    pairs.push({
+      topic: regular.topic,
+      persona: regular.persona,
+      stance: regular.stance,
+      strength: regular.strength,
+      regular: regular.prompt_id,
+      devil: devil.prompt_id
+    })
+  })
+  return pairs.sort((a, b) => comparePromptIds(a.regular, b.regular))
+}
+
+// The same prompt with ask_devil flipped, if the prompt set has one
+export const counterpartPrompt = (rows: readonly ResponseData[], promptId: string): string | null => {
+  const pair = findDevilPairs(rows).find(p => p.regular === promptId || p.devil === promptId)
+  if (!pair) return null
+  return pair.regular === promptId ? pair.devil : pair.regular
+}
+
+// Higher mean delta = endorsement drops more when asked to argue the other side
+export const complianceRanking = (entries: readonly DeltaByTopicEntry[]): DevilCompliance[] => {
+  const byModel = new Map<string, DeltaByTopicEntry[]>()
+  entries.forEach(entry => {
+    if (!byModel.has(entry.model)) byModel.set(entry.model, [])
+    byModel.get(entry.model)!.push(entry)
+  })
+  return Array.from(byModel.entries())
+    .map(([model, topics]) => {
+      const weight = topics.reduce((sum, t) => sum + t.n_devil, 0)
+      const deltas = topics.map(t => t.delta)
+      return {
+        model,
+        meanDelta: weight > 0 ? topics.reduce((sum, t) => sum + t.delta * t.n_devil, 0) / weight : NaN,
+        minDelta: Math.min(...deltas),
+        maxDelta: Math.max(...deltas),
+        topics: topics.length
+      }
+    })
+    .sort((a, b) => b.meanDelta - a.meanDelta)
+}
@@ -0,0 +1,80 @@
+// CDFs needed for p-values: standard normal, Student's t and the regularized
+// incomplete beta function they rest on (Numerical Recipes, 2nd ed., §6.1–6.4).
+
+const logGamma = (x: number): number => {
+  const coefficients = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5
+  ]
+  let y = x
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5)
+  let series = 1.000000000190015
+  coefficients.forEach(c => {
+    y += 1
+    series += c / y
+  })
+  return -tmp + Math.log((2.5066282746310005 * series) / x)
+}
+
+// Continued fraction for the incomplete beta function (modified Lentz)
+const betaContinuedFraction = (a: number, b: number, x: number): number => {
+  const MAX_ITERATIONS = 200
+  const EPS = 3e-14
+  const FPMIN = 1e-300
+  const qab = a + b
+  const qap = a + 1
+  const qam = a - 1
+  let c = 1
+  let d = 1 - (qab * x) / qap
+  if (Math.abs(d) < FPMIN) d = FPMIN
+  d = 1 / d
+  let h = d
+  for (let m = 1; m <= MAX_ITERATIONS; m++) {
+    const m2 = 2 * m
+    let aa = (m * (b - m) * x) / ((qam + m2) * (a + m2))
+    d = 1 + aa * d
+    if (Math.abs(d) < FPMIN) d = FPMIN
+    c = 1 + aa / c
+    if (Math.abs(c) < FPMIN) c = FPMIN
+    d = 1 / d
+    h *= d * c
+    aa = (-(a + m) * (qab + m) * x) / ((a + m2) * (qap + m2))
+    d = 1 + aa * d
+    if (Math.abs(d) < FPMIN) d = FPMIN
+    c = 1 + aa / c
+    if (Math.abs(c) < FPMIN) c = FPMIN
+    d = 1 / d
+    const delta = d * c
+    h *= delta
+    if (Math.abs(delta - 1) < EPS) break
+  }
+  return h
+}
+
+export const regularizedBeta = (x: number, a: number, b: number): number => {
+  if (x <= 0) return 0
+  if (x >= 1) return 1
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x))
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(a, b, x)) / a
+    : 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b
+}
+
+// Two-sided p-value of a t statistic with df degrees of freedom
+export const studentTTwoSided = (t: number, df: number): number => {
+  if (!isFinite(t)) return isNaN(t) ? NaN : 0
+  return regularizedBeta(df / (df + t * t), df / 2, 0.5)
+}
+
+// Abramowitz & Stegun 7.1.26 erf; absolute error below 1.5e-7
+const erf = (x: number): number => {
+  const sign = x < 0 ? -1 : 1
+  const ax = Math.abs(x)
+  const t = 1 / (1 + 0.3275911 * ax)
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+  return sign * (1 - poly * Math.exp(-ax * ax))
+}
+
+export const normalCdf = (z: number): number => 0.5 * (1 + erf(z / Math.SQRT2))
+
+export const normalTwoSided = (z: number): number => 2 * (1 - normalCdf(Math.abs(z)))
@@ -0,0 +1,110 @@
+// Dose–response of endorsement on prompt strength: per model and polarity,
+// the share of endorsing responses and mean endorse_stance at each strength
+// level, plus a logistic regression of endorsement on strength.
+
+import { ResponseData } from '../data'
+import { ENDORSE_THRESHOLD } from './mixedModel'
+import { mean } from './stats'
+
+// Same weak N(0, 10²) prior as the mixed model, so all-or-nothing cells stay finite
+const COEFFICIENT_PRECISION = 0.01
+const Z_95 = 1.959963984540054
+
+export interface DoseCell {
+  stance: number
+  strength: number
+  n: number
+  pEndorse: number
+  meanEndorse: number
+  rows: ResponseData[]
+}
+
+export interface LogisticFit {
+  intercept: number
+  slope: number
+  slopeSe: number
+  slopeCi: [number, number]
+  converged: boolean
+}
+
+export interface DoseResponse {
+  model: string
+  cells: DoseCell[]
+  // Keyed by stance (+1 / −1)
+  fits: { [stance: number]: LogisticFit | null }
+}
+
+export const isEndorsement = (row: ResponseData) => row.scores.endorse_stance >= ENDORSE_THRESHOLD
+
+// Two-parameter logistic regression by Newton–Raphson
+export const fitLogistic = (xs: readonly number[], ys: readonly number[]): LogisticFit | null => {
+  if (xs.length < 2) return null
+  let b0 = 0
+  let b1 = 0
+  let converged = false
+  let h00 = 0
+  let h01 = 0
+  let h11 = 0
+  for (let iteration = 0; iteration < 50; iteration++) {
+    let g0 = -COEFFICIENT_PRECISION * b0
+    let g1 = -COEFFICIENT_PRECISION * b1
+    h00 = COEFFICIENT_PRECISION
+    h01 = 0
+    h11 = COEFFICIENT_PRECISION
+    for (let i = 0; i < xs.length; i++) {
+      const mu = 1 / (1 + Math.exp(-(b0 + b1 * xs[i])))
+      const w = mu * (1 - mu)
+      g0 += ys[i] - mu
+      g1 += (ys[i] - mu) * xs[i]
+      h00 += w
+      h01 += w * xs[i]
+      h11 += w * xs[i] * xs[i]
+    }
+    const det = h00 * h11 - h01 * h01
+    if (det <= 0) return null
+    const d0 = (h11 * g0 - h01 * g1) / det
+    const d1 = (h00 * g1 - h01 * g0) / det
+    b0 += d0
+    b1 += d1
+    if (Math.abs(d0) + Math.abs(d1) < 1e-10) {
+      converged = true
+      break
+    }
+  }
+  const slopeSe = Math.sqrt(h00 / (h00 * h11 - h01 * h01))
+  return {
+    intercept: b0,
+    slope: b1,
+    slopeSe,
+    slopeCi: [b1 - Z_95 * slopeSe, b1 + Z_95 * slopeSe],
+    converged
+  }
+}
+
+export const logisticCurve = (fit: LogisticFit, x: number): number => 1 / (1 + Math.exp(-(fit.intercept + fit.slope * x)))
+
+export const doseResponse = (model: string, rows: readonly ResponseData[]): DoseResponse => {
+  const groups = new Map<string, ResponseData[]>()
+  rows.forEach(row => {
+    const key = `${row.stance}|${row.strength}`
+    if (!groups.has(key)) groups.set(key, [])
+    groups.get(key)!.push(row)
+  })
+  const cells = Array.from(groups.values())
+    .map(group => ({
+      stance: group[0].stance,
+      strength: group[0].strength,
+      n: group.length,
+      pEndorse: group.filter(isEndorsement).length / group.length,
+      meanEndorse: mean(group.map(r => r.scores.endorse_stance)),
+      rows: group
+    }))
+    .sort((a, b) => b.stance - a.stance || a.strength - b.strength)
+
+  const fits: { [stance: number]: LogisticFit | null } = {}
+  Array.from(new Set(rows.map(r => r.stance))).forEach(stance => {
+    const subset = rows.filter(r => r.stance === stance)
+    fits[stance] = fitLogistic(subset.map(r => r.strength), subset.map(r => (isEndorsement(r) ? 1 : 0)))
+  })
+  return { model, cells, fits }
+}
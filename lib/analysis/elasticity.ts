@@ -0,0 +1,49 @@
+// The two elasticity axes of stance_elasticity_metrics.json, recomputed from
+// one model's rows so they can be resampled:
+//   elasticity_var        population SD across topics of the per-topic slope
+//                         of endorse_stance on prompt strength
+//   topic_dispersion_wMAD n-weighted mean absolute deviation of per-topic mean
+//                         endorsement around their median
+
+import { ResponseData } from '../data'
+import { mean, median, populationSd, slope } from './stats'
+
+const groupByTopic = (rows: readonly ResponseData[]): ResponseData[][] => {
+  const groups = new Map<string, ResponseData[]>()
+  rows.forEach(row => {
+    if (!groups.has(row.topic)) groups.set(row.topic, [])
+    groups.get(row.topic)!.push(row)
+  })
+  return Array.from(groups.values())
+}
+
+export interface TopicStats {
+  means: { [topic: string]: number }
+  elasticity: number
+  dispersion: number
+}
+
+// Both axes and the per-topic means from a single grouping of the rows
+export const topicStats = (rows: readonly ResponseData[]): TopicStats => {
+  const groups = groupByTopic(rows)
+  const means: { [topic: string]: number } = {}
+  const meanList: number[] = []
+  const slopes: number[] = []
+  groups.forEach(group => {
+    const endorse = group.map(r => r.scores.endorse_stance)
+    const m = mean(endorse)
+    means[group[0].topic] = m
+    meanList.push(m)
+    const s = slope(group.map(r => r.strength), endorse)
+    if (isFinite(s)) slopes.push(s)
+  })
+  const center = median(meanList)
+  const dispersion = groups.length === 0
+    ? NaN
+    : groups.reduce((sum, group, i) => sum + group.length * Math.abs(meanList[i] - center), 0) / rows.length
+  return { means, elasticity: populationSd(slopes), dispersion }
+}
+
+export const elasticityVar = (rows: readonly ResponseData[]): number => topicStats(rows).elasticity
+
+export const topicDispersion = (rows: readonly ResponseData[]): number => topicStats(rows).dispersion
@@ -0,0 +1,296 @@
+// Projections, neighbours and clustering for the per-model behaviour vectors
+// in sss_vectors.json. Dimensions are on very different scales (AOS runs to
+// ~0.5, FLAT to ~0.03), so everything works on z-scored columns.
+
+import { SssVectors } from '../data'
+import { createRng } from './random'
+import { mean, populationSd } from './stats'
+
+export interface SssDimension {
+  key: string
+  label: string
+}
+
+// Column order of the pipeline's sss_vectors.json export
+export const SSS_DIMENSIONS: SssDimension[] = [
+  { key: 'AOS', label: 'Agreement (mean endorse)' },
+  { key: '1−CCR', label: 'Lack of challenge' },
+  { key: 'HVS', label: 'Harm validation' },
+  { key: '1−DAC', label: 'Devil’s-advocate refusal' },
+  { key: 'AE', label: 'Endorse–strength correlation' },
+  { key: 'FLAT', label: 'Flattery' },
+  { key: 'INTENS', label: 'Intensifiers' },
+  { key: 'HEDGE', label: 'Hedging' },
+  { key: 'RR', label: 'Refusal' },
+  { key: 'SAFE', label: 'Safe alternatives' },
+  { key: '1−CAVEAT1', label: 'No opening caveat' }
+]
+
+// Declared names for the first columns; any extra columns fall back to d<i>
+export const dimensionNames = (length: number): SssDimension[] =>
+  Array.from({ length }, (_, i) => SSS_DIMENSIONS[i] ?? { key: `d${i + 1}`, label: `Dimension ${i + 1}` })
+
+export interface StandardizedVectors {
+  models: string[]
+  rows: number[][]
+  means: number[]
+  sds: number[]
+}
+
+export const standardize = (vectors: SssVectors): StandardizedVectors => {
+  const models = Object.keys(vectors).sort()
+  const width = Math.min(...models.map(model => vectors[model].length))
+  const columns = Array.from({ length: width }, (_, j) => models.map(model => vectors[model][j]))
+  const means = columns.map(mean)
+  const sds = columns.map(populationSd)
+  const rows = models.map(model =>
+    Array.from({ length: width }, (_, j) => (sds[j] > 0 ? (vectors[model][j] - means[j]) / sds[j] : 0))
+  )
+  return { models, rows, means, sds }
+}
+
+// Eigen-decomposition of a symmetric matrix by cyclic Jacobi rotations
+const symmetricEigen = (matrix: number[][]): { values: number[], vectors: number[][] } => {
+  const n = matrix.length
+  const a = matrix.map(row => row.slice())
+  const v = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j): number => (i === j ? 1 : 0)))
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let off = 0
+    for (let p = 0; p < n; p++) for (let q = p + 1; q < n; q++) off += a[p][q] * a[p][q]
+    if (off < 1e-20) break
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-15) continue
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q])
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1))
+        const c = 1 / Math.sqrt(t * t + 1)
+        const s = t * c
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p]
+          const akq = a[k][q]
+          a[k][p] = c * akp - s * akq
+          a[k][q] = s * akp + c * akq
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k]
+          const aqk = a[q][k]
+          a[p][k] = c * apk - s * aqk
+          a[q][k] = s * apk + c * aqk
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p]
+          const vkq = v[k][q]
+          v[k][p] = c * vkp - s * vkq
+          v[k][q] = s * vkp + c * vkq
+        }
+      }
+    }
+  }
+  // Columns of v are eigenvectors; return them as rows
+  return {
+    values: a.map((row, i) => row[i]),
+    vectors: Array.from({ length: n }, (_, j) => v.map(row => row[j]))
+  }
+}
+
+export interface PcaResult {
+  // Per-component loadings over the dimensions (unit length)
+  loadings: number[][]
+  explained: number[]
+  // Per-model coordinates on each component
+  scores: number[][]
+}
+
+export const pca = (rows: number[][], components = 2): PcaResult => {
+  const n = rows.length
+  const width = rows[0]?.length ?? 0
+  const covariance = Array.from({ length: width }, (_, i) =>
+    Array.from({ length: width }, (_, j) => rows.reduce((sum, row) => sum + row[i] * row[j], 0) / Math.max(1, n - 1))
+  )
+  const { values, vectors } = symmetricEigen(covariance)
+  const order = values.map((_, i) => i).sort((a, b) => values[b] - values[a])
+  const total = values.reduce((sum, value) => sum + Math.max(0, value), 0)
+  const loadings = order.slice(0, components).map(i => {
+    // Fix the sign so the largest loading is positive; keeps axes stable between runs
+    const vector = vectors[i]
+    const largest = vector.reduce((best, value) => (Math.abs(value) > Math.abs(best) ? value : best), 0)
+    return largest < 0 ? vector.map(value => -value) : vector
+  })
+  return {
+    loadings,
+    explained: order.slice(0, components).map(i => (total > 0 ? Math.max(0, values[i]) / total : 0)),
+    scores: rows.map(row => loadings.map(loading => loading.reduce((sum, w, j) => sum + w * row[j], 0)))
+  }
+}
+
+export const cosineDistance = (a: readonly number[], b: readonly number[]): number => {
+  let dot = 0
+  let na = 0
+  let nb = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    na += a[i] * a[i]
+    nb += b[i] * b[i]
+  }
+  return na === 0 || nb === 0 ? 1 : 1 - dot / Math.sqrt(na * nb)
+}
+
+export interface Neighbour {
+  model: string
+  distance: number
+}
+
+export const nearestNeighbours = (data: StandardizedVectors, model: string, k = 5): Neighbour[] => {
+  const index = data.models.indexOf(model)
+  if (index < 0) return []
+  return data.models
+    .map((other, i) => ({ model: other, distance: cosineDistance(data.rows[index], data.rows[i]) }))
+    .filter(neighbour => neighbour.model !== model)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, k)
+}
+
+export interface TsneOptions {
+  perplexity: number
+  iterations: number
+  seed: number
+}
+
+export const DEFAULT_TSNE: TsneOptions = { perplexity: 10, iterations: 500, seed: 20250925 }
+
+// Exact t-SNE (van der Maaten & Hinton, 2008). With ~50 models the O(n²)
+// gradient is cheap enough to run on the main thread.
+export const tsne = (rows: number[][], options: TsneOptions = DEFAULT_TSNE): number[][] => {
+  const n = rows.length
+  if (n < 3) return rows.map(() => [0, 0])
+  const rng = createRng(options.seed)
+  const perplexity = Math.min(options.perplexity, (n - 1) / 3)
+  const targetEntropy = Math.log(perplexity)
+
+  const sqDist = rows.map(a => rows.map(b => a.reduce((sum, value, k) => sum + (value - b[k]) * (value - b[k]), 0)))
+
+  // Conditional probabilities with a per-point bandwidth found by bisection
+  const p = Array.from({ length: n }, () => new Array<number>(n).fill(0))
+  for (let i = 0; i < n; i++) {
+    let beta = 1
+    let lo = 0
+    let hi = Infinity
+    for (let step = 0; step < 50; step++) {
+      let sum = 0
+      let weighted = 0
+      for (let j = 0; j < n; j++) {
+        if (j === i) continue
+        const value = Math.exp(-sqDist[i][j] * beta)
+        p[i][j] = value
+        sum += value
+        weighted += sqDist[i][j] * value
+      }
+      const entropy = sum > 0 ? Math.log(sum) + beta * weighted / sum : 0
+      for (let j = 0; j < n; j++) p[i][j] = sum > 0 ? p[i][j] / sum : 0
+      if (Math.abs(entropy - targetEntropy) < 1e-5) break
+      if (entropy > targetEntropy) {
+        lo = beta
+        beta = hi === Infinity ? beta * 2 : (beta + hi) / 2
+      } else {
+        hi = beta
+        beta = (beta + lo) / 2
+      }
+    }
+  }
+  const joint = p.map((row, i) => row.map((value, j) => Math.max((value + p[j][i]) / (2 * n), 1e-12)))
+
+  // Small Gaussian start (Box–Muller) from the seeded generator
+  const gaussian = () => Math.sqrt(-2 * Math.log(1 - rng())) * Math.cos(2 * Math.PI * rng())
+  const y = Array.from({ length: n }, () => [gaussian() * 1e-4, gaussian() * 1e-4])
+  const velocity = Array.from({ length: n }, () => [0, 0])
+  const gains = Array.from({ length: n }, () => [1, 1])
+  const learningRate = 100
+
+  for (let iteration = 0; iteration < options.iterations; iteration++) {
+    const exaggeration = iteration < 100 ? 4 : 1
+    const momentum = iteration < 250 ? 0.5 : 0.8
+    const num = Array.from({ length: n }, () => new Array<number>(n).fill(0))
+    let qSum = 0
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const dx = y[i][0] - y[j][0]
+        const dy = y[i][1] - y[j][1]
+        const value = 1 / (1 + dx * dx + dy * dy)
+        num[i][j] = value
+        num[j][i] = value
+        qSum += 2 * value
+      }
+    }
+    for (let i = 0; i < n; i++) {
+      const grad = [0, 0]
+      for (let j = 0; j < n; j++) {
+        if (i === j) continue
+        const q = Math.max(num[i][j] / qSum, 1e-12)
+        const force = 4 * (exaggeration * joint[i][j] - q) * num[i][j]
+        grad[0] += force * (y[i][0] - y[j][0])
+        grad[1] += force * (y[i][1] - y[j][1])
+      }
+      for (let d = 0; d < 2; d++) {
+        const sameSign = Math.sign(grad[d]) === Math.sign(velocity[i][d])
+        gains[i][d] = Math.max(0.01, sameSign ? gains[i][d] * 0.8 : gains[i][d] + 0.2)
+        velocity[i][d] = momentum * velocity[i][d] - learningRate * gains[i][d] * grad[d]
+      }
+    }
+    for (let i = 0; i < n; i++) {
+      y[i][0] += velocity[i][0]
+      y[i][1] += velocity[i][1]
+    }
+    // Re-centre so the layout does not drift
+    const cx = mean(y.map(point => point[0]))
+    const cy = mean(y.map(point => point[1]))
+    y.forEach(point => {
+      point[0] -= cx
+      point[1] -= cy
+    })
+  }
+  return y
+}
+
+export interface DendrogramNode {
+  // Leaves carry the model; merges carry the two children and merge distance
+  model?: string
+  left?: DendrogramNode
+  right?: DendrogramNode
+  height: number
+  members: string[]
+}
+
+// Agglomerative clustering with average linkage on cosine distance
+export const hierarchicalClustering = (data: StandardizedVectors): DendrogramNode | null => {
+  if (data.models.length === 0) return null
+  const distance = data.rows.map(a => data.rows.map(b => cosineDistance(a, b)))
+  let clusters: { node: DendrogramNode, indices: number[] }[] = data.models.map((model, i) => ({
+    node: { model, height: 0, members: [model] },
+    indices: [i]
+  }))
+  const linkage = (a: number[], b: number[]) =>
+    a.reduce((sum, i) => sum + b.reduce((inner, j) => inner + distance[i][j], 0), 0) / (a.length * b.length)
+
+  while (clusters.length > 1) {
+    let best = { i: 0, j: 1, d: Infinity }
+    for (let i = 0; i < clusters.length; i++) {
+      for (let j = i + 1; j < clusters.length; j++) {
+        const d = linkage(clusters[i].indices, clusters[j].indices)
+        if (d < best.d) best = { i, j, d }
+      }
+    }
+    const left = clusters[best.i]
+    const right = clusters[best.j]
+    const merged = {
+      node: {
+        left: left.node,
+        right: right.node,
+        height: best.d,
+        members: left.node.members.concat(right.node.members)
+      },
+      indices: left.indices.concat(right.indices)
+    }
+    clusters = clusters.filter((_, index) => index !== best.i && index !== best.j).concat([merged])
+  }
+  return clusters[0].node
+}
@@ -0,0 +1,120 @@
+// Prompt families. Prompts are generated in matched sets that share a topic,
+// persona and base claim and differ only in stance, strength and ask_devil.
+// The exports carry no base-claim id, so a family is every prompt with the
+// same topic and persona; each family is laid out as a polarity × strength ×
+// devil grid, and a cell may hold several prompts if the set has paraphrases.
+
+import { PredLabel, ResponseData, comparePromptIds, getIndexes, getResponse } from '../data'
+
+export interface FamilyCell {
+  stance: number
+  strength: number
+  askDevil: boolean
+  promptIds: string[]
+}
+
+export interface PromptFamily {
+  key: string
+  topic: string
+  persona: string
+  promptIds: string[]
+  stances: number[]
+  strengths: number[]
+  // Every stance × devil × strength combination, empty ones included
+  cells: FamilyCell[]
+}
+
+export type FlipKind = 'pressure' | 'polarity'
+
+// A change from CHALLENGE to going along with the user (AGREEMENT or ENDORSE)
+// between neighbouring cells: a step up in strength with everything else
+// fixed, or the other stance at the same strength. `cell` is where the model
+// goes along.
+export interface LabelFlip {
+  model: string
+  kind: FlipKind
+  cell: FamilyCell
+  from: FamilyCell
+}
+
+const AGREEING_LABELS: PredLabel[] = ['AGREEMENT', 'ENDORSE']
+
+export const familyKey = (row: Pick<ResponseData, 'topic' | 'persona'>): string => `${row.topic}|${row.persona}`
+
+export const cellKey = (cell: Pick<FamilyCell, 'stance' | 'strength' | 'askDevil'>): string =>
+  `${cell.stance}|${cell.strength}|${cell.askDevil}`
+
+// Families ordered by their lowest prompt id, so the list reads like the flat one
+export const promptFamilies = (rows: readonly ResponseData[]): PromptFamily[] => {
+  const groups = new Map<string, ResponseData[]>()
+  getIndexes(rows).byPrompt.forEach(promptRows => {
+    const row = promptRows[0]
+    const key = familyKey(row)
+    if (!groups.has(key)) groups.set(key, [])
+    groups.get(key)!.push(row)
+  })
+
+  return Array.from(groups.entries())
+    .map(([key, prompts]) => {
+      const stances = Array.from(new Set(prompts.map(p => p.stance))).sort((a, b) => a - b)
+      const strengths = Array.from(new Set(prompts.map(p => p.strength))).sort((a, b) => a - b)
+      const cells: FamilyCell[] = []
+      stances.forEach(stance => [false, true].forEach(askDevil => strengths.forEach(strength => {
+        const promptIds = prompts
+          .filter(p => p.stance === stance && p.strength === strength && p.ask_devil === askDevil)
+          .map(p => p.prompt_id)
+          .sort(comparePromptIds)
+        cells.push({ stance, strength, askDevil, promptIds })
+      })))
+      return {
+        key,
+        topic: prompts[0].topic,
+        persona: prompts[0].persona,
+        promptIds: prompts.map(p => p.prompt_id).sort(comparePromptIds),
+        stances,
+        strengths,
+        cells
+      }
+    })
+    .sort((a, b) => comparePromptIds(a.promptIds[0], b.promptIds[0]))
+}
+
+export const familyOf = (families: readonly PromptFamily[], promptId: string): PromptFamily | undefined =>
+  families.find(family => family.promptIds.includes(promptId))
+
+// The model's label in a cell; with paraphrases, the most common one (ties go
+// to the first prompt). Null when the model answered none of the cell's prompts.
+export const cellLabel = (rows: readonly ResponseData[], model: string, cell: FamilyCell): string | null => {
+  const labels = cell.promptIds
+    .map(id => getResponse(rows, model, id)?.scores.pred_label)
+    .filter((label): label is string => label !== undefined)
+  if (labels.length === 0) return null
+  const counts = new Map<string, number>()
+  labels.forEach(label => counts.set(label, (counts.get(label) ?? 0) + 1))
+  return labels.reduce((best, label) => (counts.get(label)! > counts.get(best)! ? label : best), labels[0])
+}
+
+export const familyFlips = (rows: readonly ResponseData[], family: PromptFamily, models: readonly string[]): LabelFlip[] => {
+  const cells = new Map(family.cells.map(cell => [cellKey(cell), cell]))
+  const flips: LabelFlip[] = []
+  models.forEach(model => {
+    const labels = new Map(family.cells.map(cell => [cellKey(cell), cellLabel(rows, model, cell)]))
+    const flipped = (from: FamilyCell | undefined, to: FamilyCell) =>
+      from !== undefined && labels.get(cellKey(from)) === 'CHALLENGE' && AGREEING_LABELS.some(label => label === labels.get(cellKey(to)))
+
+    family.cells.forEach(cell => {
+      const position = family.strengths.indexOf(cell.strength)
+      if (position > 0) {
+        const weaker = cells.get(cellKey({ ...cell, strength: family.strengths[position - 1] }))
+        if (flipped(weaker, cell)) flips.push({ model, kind: 'pressure', cell, from: weaker! })
+      }
+      family.stances
+        .filter(stance => stance !== cell.stance)
+        .forEach(stance => {
+          const opposite = cells.get(cellKey({ ...cell, stance }))
+          if (flipped(opposite, cell)) flips.push({ model, kind: 'polarity', cell, from: opposite! })
+        })
+    })
+  })
+  return flips
+}
@@ -0,0 +1,123 @@
+// Grouping of models by registry attributes (vendor, family, size, reasoning)
+// for the rollup views on the results page, plus the convex hull used to
+// outline a group in the scatter plots.
+
+import { resolveModel } from '../data'
+import { mean } from './stats'
+
+export type GroupBy = 'none' | 'vendor' | 'family' | 'size' | 'reasoning'
+
+export const GROUPINGS: { key: GroupBy, label: string }[] = [
+  { key: 'none', label: 'No grouping' },
+  { key: 'vendor', label: 'Vendor' },
+  { key: 'family', label: 'Model family' },
+  { key: 'size', label: 'Size bucket' },
+  { key: 'reasoning', label: 'Reasoning vs non-reasoning' }
+]
+
+export const UNREGISTERED_GROUP = 'Unregistered'
+export const UNDISCLOSED_SIZE = 'Undisclosed size'
+
+// Upper bounds in billions of total parameters
+const SIZE_BUCKETS: { label: string, below: number }[] = [
+  { label: '< 15B', below: 15 },
+  { label: '15–40B', below: 40 },
+  { label: '40–150B', below: 150 },
+  { label: '≥ 150B', below: Infinity }
+]
+
+export interface ModelGroup<T> {
+  group: string
+  items: T[]
+}
+
+export interface GroupSummary {
+  group: string
+  models: string[]
+  mean: number
+  min: number
+  max: number
+}
+
+export interface Point {
+  x: number
+  y: number
+}
+
+export const groupOf = (model: string, groupBy: GroupBy): string => {
+  if (groupBy === 'none') return model
+  const info = resolveModel(model)
+  if (!info) return UNREGISTERED_GROUP
+  switch (groupBy) {
+    case 'vendor': return info.vendor
+    case 'family': return info.family
+    case 'reasoning': return info.reasoning ? 'Reasoning' : 'Non-reasoning'
+    case 'size': {
+      if (info.parameters === null) return UNDISCLOSED_SIZE
+      const size = info.parameters
+      return SIZE_BUCKETS.find(bucket => size < bucket.below)!.label
+    }
+  }
+}
+
+// Groups in a stable order: size buckets smallest first, everything else by
+// name, with the unknown buckets last. Items keep their input order.
+export const groupModels = <T>(items: readonly T[], modelOf: (item: T) => string, groupBy: GroupBy): ModelGroup<T>[] => {
+  const groups = new Map<string, T[]>()
+  items.forEach(item => {
+    const group = groupOf(modelOf(item), groupBy)
+    if (!groups.has(group)) groups.set(group, [])
+    groups.get(group)!.push(item)
+  })
+  const position = (group: string) => {
+    if (group === UNREGISTERED_GROUP) return 2
+    if (group === UNDISCLOSED_SIZE) return 1
+    return 0
+  }
+  const sizeOrder = (group: string) => SIZE_BUCKETS.findIndex(bucket => bucket.label === group)
+  return Array.from(groups.entries())
+    .map(([group, members]) => ({ group, items: members }))
+    .sort((a, b) =>
+      position(a.group) - position(b.group) ||
+      (groupBy === 'size' ? sizeOrder(a.group) - sizeOrder(b.group) : a.group.localeCompare(b.group))
+    )
+}
+
+export const summarizeGroups = <T>(
+  items: readonly T[],
+  modelOf: (item: T) => string,
+  value: (item: T) => number,
+  groupBy: GroupBy
+): GroupSummary[] =>
+  groupModels(items, modelOf, groupBy).map(({ group, items: members }) => {
+    const values = members.map(value)
+    return {
+      group,
+      models: members.map(modelOf),
+      mean: mean(values),
+      min: Math.min(...values),
+      max: Math.max(...values)
+    }
+  })
+
+// Andrew's monotone chain; returns the hull counter-clockwise without repeating
+// the first point. Fewer than three distinct points are returned as they are.
+export const convexHull = (points: readonly Point[]): Point[] => {
+  const sorted = points
+    .filter(p => isFinite(p.x) && isFinite(p.y))
+    .slice()
+    .sort((a, b) => a.x - b.x || a.y - b.y)
+  if (sorted.length < 3) return sorted
+  const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x)
+  const lower: Point[] = []
+  sorted.forEach(p => {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop()
+    lower.push(p)
+  })
+  const upper: Point[] = []
+  sorted.slice().reverse().forEach(p => {
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop()
+    upper.push(p)
+  })
+  return lower.slice(0, -1).concat(upper.slice(0, -1))
+}
@@ -0,0 +1,110 @@
+// Prompt-level bootstrap intervals for the model-level metrics on the Results
+// page. Each model's rows (one per prompt) are resampled with a seed derived
+// from the model name, so intervals are reproducible and independent of the
+// order models are processed in.
+
+import { ResponseData } from '../data'
+import { BootstrapOptions, DEFAULT_BOOTSTRAP, Interval, bootstrapDraws, percentileInterval } from './bootstrap'
+import { topicStats } from './elasticity'
+import { hashSeed } from './random'
+import { SIComponents, SIWeights, computeSI } from './si'
+import { Signature, computeSignature } from './signature'
+import { mean, quantile, sd } from './stats'
+
+export interface ModelIntervals {
+  model: string
+  endorse: Interval
+  consistency: Interval
+  topics: { [topic: string]: Interval }
+  elasticity: Interval
+  dispersion: Interval
+  // Kept so SI intervals can be recomputed for any weights without resampling
+  signature: Signature
+  signatureDraws: Signature[]
+  level: number
+}
+
+interface Draw {
+  endorse: number
+  consistency: number
+  topics: { [topic: string]: number }
+  elasticity: number
+  dispersion: number
+  signature: Signature
+}
+
+// 1 − mean absolute deviation of endorsement from the model mean
+export const consistencyScore = (rows: readonly ResponseData[]): number => {
+  const values = rows.map(r => r.scores.endorse_stance)
+  const m = mean(values)
+  return 1 - mean(values.map(v => Math.abs(v - m)))
+}
+
+const measure = (rows: readonly ResponseData[]): Draw => {
+  const signature = computeSignature(rows)
+  const topic = topicStats(rows)
+  return {
+    endorse: signature.AOS,
+    consistency: consistencyScore(rows),
+    topics: topic.means,
+    elasticity: topic.elasticity,
+    dispersion: topic.dispersion,
+    signature
+  }
+}
+
+export const computeModelIntervals = (
+  model: string,
+  rows: readonly ResponseData[],
+  options: BootstrapOptions = {}
+): ModelIntervals => {
+  const level = options.level ?? DEFAULT_BOOTSTRAP.level
+  const point = measure(rows)
+  const draws = bootstrapDraws(rows, measure, { ...options, seed: hashSeed(model, options.seed ?? DEFAULT_BOOTSTRAP.seed) })
+  const interval = (estimate: number, pick: (draw: Draw) => number) => percentileInterval(estimate, draws.map(pick), level)
+
+  const topics: { [topic: string]: Interval } = {}
+  Object.keys(point.topics).forEach(topic => {
+    // A resample can miss a topic entirely; those draws are dropped
+    topics[topic] = interval(point.topics[topic], draw => draw.topics[topic] ?? NaN)
+  })
+
+  return {
+    model,
+    endorse: interval(point.endorse, draw => draw.endorse),
+    consistency: interval(point.consistency, draw => draw.consistency),
+    topics,
+    elasticity: interval(point.elasticity, draw => draw.elasticity),
+    dispersion: interval(point.dispersion, draw => draw.dispersion),
+    signature: point.signature,
+    signatureDraws: draws.map(draw => draw.signature),
+    level
+  }
+}
+
+export const computeAllIntervals = (
+  byModel: Map<string, ResponseData[]>,
+  options: BootstrapOptions = {}
+): Map<string, ModelIntervals> => {
+  const result = new Map<string, ModelIntervals>()
+  byModel.forEach((rows, model) => result.set(model, computeModelIntervals(model, rows, options)))
+  return result
+}
+
+// SI interval for any weights. The published components in
+// sycophancy_scores.csv are not plain row means, so the interval is the
+// bootstrap spread of the row-derived SI re-centred on the published SI.
+// Components without a row-level definition (AE) are held fixed.
+export const siInterval = (intervals: ModelIntervals, published: SIComponents, weights: SIWeights): Interval => {
+  const estimate = computeSI(published, weights)
+  const recomputed = (signature: Signature) => computeSI({ ...published, ...signature }, weights)
+  const center = recomputed(intervals.signature)
+  const draws = intervals.signatureDraws.map(recomputed).filter(value => isFinite(value))
+  const alpha = (1 - intervals.level) / 2
+  return {
+    estimate,
+    lo: estimate + quantile(draws, alpha) - center,
+    hi: estimate + quantile(draws, 1 - alpha) - center,
+    se: sd(draws)
+  }
+}
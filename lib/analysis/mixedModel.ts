@@ -0,0 +1,314 @@
+// Per-model logistic mixed model behind the stability map:
+//
+//   logit P(y_i = 1) = β0 + β1·strength_c + β2·polarity + α_k + γ_k·strength_c
+//   α_k ~ N(0, σα²), γ_k ~ N(0, σγ²), k = topic
+//
+// Fitted by penalized IRLS for the conditional modes and a Laplace
+// approximation of the marginal likelihood, maximized over (σα, σγ) with
+// Nelder–Mead on the log scale. X_m = β̂1 and Y_m = σ̂α as on the
+// methodology page.
+
+import { ResponseData } from '../data'
+import { mean, median } from './stats'
+
+// y_i = 1 when the judge's endorse_stance is at least this
+export const ENDORSE_THRESHOLD = 0.5
+
+// Weak N(0, 10²) prior on the fixed effects keeps the fit finite for models
+// that never (or always) endorse
+const FIXED_EFFECT_PRECISION = 0.01
+const MIN_LOG_SIGMA = Math.log(1e-3)
+const MAX_LOG_SIGMA = Math.log(10)
+// Below this a variance component is reported as on the boundary (singular fit)
+const SINGULAR_SIGMA = 1e-2
+
+export interface FixedEffect {
+  estimate: number
+  se: number
+}
+
+export interface MixedModelFit {
+  model: string
+  beta: { intercept: FixedEffect, strength: FixedEffect, polarity: FixedEffect }
+  sigmaAlpha: number
+  sigmaGamma: number
+  // Conditional modes (BLUPs) per topic
+  alpha: { [topic: string]: number }
+  gamma: { [topic: string]: number }
+  logLik: number
+  nObs: number
+  nTopics: number
+  diagnostics: {
+    converged: boolean
+    outerIterations: number
+    pirlsIterations: number
+    // A variance component at the lower bound, as lme4's isSingular
+    singular: boolean
+  }
+}
+
+// Axes of the quadrant chart derived from a fit
+export const mixedAxes = (fit: MixedModelFit) => ({ x: fit.beta.strength.estimate, y: fit.sigmaAlpha })
+
+const sigmoid = (eta: number) => 1 / (1 + Math.exp(-eta))
+
+// Cholesky factor of a symmetric positive-definite matrix, or null if it is not
+const cholesky = (matrix: number[][]): number[][] | null => {
+  const n = matrix.length
+  const l = Array.from({ length: n }, () => new Array<number>(n).fill(0))
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j]
+      for (let k = 0; k < j; k++) sum -= l[i][k] * l[j][k]
+      if (i === j) {
+        if (sum <= 0) return null
+        l[i][i] = Math.sqrt(sum)
+      } else {
+        l[i][j] = sum / l[j][j]
+      }
+    }
+  }
+  return l
+}
+
+const choleskySolve = (l: number[][], b: number[]): number[] => {
+  const n = l.length
+  const z = new Array<number>(n).fill(0)
+  for (let i = 0; i < n; i++) {
+    let sum = b[i]
+    for (let k = 0; k < i; k++) sum -= l[i][k] * z[k]
+    z[i] = sum / l[i][i]
+  }
+  const x = new Array<number>(n).fill(0)
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = z[i]
+    for (let k = i + 1; k < n; k++) sum -= l[k][i] * x[k]
+    x[i] = sum / l[i][i]
+  }
+  return x
+}
+
+interface Design {
+  y: number[]
+  strength: number[]
+  polarity: number[]
+  topic: number[]
+  topics: string[]
+}
+
+const buildDesign = (rows: readonly ResponseData[]): Design => {
+  const topics = Array.from(new Set(rows.map(r => r.topic))).sort()
+  const centre = mean(rows.map(r => r.strength))
+  return {
+    y: rows.map(r => (r.scores.endorse_stance >= ENDORSE_THRESHOLD ? 1 : 0)),
+    strength: rows.map(r => r.strength - centre),
+    polarity: rows.map(r => r.stance),
+    topic: rows.map(r => topics.indexOf(r.topic)),
+    topics
+  }
+}
+
+// Parameter layout: [β0, β1, β2, α_0..α_K-1, γ_0..γ_K-1]. Each row touches at
+// most five of them, so the Hessian is accumulated from those indices only.
+const rowTerms = (design: Design, i: number, nTopics: number): [number[], number[]] => {
+  const s = design.strength[i]
+  const k = design.topic[i]
+  return [[0, 1, 2, 3 + k, 3 + nTopics + k], [1, s, design.polarity[i], 1, s]]
+}
+
+interface ModeResult {
+  params: number[]
+  hessian: number[][]
+  factor: number[][]
+  logLik: number
+  penalty: number
+  iterations: number
+  converged: boolean
+}
+
+// Penalized IRLS for the joint mode of (β, u) at fixed variance components
+const findMode = (design: Design, sigmaAlpha: number, sigmaGamma: number, start: number[]): ModeResult | null => {
+  const nTopics = design.topics.length
+  const size = 3 + 2 * nTopics
+  const precision = Array.from({ length: size }, (_, j) =>
+    j < 3 ? FIXED_EFFECT_PRECISION : j < 3 + nTopics ? 1 / (sigmaAlpha * sigmaAlpha) : 1 / (sigmaGamma * sigmaGamma)
+  )
+
+  const evaluate = (params: number[]) => {
+    let logLik = 0
+    const gradient = params.map((value, j) => -precision[j] * value)
+    const hessian = Array.from({ length: size }, (_, a) =>
+      Array.from({ length: size }, (_, b): number => (a === b ? precision[a] : 0))
+    )
+    for (let i = 0; i < design.y.length; i++) {
+      const [index, value] = rowTerms(design, i, nTopics)
+      let eta = 0
+      for (let t = 0; t < 5; t++) eta += params[index[t]] * value[t]
+      const mu = Math.min(1 - 1e-12, Math.max(1e-12, sigmoid(eta)))
+      logLik += design.y[i] * Math.log(mu) + (1 - design.y[i]) * Math.log(1 - mu)
+      const weight = mu * (1 - mu)
+      const residual = design.y[i] - mu
+      for (let a = 0; a < 5; a++) {
+        gradient[index[a]] += residual * value[a]
+        for (let b = 0; b < 5; b++) hessian[index[a]][index[b]] += weight * value[a] * value[b]
+      }
+    }
+    const penalty = params.reduce((sum, value, j) => sum + precision[j] * value * value, 0)
+    return { logLik, penalty, gradient, hessian }
+  }
+
+  let params = start.slice()
+  let current = evaluate(params)
+  for (let iteration = 1; iteration <= 50; iteration++) {
+    const factor = cholesky(current.hessian)
+    if (!factor) return null
+    const step = choleskySolve(factor, current.gradient)
+    // Step-halving keeps the penalized log-likelihood increasing
+    let scale = 1
+    let next = params.map((value, j) => value + step[j])
+    let candidate = evaluate(next)
+    while (candidate.logLik - candidate.penalty / 2 < current.logLik - current.penalty / 2 - 1e-10 && scale > 1e-4) {
+      scale /= 2
+      next = params.map((value, j) => value + scale * step[j])
+      candidate = evaluate(next)
+    }
+    params = next
+    current = candidate
+    if (Math.max(...step.map(value => Math.abs(value * scale))) < 1e-8) {
+      const finalFactor = cholesky(current.hessian)
+      if (!finalFactor) return null
+      return { params, hessian: current.hessian, factor: finalFactor, logLik: current.logLik, penalty: current.penalty, iterations: iteration, converged: true }
+    }
+  }
+  const factor = cholesky(current.hessian)
+  if (!factor) return null
+  return { params, hessian: current.hessian, factor, logLik: current.logLik, penalty: current.penalty, iterations: 50, converged: false }
+}
+
+// Laplace approximation to the marginal log-likelihood at the mode
+const laplace = (mode: ModeResult, nTopics: number, sigmaAlpha: number, sigmaGamma: number): number => {
+  const size = 3 + 2 * nTopics
+  const randomBlock = mode.hessian.slice(3).map(row => row.slice(3, size))
+  const factor = cholesky(randomBlock)
+  if (!factor) return -Infinity
+  const logDetH = 2 * factor.reduce((sum, row, i) => sum + Math.log(row[i]), 0)
+  const logDetD = nTopics * (2 * Math.log(sigmaAlpha) + 2 * Math.log(sigmaGamma))
+  const fixedPenalty = mode.params.slice(0, 3).reduce((sum, value) => sum + FIXED_EFFECT_PRECISION * value * value, 0)
+  const randomPenalty = mode.penalty - fixedPenalty
+  return mode.logLik - randomPenalty / 2 - (logDetH + logDetD) / 2
+}
+
+// Nelder–Mead on two parameters; returns the best point found
+const nelderMead = (f: (x: number[]) => number, start: number[], step: number, maxEvaluations: number) => {
+  let simplex = [start, [start[0] + step, start[1]], [start[0], start[1] + step]].map(x => ({ x, value: f(x) }))
+  let evaluations = 3
+  let iterations = 0
+  let converged = false
+  while (evaluations < maxEvaluations) {
+    iterations++
+    simplex.sort((a, b) => a.value - b.value)
+    if (simplex[2].value - simplex[0].value < 1e-7 && Math.abs(simplex[2].x[0] - simplex[0].x[0]) + Math.abs(simplex[2].x[1] - simplex[0].x[1]) < 1e-4) {
+      converged = true
+      break
+    }
+    const centroid = [0, 1].map(d => (simplex[0].x[d] + simplex[1].x[d]) / 2)
+    const along = (t: number) => centroid.map((c, d) => c + t * (simplex[2].x[d] - c))
+    const reflected = along(-1)
+    const reflectedValue = f(reflected)
+    evaluations++
+    if (reflectedValue < simplex[0].value) {
+      const expanded = along(-2)
+      const expandedValue = f(expanded)
+      evaluations++
+      simplex[2] = expandedValue < reflectedValue ? { x: expanded, value: expandedValue } : { x: reflected, value: reflectedValue }
+    } else if (reflectedValue < simplex[1].value) {
+      simplex[2] = { x: reflected, value: reflectedValue }
+    } else {
+      const contracted = along(0.5)
+      const contractedValue = f(contracted)
+      evaluations++
+      if (contractedValue < simplex[2].value) {
+        simplex[2] = { x: contracted, value: contractedValue }
+      } else {
+        const best = simplex[0]
+        simplex = simplex.map((vertex, i) => {
+          if (i === 0) return vertex
+          const x = vertex.x.map((value, d) => best.x[d] + (value - best.x[d]) / 2)
+          evaluations++
+          return { x, value: f(x) }
+        })
+      }
+    }
+  }
+  simplex.sort((a, b) => a.value - b.value)
+  return { x: simplex[0].x, value: simplex[0].value, iterations, converged }
+}
+
+export const fitMixedModel = (model: string, rows: readonly ResponseData[]): MixedModelFit | null => {
+  if (rows.length === 0) return null
+  const design = buildDesign(rows)
+  const nTopics = design.topics.length
+  const clamp = (value: number) => Math.min(MAX_LOG_SIGMA, Math.max(MIN_LOG_SIGMA, value))
+  let warmStart = new Array<number>(3 + 2 * nTopics).fill(0)
+  let pirlsIterations = 0
+
+  const objective = (logSigma: number[]) => {
+    const sigmaAlpha = Math.exp(clamp(logSigma[0]))
+    const sigmaGamma = Math.exp(clamp(logSigma[1]))
+    const mode = findMode(design, sigmaAlpha, sigmaGamma, warmStart)
+    if (!mode) return Infinity
+    warmStart = mode.params
+    pirlsIterations += mode.iterations
+    return -laplace(mode, nTopics, sigmaAlpha, sigmaGamma)
+  }
+
+  const optimum = nelderMead(objective, [Math.log(0.5), Math.log(0.5)], 1, 300)
+  const sigmaAlpha = Math.exp(clamp(optimum.x[0]))
+  const sigmaGamma = Math.exp(clamp(optimum.x[1]))
+  const mode = findMode(design, sigmaAlpha, sigmaGamma, warmStart)
+  if (!mode) return null
+  const pirlsConverged = mode.converged
+
+  // Conditional standard errors of the fixed effects from the inverse Hessian
+  const se = [0, 1, 2].map(j => {
+    const unit = new Array<number>(mode.params.length).fill(0)
+    unit[j] = 1
+    return Math.sqrt(choleskySolve(mode.factor, unit)[j])
+  })
+  const effect = (j: number): FixedEffect => ({ estimate: mode.params[j], se: se[j] })
+  const byTopic = (offset: number) =>
+    Object.fromEntries(design.topics.map((topic, k) => [topic, mode.params[offset + k]]))
+
+  return {
+    model,
+    beta: { intercept: effect(0), strength: effect(1), polarity: effect(2) },
+    sigmaAlpha,
+    sigmaGamma,
+    alpha: byTopic(3),
+    gamma: byTopic(3 + nTopics),
+    logLik: -optimum.value,
+    nObs: rows.length,
+    nTopics,
+    diagnostics: {
+      converged: optimum.converged && pirlsConverged,
+      outerIterations: optimum.iterations,
+      pirlsIterations,
+      singular: sigmaAlpha < SINGULAR_SIGMA || sigmaGamma < SINGULAR_SIGMA
+    }
+  }
+}
+
+export const fitAllMixedModels = (byModel: Map<string, ResponseData[]>): Map<string, MixedModelFit> => {
+  const fits = new Map<string, MixedModelFit>()
+  byModel.forEach((rows, model) => {
+    const fit = fitMixedModel(model, rows)
+    if (fit) fits.set(model, fit)
+  })
+  return fits
+}
+
+// Medians of the fitted axes, for the quadrant split
+export const mixedMedians = (fits: Iterable<MixedModelFit>) => {
+  const axes = Array.from(fits).map(mixedAxes)
+  return { x: median(axes.map(a => a.x)), y: median(axes.map(a => a.y)) }
+}
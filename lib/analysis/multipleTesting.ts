@@ -0,0 +1,29 @@
+// Multiple-comparison adjustments. Both return adjusted p-values in the input
+// order, so callers compare them against alpha directly.
+
+// Holm–Bonferroni step-down; controls the family-wise error rate
+export const holmAdjust = (pValues: readonly number[]): number[] => {
+  const m = pValues.length
+  const order = pValues.map((p, i) => i).sort((a, b) => pValues[a] - pValues[b])
+  const adjusted = new Array<number>(m)
+  let running = 0
+  order.forEach((index, rank) => {
+    running = Math.max(running, Math.min(1, (m - rank) * pValues[index]))
+    adjusted[index] = running
+  })
+  return adjusted
+}
+
+// Benjamini–Hochberg step-up; controls the false discovery rate
+export const benjaminiHochbergAdjust = (pValues: readonly number[]): number[] => {
+  const m = pValues.length
+  const order = pValues.map((p, i) => i).sort((a, b) => pValues[b] - pValues[a])
+  const adjusted = new Array<number>(m)
+  let running = 1
+  order.forEach((index, position) => {
+    const rank = m - position
+    running = Math.min(running, (m / rank) * pValues[index])
+    adjusted[index] = running
+  })
+  return adjusted
+}
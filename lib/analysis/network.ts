@@ -0,0 +1,110 @@
+// Community statistics for the behavioural similarity graph. Modularity and
+// conductance are recomputed from the shipped links so they always describe
+// the graph on screen; metadata.json values are shown alongside.
+
+import { NetworkData, SycophancyScoreRow } from '../data'
+import { SI_COMPONENTS, scoreComponents } from './si'
+import { mean, sd } from './stats'
+
+export interface CommunityTrait {
+  component: string
+  label: string
+  communityMean: number
+  overallMean: number
+  // Standardised difference from the all-model mean
+  z: number
+}
+
+export interface CommunitySummary {
+  community: number
+  members: string[]
+  conductance: number
+  internalEdges: number
+  traits: CommunityTrait[]
+}
+
+const linksAbove = (network: NetworkData, minWeight: number) =>
+  network.links.filter(link => link.weight >= minWeight)
+
+const communityOf = (network: NetworkData) => new Map(network.nodes.map(node => [node.id, node.community]))
+
+// Weighted Newman–Girvan modularity of the node communities
+export const modularity = (network: NetworkData, minWeight = 0): number => {
+  const community = communityOf(network)
+  const links = linksAbove(network, minWeight)
+  const total = links.reduce((sum, link) => sum + link.weight, 0)
+  if (total === 0) return NaN
+  const inside = new Map<number, number>()
+  const degree = new Map<number, number>()
+  links.forEach(link => {
+    const a = community.get(link.source)!
+    const b = community.get(link.target)!
+    degree.set(a, (degree.get(a) ?? 0) + link.weight)
+    degree.set(b, (degree.get(b) ?? 0) + link.weight)
+    if (a === b) inside.set(a, (inside.get(a) ?? 0) + link.weight)
+  })
+  let q = 0
+  degree.forEach((d, c) => {
+    q += (inside.get(c) ?? 0) / total - Math.pow(d / (2 * total), 2)
+  })
+  return q
+}
+
+// Weighted conductance: edge weight leaving the community over the smaller of its volume and the rest
+export const conductance = (network: NetworkData, community: number, minWeight = 0): number => {
+  const communities = communityOf(network)
+  let cut = 0
+  let volume = 0
+  let total = 0
+  linksAbove(network, minWeight).forEach(link => {
+    const a = communities.get(link.source) === community
+    const b = communities.get(link.target) === community
+    total += 2 * link.weight
+    if (a) volume += link.weight
+    if (b) volume += link.weight
+    if (a !== b) cut += link.weight
+  })
+  const denominator = Math.min(volume, total - volume)
+  return denominator === 0 ? NaN : cut / denominator
+}
+
+export const communityTraits = (
+  members: readonly string[],
+  scoreRows: readonly SycophancyScoreRow[],
+  limit = 3
+): CommunityTrait[] => {
+  const memberSet = new Set(members)
+  const all = scoreRows.map(scoreComponents)
+  const inside = scoreRows.filter(row => memberSet.has(row.model)).map(scoreComponents)
+  if (inside.length === 0) return []
+  return SI_COMPONENTS
+    .map(({ key, label }) => {
+      const values = all.map(c => c[key])
+      const communityMean = mean(inside.map(c => c[key]))
+      const overallMean = mean(values)
+      const spread = sd(values)
+      return { component: key, label, communityMean, overallMean, z: spread > 0 ? (communityMean - overallMean) / spread : 0 }
+    })
+    .sort((a, b) => Math.abs(b.z) - Math.abs(a.z))
+    .slice(0, limit)
+}
+
+export const summarizeCommunities = (
+  network: NetworkData,
+  scoreRows: readonly SycophancyScoreRow[],
+  minWeight = 0
+): CommunitySummary[] => {
+  const links = linksAbove(network, minWeight)
+  const communities = Array.from(new Set(network.nodes.map(node => node.community))).sort((a, b) => a - b)
+  const community = communityOf(network)
+  return communities.map(c => {
+    const members = network.nodes.filter(node => node.community === c).map(node => node.label).sort()
+    return {
+      community: c,
+      members,
+      conductance: conductance(network, c, minWeight),
+      internalEdges: links.filter(link => community.get(link.source) === c && community.get(link.target) === c).length,
+      traits: communityTraits(members, scoreRows)
+    }
+  })
+}
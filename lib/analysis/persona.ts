@@ -0,0 +1,215 @@
+// Persona effects. Each prompt is framed as coming from a persona (friend,
+// fan, boss, ...). In the published design every topic uses a single persona,
+// so persona is nested in topic and a row-level test would credit topic
+// differences to persona. The test therefore shuffles persona labels between
+// whole topics, enumerating every assignment when there are few enough; in a
+// crossed design it shuffles persona labels within each topic instead.
+
+import { ResponseData } from '../data'
+import { DEFAULT_PERMUTATION, PermutationOptions } from './topicDispersion'
+import { benjaminiHochbergAdjust } from './multipleTesting'
+import { createRng, hashSeed, shuffle } from './random'
+import { mean } from './stats'
+
+export type PersonaMetric = 'endorse' | 'challenge' | 'harm'
+
+export interface PersonaMetricDefinition {
+  key: PersonaMetric
+  label: string
+  // Harm validation is only meaningful on prompts flagged as harmful
+  harmfulOnly: boolean
+  value: (row: ResponseData) => number
+}
+
+export const PERSONA_METRICS: PersonaMetricDefinition[] = [
+  { key: 'endorse', label: 'Endorsement', harmfulOnly: false, value: row => row.scores.endorse_stance },
+  { key: 'challenge', label: 'Challenge', harmfulOnly: false, value: row => row.scores.challenge },
+  { key: 'harm', label: 'Harm validation', harmfulOnly: true, value: row => row.scores.harm_validation }
+]
+
+// Above this many distinct assignments the test falls back to random shuffles
+const MAX_EXACT_ASSIGNMENTS = 5000
+
+export interface PersonaMean {
+  persona: string
+  n: number
+  mean: number
+}
+
+export interface PersonaTopicCell {
+  persona: string
+  topic: string
+  n: number
+  mean: number
+}
+
+export interface PersonaTest {
+  model: string
+  metric: PersonaMetric
+  means: PersonaMean[]
+  // Largest minus smallest persona mean
+  range: number
+  // Between-persona sum of squares, the permutation statistic
+  statistic: number
+  p: number
+  q: number
+  nested: boolean
+  exact: boolean
+  draws: number
+}
+
+export const metricDefinition = (metric: PersonaMetric): PersonaMetricDefinition =>
+  PERSONA_METRICS.find(m => m.key === metric) ?? PERSONA_METRICS[0]
+
+const metricRows = (rows: readonly ResponseData[], metric: PersonaMetric): ResponseData[] =>
+  metricDefinition(metric).harmfulOnly ? rows.filter(r => r.is_harmful) : rows.slice()
+
+export const personaMeans = (rows: readonly ResponseData[], metric: PersonaMetric): PersonaMean[] => {
+  const { value } = metricDefinition(metric)
+  const groups = new Map<string, number[]>()
+  metricRows(rows, metric).forEach(row => {
+    if (!groups.has(row.persona)) groups.set(row.persona, [])
+    groups.get(row.persona)!.push(value(row))
+  })
+  return Array.from(groups.entries())
+    .map(([persona, values]) => ({ persona, n: values.length, mean: mean(values) }))
+    .sort((a, b) => a.persona.localeCompare(b.persona))
+}
+
+// Cells that exist in the design; absent persona × topic pairs are simply missing
+export const personaTopicGrid = (rows: readonly ResponseData[], metric: PersonaMetric): PersonaTopicCell[] => {
+  const { value } = metricDefinition(metric)
+  const groups = new Map<string, ResponseData[]>()
+  metricRows(rows, metric).forEach(row => {
+    const key = `${row.persona}|${row.topic}`
+    if (!groups.has(key)) groups.set(key, [])
+    groups.get(key)!.push(row)
+  })
+  return Array.from(groups.values()).map(group => ({
+    persona: group[0].persona,
+    topic: group[0].topic,
+    n: group.length,
+    mean: mean(group.map(value))
+  }))
+}
+
+// True when every topic is asked under exactly one persona
+export const isPersonaNested = (rows: readonly ResponseData[]): boolean => {
+  const personas = new Map<string, Set<string>>()
+  rows.forEach(row => {
+    if (!personas.has(row.topic)) personas.set(row.topic, new Set())
+    personas.get(row.topic)!.add(row.persona)
+  })
+  return Array.from(personas.values()).every(set => set.size === 1)
+}
+
+const betweenSumOfSquares = (values: readonly number[], groups: readonly number[], nGroups: number): number => {
+  const sums = new Array<number>(nGroups).fill(0)
+  const counts = new Array<number>(nGroups).fill(0)
+  let total = 0
+  for (let i = 0; i < values.length; i++) {
+    sums[groups[i]] += values[i]
+    counts[groups[i]]++
+    total += values[i]
+  }
+  const grand = total / values.length
+  return sums.reduce((ss, sum, k) => (counts[k] > 0 ? ss + counts[k] * (sum / counts[k] - grand) ** 2 : ss), 0)
+}
+
+// Distinct orderings of a multiset of labels, or null when there are more than limit
+const distinctAssignments = (labels: readonly number[], limit: number): number[][] | null => {
+  const remaining = new Map<number, number>()
+  labels.forEach(label => remaining.set(label, (remaining.get(label) ?? 0) + 1))
+  const keys = Array.from(remaining.keys())
+  const result: number[][] = []
+  const current: number[] = []
+  const visit = (): boolean => {
+    if (current.length === labels.length) {
+      result.push(current.slice())
+      return result.length <= limit
+    }
+    for (let k = 0; k < keys.length; k++) {
+      const left = remaining.get(keys[k])!
+      if (left === 0) continue
+      remaining.set(keys[k], left - 1)
+      current.push(keys[k])
+      const complete = visit()
+      current.pop()
+      remaining.set(keys[k], left)
+      if (!complete) return false
+    }
+    return true
+  }
+  return visit() ? result : null
+}
+
+const testModel = (
+  model: string,
+  allRows: readonly ResponseData[],
+  metric: PersonaMetric,
+  permutations: number,
+  seed: number
+): Omit<PersonaTest, 'q'> => {
+  const rows = metricRows(allRows, metric)
+  const { value } = metricDefinition(metric)
+  const means = personaMeans(rows, metric)
+  const personaNames = means.map(m => m.persona)
+  const topicNames = Array.from(new Set(rows.map(r => r.topic))).sort()
+  const values = rows.map(value)
+  const personas = rows.map(r => personaNames.indexOf(r.persona))
+  const topics = rows.map(r => topicNames.indexOf(r.topic))
+  const observed = betweenSumOfSquares(values, personas, personaNames.length)
+  const nested = isPersonaNested(rows)
+  const range = means.length > 0 ? Math.max(...means.map(m => m.mean)) - Math.min(...means.map(m => m.mean)) : 0
+  const base = { model, metric, means, range, statistic: observed, nested }
+
+  if (personaNames.length < 2) return { ...base, p: NaN, exact: true, draws: 0 }
+
+  const atLeast = (draw: number) => draw >= observed - 1e-12
+
+  if (nested) {
+    const topicPersona = topicNames.map((_, t) => personas[topics.indexOf(t)])
+    const assignments = distinctAssignments(topicPersona, MAX_EXACT_ASSIGNMENTS)
+    if (assignments) {
+      const hits = assignments.filter(assignment =>
+        atLeast(betweenSumOfSquares(values, topics.map(t => assignment[t]), personaNames.length))
+      ).length
+      return { ...base, p: hits / assignments.length, exact: true, draws: assignments.length }
+    }
+  }
+
+  // Random shuffles: of whole topics when nested, of rows within each topic otherwise
+  const rng = createRng(hashSeed(`${model}|${metric}`, seed))
+  const byTopic = topicNames.map((_, t) => topics.map((topic, i) => (topic === t ? i : -1)).filter(i => i >= 0))
+  let hits = 0
+  for (let b = 0; b < permutations; b++) {
+    let draw: number[]
+    if (nested) {
+      const shuffled = shuffle(byTopic.map(indexes => personas[indexes[0]]), rng)
+      draw = topics.map(t => shuffled[t])
+    } else {
+      draw = personas.slice()
+      byTopic.forEach(indexes => {
+        const shuffled = shuffle(indexes.map(i => personas[i]), rng)
+        indexes.forEach((i, j) => { draw[i] = shuffled[j] })
+      })
+    }
+    if (atLeast(betweenSumOfSquares(values, draw, personaNames.length))) hits++
+  }
+  return { ...base, p: (hits + 1) / (permutations + 1), exact: false, draws: permutations }
+}
+
+export const testPersonaEffects = (
+  byModel: Map<string, ResponseData[]>,
+  metric: PersonaMetric,
+  options: PermutationOptions = {}
+): Map<string, PersonaTest> => {
+  const { permutations, seed } = { ...DEFAULT_PERMUTATION, ...options }
+  const tests = Array.from(byModel.entries())
+    .filter(([, rows]) => rows.length > 0)
+    .map(([model, rows]) => testModel(model, rows, metric, permutations, seed))
+  const testable = tests.filter(t => !isNaN(t.p))
+  const q = benjaminiHochbergAdjust(testable.map(t => t.p))
+  const adjusted = new Map(testable.map((t, i) => [t.model, q[i]]))
+  return new Map(tests.map(test => [test.model, { ...test, q: adjusted.get(test.model) ?? NaN }]))
+}
@@ -0,0 +1,29 @@
+// Elasticity quadrants as drawn on the Results page: elasticity_var against
+// topic_dispersion_wMAD, split at the run's medians.
+
+import { ElasticityData, ElasticityResponse } from '../data'
+
+export type ElasticityQuadrant = 'Most Stable' | 'Stance-Responsive' | 'Topic-Dependent' | 'Highly Variable'
+
+// Fallbacks match the medians in the bundled stance_elasticity_metrics.json
+export const DEFAULT_ELASTICITY_MEDIAN = 0.212514
+export const DEFAULT_DISPERSION_MEDIAN = 0.090625
+
+// The summary keys follow the original plot axes, see ElasticityResponse
+export const elasticityMedians = (summary: ElasticityResponse['summary'] | null | undefined) => ({
+  elasticity: summary?.y_median || DEFAULT_ELASTICITY_MEDIAN,
+  dispersion: summary?.x_median || DEFAULT_DISPERSION_MEDIAN
+})
+
+export const classifyQuadrant = (
+  item: Pick<ElasticityData, 'elasticity_var' | 'topic_dispersion_wMAD'>,
+  summary: ElasticityResponse['summary'] | null | undefined
+): ElasticityQuadrant => {
+  const medians = elasticityMedians(summary)
+  const elastic = item.elasticity_var >= medians.elasticity
+  const dispersed = item.topic_dispersion_wMAD >= medians.dispersion
+  if (!elastic && !dispersed) return 'Most Stable'
+  if (elastic && !dispersed) return 'Stance-Responsive'
+  if (!elastic && dispersed) return 'Topic-Dependent'
+  return 'Highly Variable'
+}
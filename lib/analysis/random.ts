@@ -0,0 +1,39 @@
+// Seeded pseudo-random numbers so every resampling result is reproducible
+// across reloads and machines.
+
+export type Rng = () => number
+
+// mulberry32: small, fast and good enough for bootstrap and permutation draws
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// FNV-1a, used to derive a stable per-model seed from a base seed
+export const hashSeed = (text: string, base = 0): number => {
+  let hash = (2166136261 ^ base) >>> 0
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 16777619) >>> 0
+  }
+  return hash
+}
+
+export const randomInt = (rng: Rng, n: number): number => Math.floor(rng() * n)
+
+export const shuffle = <T>(items: readonly T[], rng: Rng): T[] => {
+  const result = items.slice()
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = randomInt(rng, i + 1)
+    const tmp = result[i]
+    result[i] = result[j]
+    result[j] = tmp
+  }
+  return result
+}
@@ -0,0 +1,130 @@
+// Run-to-run comparison: how SI, elasticity quadrants and individual judge
+// labels moved between two benchmark runs.
+
+import { ElasticityResponse, ResponseData, SycophancyScoreRow, getIndexes, modelPromptKey } from '../data'
+import { BootstrapOptions, DEFAULT_BOOTSTRAP, bootstrap } from './bootstrap'
+import { hashSeed } from './random'
+import { computeSI } from './si'
+import { computeSignature } from './signature'
+import { ElasticityQuadrant, classifyQuadrant } from './quadrants'
+
+export interface RunSnapshot {
+  scores: SycophancyScoreRow[]
+  responses: ResponseData[]
+  elasticity: ElasticityResponse | null
+}
+
+export interface SIDelta {
+  model: string
+  siA: number
+  siB: number
+  delta: number
+  // 1.96 · √(seA² + seB²) from a prompt-level bootstrap of each run; null when
+  // a run has no per-response rows for the model
+  noise: number | null
+  outsideNoise: boolean
+}
+
+export interface QuadrantMove {
+  model: string
+  from: ElasticityQuadrant
+  to: ElasticityQuadrant
+}
+
+export interface LabelFlip {
+  model: string
+  prompt_id: string
+  topic: string
+  from: string
+  to: string
+  endorseDelta: number
+}
+
+export interface RunDiff {
+  siDeltas: SIDelta[]
+  quadrantMoves: QuadrantMove[]
+  labelFlips: LabelFlip[]
+  // Models present in only one of the two runs
+  onlyInA: string[]
+  onlyInB: string[]
+}
+
+const Z_95 = 1.96
+
+// Standard error of SI recomputed from one model's rows, resampling prompts
+export const siStandardError = (rows: readonly ResponseData[], model: string, options: BootstrapOptions = {}): number | null => {
+  if (rows.length < 2) return null
+  const interval = bootstrap(rows, sample => computeSI({ ...computeSignature(sample) }), {
+    ...options,
+    seed: hashSeed(model, options.seed ?? DEFAULT_BOOTSTRAP.seed)
+  })
+  return isFinite(interval.se) ? interval.se : null
+}
+
+export const diffSI = (a: RunSnapshot, b: RunSnapshot, options: BootstrapOptions = {}): SIDelta[] => {
+  const byModelA = getIndexes(a.responses).byModel
+  const byModelB = getIndexes(b.responses).byModel
+  const scoresB = new Map(b.scores.map(row => [row.model, row]))
+
+  return a.scores
+    .filter(row => scoresB.has(row.model))
+    .map(row => {
+      const siB = scoresB.get(row.model)!.SI
+      const delta = siB - row.SI
+      const seA = siStandardError(byModelA.get(row.model) ?? [], row.model, options)
+      const seB = siStandardError(byModelB.get(row.model) ?? [], row.model, options)
+      const noise = seA === null || seB === null ? null : Z_95 * Math.sqrt(seA * seA + seB * seB)
+      return {
+        model: row.model,
+        siA: row.SI,
+        siB,
+        delta,
+        noise,
+        outsideNoise: noise !== null && Math.abs(delta) > noise
+      }
+    })
+}
+
+export const diffQuadrants = (a: RunSnapshot, b: RunSnapshot): QuadrantMove[] => {
+  if (!a.elasticity || !b.elasticity) return []
+  const itemsB = new Map(b.elasticity.items.map(item => [item.model, item]))
+  const moves: QuadrantMove[] = []
+  a.elasticity.items.forEach(item => {
+    const other = itemsB.get(item.model)
+    if (!other) return
+    const from = classifyQuadrant(item, a.elasticity!.summary)
+    const to = classifyQuadrant(other, b.elasticity!.summary)
+    if (from !== to) moves.push({ model: item.model, from, to })
+  })
+  return moves
+}
+
+export const diffLabels = (a: RunSnapshot, b: RunSnapshot): LabelFlip[] => {
+  const lookupB = getIndexes(b.responses).byModelPrompt
+  const flips: LabelFlip[] = []
+  a.responses.forEach(row => {
+    const other = lookupB.get(modelPromptKey(row.model, row.prompt_id))
+    if (!other || other.scores.pred_label === row.scores.pred_label) return
+    flips.push({
+      model: row.model,
+      prompt_id: row.prompt_id,
+      topic: row.topic,
+      from: row.scores.pred_label,
+      to: other.scores.pred_label,
+      endorseDelta: other.scores.endorse_stance - row.scores.endorse_stance
+    })
+  })
+  return flips
+}
+
+export const diffRuns = (a: RunSnapshot, b: RunSnapshot, options: BootstrapOptions = {}): RunDiff => {
+  const modelsA = new Set(a.scores.map(row => row.model))
+  const modelsB = new Set(b.scores.map(row => row.model))
+  return {
+    siDeltas: diffSI(a, b, options),
+    quadrantMoves: diffQuadrants(a, b),
+    labelFlips: diffLabels(a, b),
+    onlyInA: Array.from(modelsA).filter(model => !modelsB.has(model)).sort(),
+    onlyInB: Array.from(modelsB).filter(model => !modelsA.has(model)).sort()
+  }
+}
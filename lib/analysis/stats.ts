@@ -0,0 +1,78 @@
+// Small numeric helpers shared by the analysis modules.
+
+export const mean = (values: readonly number[]): number =>
+  values.length === 0 ? NaN : values.reduce((sum, v) => sum + v, 0) / values.length
+
+export const variance = (values: readonly number[]): number => {
+  if (values.length < 2) return NaN
+  const m = mean(values)
+  return values.reduce((sum, v) => sum + (v - m) * (v - m), 0) / (values.length - 1)
+}
+
+export const sd = (values: readonly number[]): number => Math.sqrt(variance(values))
+
+// Population (ddof = 0) standard deviation, as numpy's default std
+export const populationSd = (values: readonly number[]): number => {
+  if (values.length === 0) return NaN
+  const m = mean(values)
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) * (v - m), 0) / values.length)
+}
+
+// Least-squares slope of y on x; NaN when x has no variance
+export const slope = (xs: readonly number[], ys: readonly number[]): number => {
+  const mx = mean(xs)
+  const my = mean(ys)
+  let sxy = 0
+  let sxx = 0
+  for (let i = 0; i < xs.length; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my)
+    sxx += (xs[i] - mx) * (xs[i] - mx)
+  }
+  return sxx === 0 ? NaN : sxy / sxx
+}
+
+// Linear-interpolated quantile (type 7, the numpy/R default)
+export const quantile = (values: readonly number[], q: number): number => {
+  if (values.length === 0) return NaN
+  const sorted = values.slice().sort((a, b) => a - b)
+  const position = (sorted.length - 1) * q
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
+
+export const median = (values: readonly number[]): number => quantile(values, 0.5)
+
+export const meanOf = <T>(rows: readonly T[], value: (row: T) => number): number => mean(rows.map(value))
+
+// Pearson correlation; NaN when either side has no variance
+export const pearson = (xs: readonly number[], ys: readonly number[]): number => {
+  const mx = mean(xs)
+  const my = mean(ys)
+  let sxy = 0
+  let sxx = 0
+  let syy = 0
+  for (let i = 0; i < xs.length; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my)
+    sxx += (xs[i] - mx) * (xs[i] - mx)
+    syy += (ys[i] - my) * (ys[i] - my)
+  }
+  return sxx === 0 || syy === 0 ? NaN : sxy / Math.sqrt(sxx * syy)
+}
+
+// 1-based ranks with ties sharing their average rank
+export const ranks = (values: readonly number[]): number[] => {
+  const order = values.map((v, i) => i).sort((a, b) => values[a] - values[b])
+  const result = new Array<number>(values.length)
+  let start = 0
+  while (start < order.length) {
+    let end = start
+    while (end + 1 < order.length && values[order[end + 1]] === values[order[start]]) end++
+    const rank = (start + end) / 2 + 1
+    for (let k = start; k <= end; k++) result[order[k]] = rank
+    start = end + 1
+  }
+  return result
+}
+
+export const spearman = (xs: readonly number[], ys: readonly number[]): number => pearson(ranks(xs), ranks(ys))
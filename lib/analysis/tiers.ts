@@ -0,0 +1,104 @@
+// Leaderboard tiers: models whose per-prompt endorse_stance cannot be told
+// apart share a rank band. Every pair of models gets a paired t-test over the
+// prompts both answered; p-values are Holm-adjusted across all pairs.
+// Tiers are built top-down: a tier starts at the highest unassigned model
+// and takes every following model not significantly different from it.
+
+import { ResponseData, getIndexes } from '../data'
+import { studentTTwoSided } from './distributions'
+import { holmAdjust } from './multipleTesting'
+import { mean, sd } from './stats'
+
+export interface PairedTest {
+  a: string
+  b: string
+  n: number
+  meanDiff: number
+  t: number
+  p: number
+  pAdjusted: number
+}
+
+export interface RankTier {
+  tier: number
+  firstRank: number
+  lastRank: number
+  label: string
+  models: string[]
+}
+
+export interface TierRanking {
+  // Models by mean endorse_stance, highest first
+  order: { model: string, mean: number }[]
+  tiers: RankTier[]
+  tierOf: Map<string, RankTier>
+  tests: PairedTest[]
+  alpha: number
+}
+
+export const pairedTTest = (diffs: readonly number[]): { n: number, meanDiff: number, t: number, p: number } => {
+  const n = diffs.length
+  const meanDiff = mean(diffs)
+  if (n < 2) return { n, meanDiff, t: NaN, p: 1 }
+  const s = sd(diffs)
+  if (s === 0) return { n, meanDiff, t: meanDiff === 0 ? 0 : Infinity, p: meanDiff === 0 ? 1 : 0 }
+  const t = meanDiff / (s / Math.sqrt(n))
+  return { n, meanDiff, t, p: studentTTwoSided(t, n - 1) }
+}
+
+export const tierLabel = (tier: number, firstRank: number, lastRank: number): string =>
+  firstRank === lastRank ? `T${tier} (rank ${firstRank})` : `T${tier} (ranks ${firstRank}–${lastRank})`
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`)
+
+export const computeTiers = (rows: readonly ResponseData[], alpha = 0.05): TierRanking => {
+  const indexes = getIndexes(rows)
+  const order = indexes.models
+    .map(model => ({ model, mean: mean(indexes.byModel.get(model)!.map(r => r.scores.endorse_stance)) }))
+    .sort((x, y) => y.mean - x.mean)
+
+  const endorseByPrompt = new Map(indexes.models.map(model => [
+    model,
+    new Map(indexes.byModel.get(model)!.map(r => [r.prompt_id, r.scores.endorse_stance]))
+  ]))
+
+  const raw: Omit<PairedTest, 'pAdjusted'>[] = []
+  for (let i = 0; i < order.length; i++) {
+    for (let j = i + 1; j < order.length; j++) {
+      const a = order[i].model
+      const b = order[j].model
+      const valuesA = endorseByPrompt.get(a)!
+      const valuesB = endorseByPrompt.get(b)!
+      const diffs: number[] = []
+      valuesA.forEach((value, promptId) => {
+        const other = valuesB.get(promptId)
+        if (other !== undefined) diffs.push(value - other)
+      })
+      raw.push({ a, b, ...pairedTTest(diffs) })
+    }
+  }
+  const adjusted = holmAdjust(raw.map(test => test.p))
+  const tests = raw.map((test, i) => ({ ...test, pAdjusted: adjusted[i] }))
+  const significant = new Set(tests.filter(test => test.pAdjusted < alpha).map(test => pairKey(test.a, test.b)))
+
+  const tiers: RankTier[] = []
+  let start = 0
+  while (start < order.length) {
+    const leader = order[start].model
+    let end = start + 1
+    while (end < order.length && !significant.has(pairKey(leader, order[end].model))) end++
+    const tier = tiers.length + 1
+    tiers.push({
+      tier,
+      firstRank: start + 1,
+      lastRank: end,
+      label: tierLabel(tier, start + 1, end),
+      models: order.slice(start, end).map(entry => entry.model)
+    })
+    start = end
+  }
+
+  const tierOf = new Map<string, RankTier>()
+  tiers.forEach(tier => tier.models.forEach(model => tierOf.set(model, tier)))
+  return { order, tiers, tierOf, tests, alpha }
+}
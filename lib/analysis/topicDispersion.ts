@@ -0,0 +1,98 @@
+// Permutation test for topic-tilt dispersion. The statistic is the n-weighted
+// MAD of per-topic mean endorsement (topic_dispersion_wMAD in
+// stance_elasticity_metrics.json). Under the null, topic labels carry no
+// information, so shuffling them across a model's rows gives the reference
+// distribution. p-values are Benjamini–Hochberg adjusted across models.
+
+import { ResponseData } from '../data'
+import { benjaminiHochbergAdjust } from './multipleTesting'
+import { createRng, hashSeed, shuffle } from './random'
+import { mean, median, sd } from './stats'
+
+export interface PermutationOptions {
+  permutations?: number
+  seed?: number
+  alpha?: number
+}
+
+export const DEFAULT_PERMUTATION = { permutations: 1000, seed: 20250925, alpha: 0.05 }
+
+export type DispersionStability = 'Topic-dependent' | 'Uncertain'
+
+export interface DispersionTest {
+  model: string
+  wMAD: number
+  // Mean and SD of the permutation distribution
+  nullMean: number
+  nullSd: number
+  z: number
+  // One-sided: how often shuffled topics are at least as dispersed
+  p: number
+  q: number
+  numTopics: number
+  minPerTopic: number
+  stability: DispersionStability
+}
+
+// wMAD from endorsement values and integer topic codes; kept array-based so
+// each permutation is a single pass
+const weightedMad = (values: readonly number[], topics: readonly number[], nTopics: number): number => {
+  const sums = new Array<number>(nTopics).fill(0)
+  const counts = new Array<number>(nTopics).fill(0)
+  for (let i = 0; i < values.length; i++) {
+    sums[topics[i]] += values[i]
+    counts[topics[i]]++
+  }
+  const means = sums.map((sum, k) => sum / counts[k])
+  const center = median(means)
+  return means.reduce((total, m, k) => total + counts[k] * Math.abs(m - center), 0) / values.length
+}
+
+const testModel = (
+  model: string,
+  rows: readonly ResponseData[],
+  permutations: number,
+  seed: number
+): Omit<DispersionTest, 'q' | 'stability'> => {
+  const topicNames = Array.from(new Set(rows.map(r => r.topic))).sort()
+  const values = rows.map(r => r.scores.endorse_stance)
+  const topics = rows.map(r => topicNames.indexOf(r.topic))
+  const counts = topicNames.map((_, k) => topics.filter(t => t === k).length)
+  const observed = weightedMad(values, topics, topicNames.length)
+
+  const rng = createRng(hashSeed(model, seed))
+  const draws: number[] = []
+  let atLeast = 0
+  for (let b = 0; b < permutations; b++) {
+    const draw = weightedMad(values, shuffle(topics, rng), topicNames.length)
+    draws.push(draw)
+    if (draw >= observed - 1e-12) atLeast++
+  }
+  const nullSd = sd(draws)
+  return {
+    model,
+    wMAD: observed,
+    nullMean: mean(draws),
+    nullSd,
+    z: nullSd > 0 ? (observed - mean(draws)) / nullSd : NaN,
+    p: (atLeast + 1) / (permutations + 1),
+    numTopics: topicNames.length,
+    minPerTopic: Math.min(...counts)
+  }
+}
+
+export const testTopicDispersion = (
+  byModel: Map<string, ResponseData[]>,
+  options: PermutationOptions = {}
+): Map<string, DispersionTest> => {
+  const { permutations, seed, alpha } = { ...DEFAULT_PERMUTATION, ...options }
+  const tests = Array.from(byModel.entries())
+    .filter(([, rows]) => rows.length > 0)
+    .map(([model, rows]) => testModel(model, rows, permutations, seed))
+  const q = benjaminiHochbergAdjust(tests.map(t => t.p))
+  return new Map(tests.map((test, i) => [test.model, {
+    ...test,
+    q: q[i],
+    stability: q[i] < alpha ? 'Topic-dependent' : 'Uncertain'
+  }]))
+}
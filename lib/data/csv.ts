@@ -0,0 +1,129 @@
+// Minimal RFC 4180 CSV reader for the pipeline exports in public/data.
+// Handles quoted fields, escaped quotes and CRLF line endings, and can be fed
+// in chunks so large files are parsed while they download.
+
+export type CsvRecord = { [column: string]: string }
+
+export interface CsvParser {
+  push: (chunk: string) => void
+  end: () => void
+}
+
+export const createCsvParser = (onRecord: (record: CsvRecord) => void): CsvParser => {
+  let header: string[] | null = null
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+  // A quote seen at the very end of a chunk may be the first half of an escaped ""
+  let pendingQuote = false
+  // A \r seen at the very end of a chunk may be followed by \n in the next one
+  let pendingCr = false
+
+  const emitRow = () => {
+    row.push(field)
+    field = ''
+    const values = row
+    row = []
+    if (values.length === 1 && values[0] === '') return
+    if (!header) {
+      header = values
+      return
+    }
+    const record: CsvRecord = {}
+    header.forEach((column, index) => {
+      record[column] = values[index] ?? ''
+    })
+    onRecord(record)
+  }
+
+  const push = (chunk: string) => {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i]
+
+      if (pendingCr) {
+        pendingCr = false
+        if (char === '\n') continue
+      }
+
+      if (pendingQuote) {
+        pendingQuote = false
+        if (char === '"') {
+          field += '"'
+          continue
+        }
+        inQuotes = false
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          pendingQuote = true
+        } else {
+          field += char
+        }
+      } else if (char === '"') {
+        inQuotes = true
+      } else if (char === ',') {
+        row.push(field)
+        field = ''
+      } else if (char === '\n' || char === '\r') {
+        pendingCr = char === '\r'
+        emitRow()
+      } else {
+        field += char
+      }
+    }
+  }
+
+  const end = () => {
+    if (pendingQuote) {
+      pendingQuote = false
+      inQuotes = false
+    }
+    if (field !== '' || row.length > 0) emitRow()
+  }
+
+  return { push, end }
+}
+
+export const parseCsv = (text: string): CsvRecord[] => {
+  const records: CsvRecord[] = []
+  const parser = createCsvParser(record => records.push(record))
+  parser.push(text)
+  parser.end()
+  return records
+}
+
+// Streams a fetch body through the parser; falls back to a single read when
+// the runtime does not expose a readable body.
+export const parseCsvStream = async <T>(response: Response, mapRecord: (record: CsvRecord) => T): Promise<T[]> => {
+  const rows: T[] = []
+  const parser = createCsvParser(record => rows.push(mapRecord(record)))
+
+  if (!response.body) {
+    parser.push(await response.text())
+    parser.end()
+    return rows
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    parser.push(decoder.decode(value, { stream: true }))
+  }
+  parser.push(decoder.decode())
+  parser.end()
+  return rows
+}
+
+export const toNumber = (value: string | undefined): number => {
+  if (value === undefined || value.trim() === '') return NaN
+  return Number(value)
+}
+
+// pandas writes booleans as "True"/"False"
+export const toBoolean = (value: string | undefined): boolean => {
+  const normalized = (value ?? '').trim().toLowerCase()
+  return normalized === 'true' || normalized === '1'
+}
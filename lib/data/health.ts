@@ -0,0 +1,45 @@
+// Collects the validation report of every file the loaders have read, so the
+// Data health panel can show what was checked and what was quarantined.
+
+import { DataFileKey, DATA_FILES, RUN_MANIFEST_FILE, runFile } from './runs'
+import { DataIssue, DatasetHealth } from './schema'
+import { BenchmarkRun } from './types'
+
+const reports = new Map<string, DatasetHealth>()
+
+export const recordHealth = (health: DatasetHealth): void => {
+  reports.set(health.file, health)
+}
+
+export const recordLoadFailure = (file: string, error: unknown): void => {
+  const message = error instanceof Error ? error.message : String(error)
+  reports.set(file, {
+    file,
+    rowsChecked: 0,
+    rowsQuarantined: 0,
+    issues: [{ file, row: null, model: null, column: null, message }],
+    quarantined: []
+  })
+}
+
+// Reports for one run's files (plus the run manifest), or for everything loaded so far
+export const getDataHealth = (run?: BenchmarkRun): DatasetHealth[] => {
+  const all = Array.from(reports.values())
+  const selected = run
+    ? all.filter(report => {
+        const files = new Set([RUN_MANIFEST_FILE, ...(Object.keys(DATA_FILES) as DataFileKey[]).map(key => runFile(run, key))])
+        return files.has(report.file)
+      })
+    : all
+  return selected.sort((a, b) => a.file.localeCompare(b.file))
+}
+
+export const issuesByModel = (issues: DataIssue[]): Map<string, DataIssue[]> => {
+  const byModel = new Map<string, DataIssue[]>()
+  issues.forEach(issue => {
+    const key = issue.model ?? '(file level)'
+    if (!byModel.has(key)) byModel.set(key, [])
+    byModel.get(key)!.push(issue)
+  })
+  return byModel
+}
@@ -0,0 +1,8 @@
+export * from './types'
+export * from './loaders'
+export * from './runs'
+export * from './indexes'
+export * from './schema'
+export * from './health'
+export * from './models'
+export { parseCsv } from './csv'
@@ -0,0 +1,63 @@
+// Memoized lookups over loaded response rows.
+// Indexes are cached per array instance, so every page working on the same
+// loaded data reuses the same maps.
+
+export interface RowLike {
+  model: string
+  prompt_id: string
+  topic: string
+}
+
+export interface DataIndexes<T extends RowLike> {
+  byModel: Map<string, T[]>
+  byPrompt: Map<string, T[]>
+  byTopic: Map<string, T[]>
+  byModelPrompt: Map<string, T>
+  models: string[]
+  prompts: string[]
+  topics: string[]
+}
+
+const indexCache = new WeakMap<readonly RowLike[], DataIndexes<RowLike>>()
+
+const groupBy = <T>(rows: readonly T[], key: (row: T) => string): Map<string, T[]> => {
+  const groups = new Map<string, T[]>()
+  rows.forEach(row => {
+    const k = key(row)
+    if (!groups.has(k)) groups.set(k, [])
+    groups.get(k)!.push(row)
+  })
+  return groups
+}
+
+// Natural order so p2 sorts before p10
+export const comparePromptIds = (a: string, b: string): number =>
+  a.localeCompare(b, undefined, { numeric: true })
+
+export const modelPromptKey = (model: string, promptId: string): string => `${model}\u0000${promptId}`
+
+export const getIndexes = <T extends RowLike>(rows: readonly T[]): DataIndexes<T> => {
+  const cached = indexCache.get(rows)
+  if (cached) return cached as DataIndexes<T>
+
+  const byModel = groupBy(rows, r => r.model)
+  const byPrompt = groupBy(rows, r => r.prompt_id)
+  const byTopic = groupBy(rows, r => r.topic)
+  const byModelPrompt = new Map<string, T>()
+  rows.forEach(r => byModelPrompt.set(modelPromptKey(r.model, r.prompt_id), r))
+
+  const indexes: DataIndexes<T> = {
+    byModel,
+    byPrompt,
+    byTopic,
+    byModelPrompt,
+    models: Array.from(byModel.keys()).sort(),
+    prompts: Array.from(byPrompt.keys()).sort(comparePromptIds),
+    topics: Array.from(byTopic.keys()).sort()
+  }
+  indexCache.set(rows, indexes as DataIndexes<RowLike>)
+  return indexes
+}
+
+export const getResponse = <T extends RowLike>(rows: readonly T[], model: string, promptId: string): T | undefined =>
+  getIndexes(rows).byModelPrompt.get(modelPromptKey(model, promptId))
@@ -0,0 +1,328 @@
+// Typed loaders for the artifacts in public/data.
+// Each file is fetched, parsed and validated once per page session; every
+// caller shares the same objects. Rows that fail their schema are dropped here
+// and listed in the health report (see ./health.ts). Model names are rewritten
+// to their registry name (see ./models.ts) so files join on the same key.
+
+import { parseCsvStream, toBoolean, toNumber, CsvRecord } from './csv'
+import { recordHealth, recordLoadFailure } from './health'
+import { canonicalModelName, resolveModel } from './models'
+import { DATA_FILES, DATA_ROOT, DEFAULT_RUN, RUN_MANIFEST_FILE, runFile } from './runs'
+import {
+  ColumnSpec,
+  DELTA_BY_TOPIC_SCHEMA,
+  DatasetHealth,
+  ELASTICITY_SCHEMA,
+  ELASTICITY_SUMMARY_SCHEMA,
+  METADATA_SCHEMA,
+  MODEL_STABILITY_SCHEMA,
+  NETWORK_LINK_SCHEMA,
+  NETWORK_NODE_SCHEMA,
+  RESPONSE_SCHEMA,
+  RUN_SCHEMA,
+  SCORED_ROW_SCHEMA,
+  SSS_VECTOR_SCHEMA,
+  SYCOPHANCY_SCORE_SCHEMA,
+  TOPIC_DISPERSION_SCHEMA,
+  mergeHealth,
+  validateRows
+} from './schema'
+import {
+  BenchmarkMetadata,
+  BenchmarkRun,
+  DeltaByTopicEntry,
+  ElasticityData,
+  ElasticityResponse,
+  ModelStabilityRow,
+  NetworkData,
+  NetworkLink,
+  NetworkNode,
+  ResponseData,
+  RunManifest,
+  ScoredRow,
+  SssVectors,
+  SycophancyScoreRow,
+  TopicDispersionRow
+} from './types'
+
+const cache = new Map<string, Promise<unknown>>()
+
+const memoize = <T>(key: string, load: () => Promise<T>): Promise<T> => {
+  if (!cache.has(key)) {
+    const pending = load().catch(error => {
+      // Drop failed loads so a later call can retry
+      cache.delete(key)
+      throw error
+    })
+    cache.set(key, pending)
+  }
+  return cache.get(key) as Promise<T>
+}
+
+const fetchOk = async (file: string): Promise<Response> => {
+  const response = await fetch(`${DATA_ROOT}/${file}`)
+  if (!response.ok) {
+    throw new Error(`Failed to load ${file}: ${response.status} ${response.statusText}`)
+  }
+  return response
+}
+
+const readJson = async <T>(file: string): Promise<T> => (await fetchOk(file)).json() as Promise<T>
+
+const asArray = <T>(file: string, value: unknown): T[] => {
+  if (!Array.isArray(value)) throw new Error(`Expected ${file} to contain a list of records`)
+  return value as T[]
+}
+
+// Loads a required file once; a failed load is recorded in the health report
+const loadChecked = <T>(file: string, load: () => Promise<T>): Promise<T> =>
+  memoize(file, async () => {
+    try {
+      return await load()
+    } catch (error) {
+      recordLoadFailure(file, error)
+      throw error
+    }
+  })
+
+// Names the registry cannot resolve are kept but reported, since joins on them will miss
+const registryHealth = (file: string, names: readonly string[]): DatasetHealth => ({
+  file,
+  rowsChecked: 0,
+  rowsQuarantined: 0,
+  issues: Array.from(new Set(names.filter(name => !resolveModel(name)))).map(model => ({
+    file,
+    row: null,
+    model,
+    column: null,
+    message: `model "${model}" is not in the model registry; add it or an alias to lib/data/models.ts`
+  })),
+  quarantined: []
+})
+
+const withCanonicalModel = <T>(row: T): T => {
+  const model = (row as { model?: unknown }).model
+  return typeof model === 'string' ? { ...row, model: canonicalModelName(model) } : row
+}
+
+const modelNames = (rows: readonly unknown[]): string[] =>
+  rows.map(row => (row as { model?: unknown }).model).filter((model): model is string => typeof model === 'string')
+
+const keepValid = <T>(file: string, rows: T[], schema: ColumnSpec<T>[]): T[] => {
+  const { valid, health } = validateRows(file, rows.map(withCanonicalModel), schema)
+  recordHealth(mergeHealth(file, [health, registryHealth(file, modelNames(valid))]))
+  return valid
+}
+
+const fetchCsv = <T>(file: string, mapRecord: (record: CsvRecord) => T, schema: ColumnSpec<T>[]): Promise<T[]> =>
+  loadChecked(file, async () => keepValid(file, await parseCsvStream(await fetchOk(file), mapRecord), schema))
+
+const fetchJsonRows = <T>(file: string, schema: ColumnSpec<T>[]): Promise<T[]> =>
+  loadChecked(file, async () => keepValid(file, asArray<T>(file, await readJson(file)), schema))
+
+const toScoredRow = (r: CsvRecord): ScoredRow => ({
+  model: r.model,
+  prompt_id: r.prompt_id,
+  topic: r.topic,
+  persona: r.persona,
+  stance: toNumber(r.stance),
+  strength: toNumber(r.strength),
+  is_harmful: toBoolean(r.is_harmful),
+  ask_devil: toBoolean(r.ask_devil),
+  endorse_stance: toNumber(r.endorse_stance),
+  challenge: toNumber(r.challenge),
+  harm_validation: toNumber(r.harm_validation),
+  devil_advocate: toNumber(r.devil_advocate),
+  flattery_density: toNumber(r.flattery_density),
+  intens_density: toNumber(r.intens_density),
+  hedge_density: toNumber(r.hedge_density),
+  refusal_markers: toNumber(r.refusal_markers),
+  safe_alt_markers: toNumber(r.safe_alt_markers),
+  evasion_markers: toNumber(r.evasion_markers),
+  caveat_in_open: toNumber(r.caveat_in_open),
+  pred_label: r.pred_label
+})
+
+const toSycophancyScoreRow = (r: CsvRecord): SycophancyScoreRow => ({
+  model: r.model,
+  AOS: toNumber(r.AOS),
+  CCR: toNumber(r.CCR),
+  HVS: toNumber(r.HVS),
+  DAC: toNumber(r.DAC),
+  AE: toNumber(r.AE),
+  FLAT: toNumber(r.FLAT),
+  INTENS: toNumber(r.INTENS),
+  HEDGE: toNumber(r.HEDGE),
+  RR: toNumber(r.RR),
+  SAFE: toNumber(r.SAFE),
+  CAVEAT1: toNumber(r.CAVEAT1),
+  EVAS: toNumber(r.EVAS),
+  n_total: toNumber(r.n_total),
+  n_harm: toNumber(r.n_harm),
+  n_devil: toNumber(r.n_devil),
+  SI: toNumber(r.SI)
+})
+
+const toModelStabilityRow = (r: CsvRecord): ModelStabilityRow => ({
+  model: r.model,
+  topics_used: toNumber(r.topics_used),
+  min_n_per_topic: toNumber(r.min_n_per_topic),
+  elasticity_var: toNumber(r.elasticity_var),
+  stability: r.stability,
+  threshold_cut: toNumber(r.threshold_cut),
+  percentile: toNumber(r.percentile),
+  method: r.method
+})
+
+const toTopicDispersionRow = (r: CsvRecord): TopicDispersionRow => ({
+  model: r.model,
+  topic_dispersion_wMAD: toNumber(r.topic_dispersion_wMAD),
+  mad_ci_lo: toNumber(r.mad_ci_lo),
+  mad_ci_hi: toNumber(r.mad_ci_hi),
+  perm_z: toNumber(r.perm_z),
+  p_value: toNumber(r.p_value),
+  q_value: toNumber(r.q_value),
+  num_topics: toNumber(r.num_topics),
+  min_n_per_topic: toNumber(r.min_n_per_topic),
+  stability: r.stability
+})
+
+// scored_rows.csv carries every judged field but not the prompt or response
+// text, so those stay empty when responses are built from it.
+export const toResponseData = (row: ScoredRow): ResponseData => ({
+  model: row.model,
+  prompt_id: row.prompt_id,
+  response: '',
+  prompt_text: '',
+  topic: row.topic,
+  persona: row.persona,
+  stance: row.stance,
+  strength: row.strength,
+  is_harmful: row.is_harmful,
+  ask_devil: row.ask_devil,
+  scores: {
+    endorse_stance: row.endorse_stance,
+    challenge: row.challenge,
+    harm_validation: row.harm_validation,
+    devil_advocate: row.devil_advocate,
+    flattery_density: row.flattery_density,
+    intens_density: row.intens_density,
+    hedge_density: row.hedge_density,
+    refusal_markers: row.refusal_markers,
+    safe_alt_markers: row.safe_alt_markers,
+    evasion_markers: row.evasion_markers,
+    caveat_in_open: row.caveat_in_open,
+    pred_label: row.pred_label
+  }
+})
+
+// responses_with_scores.json is an optional pre-nested bundle that also carries
+// the prompt and response text. When it is absent (404) the same records are
+// built from scored_rows.csv, which every run ships; a bundle that is present
+// but unreadable is reported in the health panel and fails the load.
+export const loadResponses = (run?: BenchmarkRun): Promise<ResponseData[]> => {
+  const file = runFile(run, 'responses')
+  return memoize(`responses:${file}`, async () => {
+    const fail = (error: unknown): never => {
+      recordLoadFailure(file, error)
+      throw error
+    }
+    const response = await fetch(`${DATA_ROOT}/${file}`).catch(fail)
+    if (response.status === 404) {
+      const rows = await loadScoredRows(run)
+      return rows.map(toResponseData)
+    }
+    if (!response.ok) fail(new Error(`Failed to load ${file}: ${response.status} ${response.statusText}`))
+    const bundle: unknown = await response.json().catch(fail)
+    try {
+      return keepValid(file, asArray<ResponseData>(file, bundle), RESPONSE_SCHEMA)
+    } catch (error) {
+      return fail(error)
+    }
+  })
+}
+
+export const loadScoredRows = (run?: BenchmarkRun): Promise<ScoredRow[]> =>
+  fetchCsv(runFile(run, 'scoredRows'), toScoredRow, SCORED_ROW_SCHEMA)
+
+export const loadSycophancyScores = (run?: BenchmarkRun): Promise<SycophancyScoreRow[]> =>
+  fetchCsv(runFile(run, 'sycophancyScores'), toSycophancyScoreRow, SYCOPHANCY_SCORE_SCHEMA)
+
+export const loadModelStability = (run?: BenchmarkRun): Promise<ModelStabilityRow[]> =>
+  fetchCsv(runFile(run, 'modelStability'), toModelStabilityRow, MODEL_STABILITY_SCHEMA)
+
+export const loadTopicDispersion = (run?: BenchmarkRun): Promise<TopicDispersionRow[]> =>
+  fetchCsv(runFile(run, 'topicDispersion'), toTopicDispersionRow, TOPIC_DISPERSION_SCHEMA)
+
+export const loadDeltaByTopic = (run?: BenchmarkRun): Promise<DeltaByTopicEntry[]> =>
+  fetchJsonRows(runFile(run, 'deltaByTopic'), DELTA_BY_TOPIC_SCHEMA)
+
+export const loadNetwork = (run?: BenchmarkRun): Promise<NetworkData> =>
+  loadChecked(runFile(run, 'network'), async () => {
+    const file = runFile(run, 'network')
+    const raw = await readJson<NetworkData>(file)
+    const rawNodes = asArray<NetworkNode>(file, raw.nodes).map(n => (typeof n.label === 'string' ? { ...n, label: canonicalModelName(n.label) } : n))
+    const nodes = validateRows(file, rawNodes, NETWORK_NODE_SCHEMA, n => n.label ?? null)
+    const nodeIds = new Set(nodes.valid.map(n => n.id))
+    const labelOf = new Map(nodes.valid.map(n => [n.id, n.label]))
+    // Links to quarantined or unknown nodes are dropped along with bad links
+    const endpointRule = (id: number) => (nodeIds.has(id) ? null : `node ${id} is missing or quarantined`)
+    const linkSchema = NETWORK_LINK_SCHEMA.map(spec =>
+      spec.name === 'source' || spec.name === 'target'
+        ? { ...spec, check: (l: NetworkLink) => endpointRule(spec.name === 'source' ? l.source : l.target) }
+        : spec
+    )
+    const links = validateRows(file, asArray<NetworkLink>(file, raw.links), linkSchema, l => labelOf.get(l.source) ?? null)
+    recordHealth(mergeHealth(file, [nodes.health, links.health, registryHealth(file, nodes.valid.map(n => n.label))]))
+    return { ...raw, nodes: nodes.valid, links: links.valid }
+  })
+
+export const loadSssVectors = (run?: BenchmarkRun): Promise<SssVectors> =>
+  loadChecked(runFile(run, 'sssVectors'), async () => {
+    const file = runFile(run, 'sssVectors')
+    const raw = await readJson<SssVectors>(file)
+    const rows = Object.entries(raw).map(([model, vector]) => ({ model, vector }))
+    const valid = keepValid(file, rows, SSS_VECTOR_SCHEMA)
+    const vectors: SssVectors = {}
+    valid.forEach(row => {
+      vectors[row.model] = row.vector
+    })
+    return vectors
+  })
+
+// Single-object files are returned even when a check fails; the problems still
+// show up in the health report.
+export const loadMetadata = (run?: BenchmarkRun): Promise<BenchmarkMetadata> =>
+  loadChecked(runFile(run, 'metadata'), async () => {
+    const file = runFile(run, 'metadata')
+    const raw = await readJson<BenchmarkMetadata>(file)
+    const models = Array.isArray(raw.models_analyzed) ? raw.models_analyzed.map(m => (typeof m === 'string' ? canonicalModelName(m) : m)) : raw.models_analyzed
+    const metadata = { ...raw, models_analyzed: models }
+    const { health } = validateRows(file, [metadata], METADATA_SCHEMA, () => null)
+    recordHealth(mergeHealth(file, [health, registryHealth(file, modelNames(Array.isArray(models) ? models.map(model => ({ model })) : []))]))
+    return metadata
+  })
+
+export const loadElasticity = (run?: BenchmarkRun): Promise<ElasticityResponse> =>
+  loadChecked(runFile(run, 'elasticity'), async () => {
+    const file = runFile(run, 'elasticity')
+    const raw = await readJson<ElasticityResponse>(file)
+    const items = validateRows(file, asArray<ElasticityData>(file, raw.items).map(withCanonicalModel), ELASTICITY_SCHEMA)
+    const summary = validateRows(file, [raw.summary ?? { x_median: NaN, y_median: NaN }], ELASTICITY_SUMMARY_SCHEMA, () => null)
+    recordHealth(mergeHealth(file, [items.health, summary.health, registryHealth(file, modelNames(items.valid))]))
+    return { items: items.valid, summary: raw.summary }
+  })
+
+// runs.json is optional; without it the dashboard shows the files in public/data as a single run
+export const loadRunManifest = (): Promise<RunManifest> =>
+  memoize(RUN_MANIFEST_FILE, async () => {
+    let raw: RunManifest
+    try {
+      raw = await readJson<RunManifest>(RUN_MANIFEST_FILE)
+    } catch {
+      return { default_run: DEFAULT_RUN.id, runs: [DEFAULT_RUN] }
+    }
+    const runs = keepValid(RUN_MANIFEST_FILE, asArray<BenchmarkRun>(RUN_MANIFEST_FILE, raw.runs), RUN_SCHEMA)
+    if (runs.length === 0) return { default_run: DEFAULT_RUN.id, runs: [DEFAULT_RUN] }
+    return { default_run: raw.default_run, runs }
+  })
@@ -0,0 +1,83 @@
+// Model registry. The pipeline exports do not agree on model names (the CSVs
+// say "Anubis 70b v1.1", sss_vectors.json "TDR Anubis 70b v1.1"), so every
+// loader rewrites names to the registry name and reports any it cannot match.
+// Add an alias here when a new export spells a known model differently.
+
+export interface ModelInfo {
+  // Stable identifier, independent of how any export spells the name
+  id: string
+  // Canonical display name; loaders rewrite every alias to this
+  name: string
+  aliases: string[]
+  vendor: string
+  family: string
+  // Total parameters in billions; null when undisclosed
+  parameters: number | null
+  // Active parameters per token for mixture-of-experts models
+  activeParameters?: number
+  openWeights: boolean | null
+  // Reasons before answering by default
+  reasoning: boolean
+  // ISO date of public release; null when unknown
+  releaseDate: string | null
+}
+
+export const MODEL_REGISTRY: ModelInfo[] = [
+  { id: 'anubis-70b-v1.1', name: 'Anubis 70b v1.1', aliases: ['TDR Anubis 70b v1.1', 'TheDrummer Anubis 70B v1.1'], vendor: 'TheDrummer', family: 'Anubis', parameters: 70, openWeights: true, reasoning: false, releaseDate: null },
+  { id: 'anubis-pro-105b-v1', name: 'Anubis Pro 105b v1', aliases: ['TDR Anubis Pro 105b v1', 'TheDrummer Anubis Pro 105B v1'], vendor: 'TheDrummer', family: 'Anubis', parameters: 105, openWeights: true, reasoning: false, releaseDate: null },
+  { id: 'arcee-spotlight', name: 'Arcee AI Spotlight', aliases: ['Arcee Spotlight'], vendor: 'Arcee AI', family: 'Arcee', parameters: null, openWeights: null, reasoning: false, releaseDate: null },
+  { id: 'arcee-virtuoso-large', name: 'Arcee Virtuoso Large', aliases: ['Arcee AI Virtuoso Large'], vendor: 'Arcee AI', family: 'Arcee', parameters: null, openWeights: null, reasoning: false, releaseDate: null },
+  { id: 'ernie-4.5-21b-a3b', name: 'ERNIE 4.5 21B A3B', aliases: ['Ernie 4.5 21B A3B', 'Baidu Ernie 4.5 21B A3B', 'Baidu: ERNIE 4.5 21B A3B'], vendor: 'Baidu', family: 'ERNIE 4.5', parameters: 21, activeParameters: 3, openWeights: true, reasoning: false, releaseDate: '2025-06-30' },
+  { id: 'ernie-4.5-300b-a47b', name: 'ERNIE 4.5 300B A47B', aliases: ['Baidu: ERNIE 4.5 300B A47B', 'Baidu Ernie 4.5 300B A47B'], vendor: 'Baidu', family: 'ERNIE 4.5', parameters: 300, activeParameters: 47, openWeights: true, reasoning: false, releaseDate: '2025-06-30' },
+  { id: 'claude-3.5-haiku', name: 'Claude 3.5 Haiku', aliases: ['Claude 3.5 Haiku 20241022'], vendor: 'Anthropic', family: 'Claude 3.5', parameters: null, openWeights: false, reasoning: false, releaseDate: '2024-10-22' },
+  { id: 'claude-3.5-sonnet-20240620', name: 'Claude 3.5 Sonnet', aliases: ['Claude 3.5 Sonnet 20240620'], vendor: 'Anthropic', family: 'Claude 3.5', parameters: null, openWeights: false, reasoning: false, releaseDate: '2024-06-20' },
+  { id: 'claude-sonnet-4', name: 'Claude Sonnet 4', aliases: ['Claude Sonnet 4 20250514'], vendor: 'Anthropic', family: 'Claude 4', parameters: null, openWeights: false, reasoning: false, releaseDate: '2025-05-22' },
+  { id: 'deepseek-r1', name: 'DeepSeek R1', aliases: [], vendor: 'DeepSeek', family: 'DeepSeek R1', parameters: 671, activeParameters: 37, openWeights: true, reasoning: true, releaseDate: '2025-01-20' },
+  { id: 'deepseek-v3', name: 'DeepSeek V3', aliases: [], vendor: 'DeepSeek', family: 'DeepSeek V3', parameters: 671, activeParameters: 37, openWeights: true, reasoning: false, releaseDate: '2024-12-26' },
+  { id: 'gemini-2.0-flash', name: 'Gemini 2.0 flash', aliases: ['Gemini 2.0 Flash'], vendor: 'Google', family: 'Gemini 2.0', parameters: null, openWeights: false, reasoning: false, releaseDate: '2025-02-05' },
+  { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', aliases: [], vendor: 'Google', family: 'Gemini 2.5', parameters: null, openWeights: false, reasoning: true, releaseDate: '2025-06-17' },
+  { id: 'gemini-2.5-flash-lite', name: 'Gemini 2.5 Flash Lite', aliases: [], vendor: 'Google', family: 'Gemini 2.5', parameters: null, openWeights: false, reasoning: false, releaseDate: '2025-07-22' },
+  { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', aliases: [], vendor: 'Google', family: 'Gemini 2.5', parameters: null, openWeights: false, reasoning: true, releaseDate: '2025-06-17' },
+  { id: 'gemma-3-12b', name: 'Gemma 3 12b', aliases: [], vendor: 'Google', family: 'Gemma 3', parameters: 12, openWeights: true, reasoning: false, releaseDate: '2025-03-12' },
+  { id: 'gemma-3-27b', name: 'Gemma 3 27b', aliases: [], vendor: 'Google', family: 'Gemma 3', parameters: 27, openWeights: true, reasoning: false, releaseDate: '2025-03-12' },
+  { id: 'gpt-3.5-turbo', name: 'Gpt 3.5 Turbo', aliases: ['GPT-3.5 Turbo'], vendor: 'OpenAI', family: 'GPT-3.5', parameters: null, openWeights: false, reasoning: false, releaseDate: '2023-03-01' },
+  { id: 'gpt-4.1', name: 'Gpt 4.1', aliases: ['GPT-4.1'], vendor: 'OpenAI', family: 'GPT-4.1', parameters: null, openWeights: false, reasoning: false, releaseDate: '2025-04-14' },
+  { id: 'gpt-4.1-mini', name: 'Gpt 4.1 mini', aliases: ['GPT-4.1 Mini'], vendor: 'OpenAI', family: 'GPT-4.1', parameters: null, openWeights: false, reasoning: false, releaseDate: '2025-04-14' },
+  { id: 'gpt-4o', name: 'Gpt 4o', aliases: ['GPT-4o'], vendor: 'OpenAI', family: 'GPT-4o', parameters: null, openWeights: false, reasoning: false, releaseDate: '2024-05-13' },
+  { id: 'gpt-4o-mini', name: 'Gpt 4o Mini', aliases: ['GPT-4o Mini'], vendor: 'OpenAI', family: 'GPT-4o', parameters: null, openWeights: false, reasoning: false, releaseDate: '2024-07-18' },
+  { id: 'gpt-5', name: 'Gpt 5', aliases: ['GPT-5'], vendor: 'OpenAI', family: 'GPT-5', parameters: null, openWeights: false, reasoning: true, releaseDate: '2025-08-07' },
+  { id: 'gpt-5-mini', name: 'Gpt 5 mini', aliases: ['GPT-5 Mini'], vendor: 'OpenAI', family: 'GPT-5', parameters: null, openWeights: false, reasoning: true, releaseDate: '2025-08-07' },
+  { id: 'gpt-5-nano', name: 'Gpt 5 Nano', aliases: ['GPT-5 Nano'], vendor: 'OpenAI', family: 'GPT-5', parameters: null, openWeights: false, reasoning: true, releaseDate: '2025-08-07' },
+  { id: 'grok-3-mini', name: 'Grok 3 Mini', aliases: [], vendor: 'xAI', family: 'Grok 3', parameters: null, openWeights: false, reasoning: true, releaseDate: '2025-02-17' },
+  { id: 'grok-4', name: 'Grok 4', aliases: [], vendor: 'xAI', family: 'Grok 4', parameters: null, openWeights: false, reasoning: true, releaseDate: '2025-07-09' },
+  { id: 'hunyuan-a13b-instruct', name: 'Hunyuan A13B Instruct', aliases: ['Tencent Hunyuan A13B Instruct'], vendor: 'Tencent', family: 'Hunyuan', parameters: 80, activeParameters: 13, openWeights: true, reasoning: true, releaseDate: '2025-06-27' },
+  { id: 'inception-mercury', name: 'Inception Mercury', aliases: ['Mercury'], vendor: 'Inception Labs', family: 'Mercury', parameters: null, openWeights: false, reasoning: false, releaseDate: null },
+  { id: 'kimi-k2', name: 'Kimi K2', aliases: ['MoonshotAI Kimi K2'], vendor: 'Moonshot AI', family: 'Kimi K2', parameters: 1000, activeParameters: 32, openWeights: true, reasoning: false, releaseDate: '2025-07-11' },
+  { id: 'lfm-40b-moe', name: 'Liquid LFM 40B MoE', aliases: ['LFM 40B MoE'], vendor: 'Liquid AI', family: 'LFM', parameters: 40, activeParameters: 12, openWeights: false, reasoning: false, releaseDate: '2024-09-30' },
+  { id: 'llama-3.1-8b-instruct', name: 'Llama 3.1 8B Instruct', aliases: [], vendor: 'Meta', family: 'Llama 3', parameters: 8, openWeights: true, reasoning: false, releaseDate: '2024-07-23' },
+  { id: 'llama-3.3-70b', name: 'Llama 3.3 70b', aliases: ['Llama 3.3 70B Instruct'], vendor: 'Meta', family: 'Llama 3', parameters: 70, openWeights: true, reasoning: false, releaseDate: '2024-12-06' },
+  { id: 'llama-4-maverick', name: 'Llama 4 Maverick', aliases: [], vendor: 'Meta', family: 'Llama 4', parameters: 400, activeParameters: 17, openWeights: true, reasoning: false, releaseDate: '2025-04-05' },
+  { id: 'llama-4-scout', name: 'Llama 4 Scout', aliases: [], vendor: 'Meta', family: 'Llama 4', parameters: 109, activeParameters: 17, openWeights: true, reasoning: false, releaseDate: '2025-04-05' },
+  { id: 'mai-ds-r1', name: 'MAI DS R1', aliases: ['Microsoft MAI DS R1'], vendor: 'Microsoft', family: 'DeepSeek R1', parameters: 671, activeParameters: 37, openWeights: true, reasoning: true, releaseDate: null },
+  { id: 'magistral-small-2506', name: 'Mistral Magistral Small 2506', aliases: ['Magistral Small 2506'], vendor: 'Mistral AI', family: 'Magistral', parameters: 24, openWeights: true, reasoning: true, releaseDate: '2025-06-10' },
+  { id: 'mistral-medium-3.1', name: 'Mistral Medium 3.1', aliases: [], vendor: 'Mistral AI', family: 'Mistral Medium', parameters: null, openWeights: false, reasoning: false, releaseDate: null },
+  { id: 'mistral-small-3.2-24b', name: 'Mistral Small 3.2 24b', aliases: [], vendor: 'Mistral AI', family: 'Mistral Small', parameters: 24, openWeights: true, reasoning: false, releaseDate: '2025-06-20' },
+  { id: 'phi-4-reasoning-plus', name: 'Phi-4 reasoning+', aliases: ['Phi 4 Reasoning Plus'], vendor: 'Microsoft', family: 'Phi-4', parameters: 14, openWeights: true, reasoning: true, releaseDate: '2025-04-30' },
+  { id: 'qwen3-235b-a22b-instruct', name: 'Qwen 3 235b A22B Instruct', aliases: ['Qwen3 235B A22B Instruct 2507'], vendor: 'Alibaba', family: 'Qwen 3', parameters: 235, activeParameters: 22, openWeights: true, reasoning: false, releaseDate: '2025-07-21' },
+  { id: 'qwen3-32b', name: 'Qwen 3 32b', aliases: ['Qwen3 32B'], vendor: 'Alibaba', family: 'Qwen 3', parameters: 32, openWeights: true, reasoning: true, releaseDate: '2025-04-29' },
+  { id: 'glm-4.5', name: 'Z-AI GLM 4.5', aliases: ['GLM 4.5'], vendor: 'Z.ai', family: 'GLM 4.5', parameters: 355, activeParameters: 32, openWeights: true, reasoning: true, releaseDate: '2025-07-28' },
+  { id: 'glm-4.5-air', name: 'Z-AI GLM 4.5 Air', aliases: ['GLM 4.5 Air'], vendor: 'Z.ai', family: 'GLM 4.5', parameters: 106, activeParameters: 12, openWeights: true, reasoning: true, releaseDate: '2025-07-28' }
+]
+
+// Case, punctuation and spacing differences alone never make a new model
+const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9.+]+/g, ' ').trim()
+
+const lookup = new Map<string, ModelInfo>()
+MODEL_REGISTRY.forEach(info => {
+  [info.id, info.name, ...info.aliases].forEach(alias => lookup.set(normalize(alias), info))
+})
+
+export const resolveModel = (name: string): ModelInfo | undefined => lookup.get(normalize(name))
+
+// Registry name for a known model; unknown names are returned unchanged
+export const canonicalModelName = (name: string): string => resolveModel(name)?.name ?? name
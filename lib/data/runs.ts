@@ -0,0 +1,41 @@
+// Where each artifact lives and which benchmark run it belongs to.
+
+import { BenchmarkRun, RunManifest } from './types'
+
+export const DATA_ROOT = '/data'
+
+export const DATA_FILES = {
+  responses: 'responses_with_scores.json',
+  scoredRows: 'scored_rows.csv',
+  sycophancyScores: 'sycophancy_scores.csv',
+  modelStability: 'B_model_stability.csv',
+  topicDispersion: 'TTD_topic_tilt_dispersion_summary.csv',
+  deltaByTopic: 'delta_by_topic.json',
+  network: 'network_data.json',
+  sssVectors: 'sss_vectors.json',
+  metadata: 'metadata.json',
+  elasticity: 'stance_elasticity_metrics.json'
+} as const
+
+export type DataFileKey = keyof typeof DATA_FILES
+
+export const RUN_MANIFEST_FILE = 'runs.json'
+
+// Used when public/data has no runs.json: the files sit directly in public/data
+export const DEFAULT_RUN: BenchmarkRun = {
+  id: 'current',
+  label: 'Current snapshot',
+  date: null,
+  judge_model: null,
+  prompt_set_version: null,
+  base: ''
+}
+
+// Path of one artifact for a run, relative to DATA_ROOT
+export const runFile = (run: BenchmarkRun | undefined, key: DataFileKey): string =>
+  run?.files?.[key] ?? `${run?.base ?? ''}${DATA_FILES[key]}`
+
+export const resolveRun = (manifest: RunManifest, runId: string | null): BenchmarkRun =>
+  manifest.runs.find(r => r.id === runId) ??
+  manifest.runs.find(r => r.id === manifest.default_run) ??
+  manifest.runs[0]
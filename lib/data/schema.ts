@@ -0,0 +1,333 @@
+// Declared schemas for the public/data artifacts and the validator that
+// applies them. Rows that break a rule are quarantined instead of reaching
+// the charts, and every problem is reported for the Data health panel.
+
+import {
+  BenchmarkMetadata,
+  BenchmarkRun,
+  DeltaByTopicEntry,
+  ElasticityData,
+  ModelStabilityRow,
+  NetworkLink,
+  NetworkNode,
+  ResponseData,
+  ScoredRow,
+  SycophancyScoreRow,
+  TopicDispersionRow
+} from './types'
+
+export type ColumnType = 'string' | 'number' | 'boolean' | 'vector'
+
+export interface ColumnSpec<T> {
+  name: string
+  type: ColumnType
+  optional?: boolean
+  min?: number
+  max?: number
+  integer?: boolean
+  allowed?: readonly (string | number)[]
+  // Expected element count for vector columns
+  length?: number
+  // Reads the value when it is not a top-level property of the row
+  get?: (row: T) => unknown
+  // Extra rule run once the value passes its type checks
+  check?: (row: T) => string | null
+}
+
+export interface DataIssue {
+  file: string
+  // Zero-based data row, or null for file-level problems
+  row: number | null
+  model: string | null
+  column: string | null
+  message: string
+}
+
+export interface DatasetHealth {
+  file: string
+  rowsChecked: number
+  rowsQuarantined: number
+  issues: DataIssue[]
+  quarantined: unknown[]
+}
+
+export interface ValidationResult<T> {
+  valid: T[]
+  health: DatasetHealth
+}
+
+export const PRED_LABELS = ['CHALLENGE', 'AGREEMENT', 'EVASION', 'ENDORSE'] as const
+
+const unit = (name: string): { name: string; type: 'number'; min: number; max: number } => ({
+  name,
+  type: 'number',
+  min: 0,
+  max: 1
+})
+
+// Marker densities are rates per response length and can exceed 1
+const density = (name: string): { name: string; type: 'number'; min: number } => ({ name, type: 'number', min: 0 })
+
+const SCORE_COLUMNS = [
+  unit('endorse_stance'),
+  unit('challenge'),
+  unit('harm_validation'),
+  unit('devil_advocate'),
+  density('flattery_density'),
+  density('intens_density'),
+  density('hedge_density'),
+  density('refusal_markers'),
+  density('safe_alt_markers'),
+  unit('evasion_markers'),
+  unit('caveat_in_open')
+]
+
+const PROMPT_COLUMNS = [
+  { name: 'model', type: 'string' as const },
+  { name: 'prompt_id', type: 'string' as const },
+  { name: 'topic', type: 'string' as const },
+  { name: 'persona', type: 'string' as const },
+  { name: 'stance', type: 'number' as const, allowed: [-1, 1] },
+  { name: 'strength', type: 'number' as const, min: 0, max: 1 },
+  { name: 'is_harmful', type: 'boolean' as const },
+  { name: 'ask_devil', type: 'boolean' as const }
+]
+
+export const SCORED_ROW_SCHEMA: ColumnSpec<ScoredRow>[] = [
+  ...PROMPT_COLUMNS,
+  ...SCORE_COLUMNS,
+  { name: 'pred_label', type: 'string', allowed: PRED_LABELS }
+]
+
+export const RESPONSE_SCHEMA: ColumnSpec<ResponseData>[] = [
+  ...PROMPT_COLUMNS,
+  { name: 'response', type: 'string', optional: true },
+  { name: 'prompt_text', type: 'string', optional: true },
+  ...SCORE_COLUMNS.map(spec => ({
+    ...spec,
+    get: (row: ResponseData) => row.scores?.[spec.name as keyof ResponseData['scores']]
+  })),
+  { name: 'pred_label', type: 'string', allowed: PRED_LABELS, get: (row: ResponseData) => row.scores?.pred_label }
+]
+
+export const SYCOPHANCY_SCORE_SCHEMA: ColumnSpec<SycophancyScoreRow>[] = [
+  { name: 'model', type: 'string' },
+  unit('AOS'),
+  unit('CCR'),
+  unit('HVS'),
+  unit('DAC'),
+  { name: 'AE', type: 'number', min: -1, max: 1 },
+  unit('FLAT'),
+  unit('INTENS'),
+  unit('HEDGE'),
+  unit('RR'),
+  unit('SAFE'),
+  unit('CAVEAT1'),
+  unit('EVAS'),
+  { name: 'n_total', type: 'number', min: 1, integer: true },
+  { name: 'n_harm', type: 'number', min: 0, integer: true },
+  { name: 'n_devil', type: 'number', min: 0, integer: true },
+  unit('SI')
+]
+
+export const MODEL_STABILITY_SCHEMA: ColumnSpec<ModelStabilityRow>[] = [
+  { name: 'model', type: 'string' },
+  { name: 'topics_used', type: 'number', min: 1, integer: true },
+  { name: 'min_n_per_topic', type: 'number', min: 0, integer: true },
+  { name: 'elasticity_var', type: 'number', min: 0 },
+  { name: 'stability', type: 'string' },
+  { name: 'threshold_cut', type: 'number', min: 0 },
+  unit('percentile'),
+  { name: 'method', type: 'string' }
+]
+
+export const TOPIC_DISPERSION_SCHEMA: ColumnSpec<TopicDispersionRow>[] = [
+  { name: 'model', type: 'string' },
+  { name: 'topic_dispersion_wMAD', type: 'number', min: 0 },
+  { name: 'mad_ci_lo', type: 'number', min: 0 },
+  { name: 'mad_ci_hi', type: 'number', min: 0 },
+  { name: 'perm_z', type: 'number' },
+  unit('p_value'),
+  unit('q_value'),
+  { name: 'num_topics', type: 'number', min: 1, integer: true },
+  { name: 'min_n_per_topic', type: 'number', min: 0, integer: true },
+  { name: 'stability', type: 'string' }
+]
+
+export const DELTA_BY_TOPIC_SCHEMA: ColumnSpec<DeltaByTopicEntry>[] = [
+  { name: 'model', type: 'string' },
+  { name: 'topic', type: 'string' },
+  unit('AOS_regular'),
+  unit('AOS_devil'),
+  { name: 'delta', type: 'number', min: -1, max: 1 },
+  { name: 'n_regular', type: 'number', min: 0, integer: true },
+  { name: 'n_devil', type: 'number', min: 0, integer: true }
+]
+
+export const NETWORK_NODE_SCHEMA: ColumnSpec<NetworkNode>[] = [
+  { name: 'id', type: 'number', min: 0, integer: true },
+  { name: 'label', type: 'string' },
+  { name: 'x', type: 'number' },
+  { name: 'y', type: 'number' },
+  { name: 'community', type: 'number', min: 0, integer: true }
+]
+
+export const NETWORK_LINK_SCHEMA: ColumnSpec<NetworkLink>[] = [
+  { name: 'source', type: 'number', min: 0, integer: true },
+  { name: 'target', type: 'number', min: 0, integer: true },
+  { name: 'weight', type: 'number', min: -1, max: 1 },
+  { name: 'similarity', type: 'number', min: -1, max: 1 },
+  { name: 'kind', type: 'string', optional: true }
+]
+
+export const ELASTICITY_SUMMARY_SCHEMA: ColumnSpec<{ x_median: number; y_median: number }>[] = [
+  { name: 'x_median', type: 'number', min: 0 },
+  { name: 'y_median', type: 'number', min: 0 }
+]
+
+export const SSS_VECTOR_LENGTH = 11
+
+export interface SssVectorRow {
+  model: string
+  vector: number[]
+}
+
+export const SSS_VECTOR_SCHEMA: ColumnSpec<SssVectorRow>[] = [
+  { name: 'model', type: 'string' },
+  { name: 'vector', type: 'vector', length: SSS_VECTOR_LENGTH }
+]
+
+export const METADATA_SCHEMA: ColumnSpec<BenchmarkMetadata>[] = [
+  {
+    name: 'models_analyzed',
+    type: 'number',
+    min: 1,
+    integer: true,
+    get: row => (Array.isArray(row.models_analyzed) ? row.models_analyzed.length : undefined)
+  },
+  { name: 'modularity', type: 'number', min: -0.5, max: 1, get: row => row.network_metrics?.modularity },
+  {
+    name: 'num_communities',
+    type: 'number',
+    min: 1,
+    integer: true,
+    get: row => row.network_metrics?.num_communities
+  }
+]
+
+export const RUN_SCHEMA: ColumnSpec<BenchmarkRun>[] = [
+  { name: 'id', type: 'string' },
+  { name: 'label', type: 'string' },
+  {
+    name: 'date',
+    type: 'string',
+    optional: true,
+    check: run => (run.date && isNaN(Date.parse(run.date)) ? `"${run.date}" is not a valid date` : null)
+  },
+  { name: 'judge_model', type: 'string', optional: true },
+  { name: 'prompt_set_version', type: 'string', optional: true },
+  { name: 'base', type: 'string', optional: true }
+]
+
+export const ELASTICITY_SCHEMA: ColumnSpec<ElasticityData>[] = [
+  { name: 'model', type: 'string' },
+  { name: 'elasticity_var', type: 'number', min: 0 },
+  { name: 'topic_dispersion_wMAD', type: 'number', min: 0 },
+  { name: 'topics_used', type: 'number', min: 1, integer: true }
+]
+
+const isMissing = (value: unknown): boolean =>
+  value === undefined || value === null || value === '' || (typeof value === 'number' && isNaN(value))
+
+const checkValue = <T>(spec: ColumnSpec<T>, value: unknown): string | null => {
+  if (isMissing(value)) return spec.optional ? null : 'missing value'
+
+  if (spec.type === 'number') {
+    if (typeof value !== 'number' || !isFinite(value)) return `expected a number, got ${JSON.stringify(value)}`
+    if (spec.integer && !Number.isInteger(value)) return `expected an integer, got ${value}`
+    if (spec.min !== undefined && value < spec.min) return `${value} is below the allowed minimum ${spec.min}`
+    if (spec.max !== undefined && value > spec.max) return `${value} is above the allowed maximum ${spec.max}`
+  } else if (spec.type === 'vector') {
+    if (!Array.isArray(value)) return `expected a list of numbers, got ${JSON.stringify(value)}`
+    if (spec.length !== undefined && value.length !== spec.length) {
+      return `expected ${spec.length} values, got ${value.length}`
+    }
+    const bad = value.findIndex(v => typeof v !== 'number' || !isFinite(v))
+    if (bad >= 0) return `element ${bad} is not a number (${JSON.stringify(value[bad])})`
+  } else if (spec.type === 'boolean') {
+    if (typeof value !== 'boolean') return `expected a boolean, got ${JSON.stringify(value)}`
+  } else if (typeof value !== 'string') {
+    return `expected text, got ${JSON.stringify(value)}`
+  }
+
+  if (spec.allowed && !spec.allowed.includes(value as string | number)) {
+    return `${JSON.stringify(value)} is not one of ${spec.allowed.join(', ')}`
+  }
+  return null
+}
+
+const readValue = <T>(spec: ColumnSpec<T>, row: T): unknown =>
+  spec.get ? spec.get(row) : (row as { [key: string]: unknown })[spec.name]
+
+export const validateRows = <T>(
+  file: string,
+  rows: readonly T[],
+  schema: ColumnSpec<T>[],
+  modelOf: (row: T) => string | null = row => {
+    const model = (row as { model?: unknown }).model
+    return typeof model === 'string' ? model : null
+  }
+): ValidationResult<T> => {
+  const issues: DataIssue[] = []
+  const valid: T[] = []
+  const quarantined: T[] = []
+
+  // A required column that is empty everywhere is reported once instead of per row
+  const missingColumns = new Set(
+    rows.length === 0
+      ? []
+      : schema.filter(spec => !spec.optional && rows.every(row => isMissing(readValue(spec, row)))).map(spec => spec.name)
+  )
+  missingColumns.forEach(column => {
+    issues.push({ file, row: null, model: null, column, message: `required column "${column}" is missing` })
+  })
+
+  rows.forEach((row, index) => {
+    const model = modelOf(row)
+    let rowValid = missingColumns.size === 0
+    schema.forEach(spec => {
+      if (missingColumns.has(spec.name)) return
+      const message = checkValue(spec, readValue(spec, row)) ?? (spec.check ? spec.check(row) : null)
+      if (message) {
+        rowValid = false
+        issues.push({ file, row: index, model, column: spec.name, message })
+      }
+    })
+    if (rowValid) valid.push(row)
+    else quarantined.push(row)
+  })
+
+  if (rows.length === 0) {
+    issues.push({ file, row: null, model: null, column: null, message: 'file contains no rows' })
+  }
+
+  return {
+    valid,
+    health: {
+      file,
+      rowsChecked: rows.length,
+      rowsQuarantined: quarantined.length,
+      issues,
+      quarantined
+    }
+  }
+}
+
+// Folds several partial reports for one file (e.g. nodes and links) into one
+export const mergeHealth = (file: string, reports: DatasetHealth[]): DatasetHealth => ({
+  file,
+  rowsChecked: reports.reduce((sum, r) => sum + r.rowsChecked, 0),
+  rowsQuarantined: reports.reduce((sum, r) => sum + r.rowsQuarantined, 0),
+  issues: reports.flatMap(r => r.issues.map(issue => ({ ...issue, file }))),
+  quarantined: reports.flatMap(r => r.quarantined)
+})
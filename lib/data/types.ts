@@ -0,0 +1,190 @@
+// Typed shapes for every artifact published under public/data.
+// Loaders in ./loaders.ts return these objects; pages should never re-declare them.
+
+export type PredLabel = 'CHALLENGE' | 'AGREEMENT' | 'EVASION' | 'ENDORSE'
+
+export interface ResponseScores {
+  endorse_stance: number
+  challenge: number
+  harm_validation: number
+  devil_advocate: number
+  flattery_density: number
+  intens_density: number
+  hedge_density: number
+  refusal_markers: number
+  safe_alt_markers: number
+  evasion_markers: number
+  caveat_in_open: number
+  pred_label: string
+}
+
+// One judged model response (responses_with_scores.json)
+export interface ResponseData {
+  model: string
+  prompt_id: string
+  response: string
+  prompt_text: string
+  topic: string
+  persona: string
+  stance: number
+  strength: number
+  is_harmful: boolean
+  ask_devil: boolean
+  scores: ResponseScores
+}
+
+// Flat per-response row (scored_rows.csv)
+export interface ScoredRow {
+  model: string
+  prompt_id: string
+  topic: string
+  persona: string
+  stance: number
+  strength: number
+  is_harmful: boolean
+  ask_devil: boolean
+  endorse_stance: number
+  challenge: number
+  harm_validation: number
+  devil_advocate: number
+  flattery_density: number
+  intens_density: number
+  hedge_density: number
+  refusal_markers: number
+  safe_alt_markers: number
+  evasion_markers: number
+  caveat_in_open: number
+  pred_label: string
+}
+
+// Model-level signature components and composite SI (sycophancy_scores.csv)
+export interface SycophancyScoreRow {
+  model: string
+  AOS: number
+  CCR: number
+  HVS: number
+  DAC: number
+  AE: number
+  FLAT: number
+  INTENS: number
+  HEDGE: number
+  RR: number
+  SAFE: number
+  CAVEAT1: number
+  EVAS: number
+  n_total: number
+  n_harm: number
+  n_devil: number
+  SI: number
+}
+
+// Adaptive elasticity classification (B_model_stability.csv)
+export interface ModelStabilityRow {
+  model: string
+  topics_used: number
+  min_n_per_topic: number
+  elasticity_var: number
+  stability: string
+  threshold_cut: number
+  percentile: number
+  method: string
+}
+
+// Topic-tilt dispersion with bootstrap CI and permutation test (TTD_topic_tilt_dispersion_summary.csv)
+export interface TopicDispersionRow {
+  model: string
+  topic_dispersion_wMAD: number
+  mad_ci_lo: number
+  mad_ci_hi: number
+  perm_z: number
+  p_value: number
+  q_value: number
+  num_topics: number
+  min_n_per_topic: number
+  stability: string
+}
+
+// Devil's-advocate effect per model and topic (delta_by_topic.json)
+export interface DeltaByTopicEntry {
+  model: string
+  topic: string
+  AOS_regular: number
+  AOS_devil: number
+  delta: number
+  n_regular: number
+  n_devil: number
+}
+
+export interface NetworkNode {
+  id: number
+  label: string
+  x: number
+  y: number
+  community: number
+}
+
+export interface NetworkLink {
+  source: number
+  target: number
+  weight: number
+  similarity: number
+  kind: string
+}
+
+// Behavioural similarity graph (network_data.json)
+export interface NetworkData {
+  nodes: NetworkNode[]
+  links: NetworkLink[]
+  layout: string
+  params: { [key: string]: number }
+}
+
+// Per-model behaviour vectors (sss_vectors.json)
+export type SssVectors = { [model: string]: number[] }
+
+// Run-level metadata (metadata.json)
+export interface BenchmarkMetadata {
+  models_analyzed: string[]
+  network_metrics: {
+    modularity: number
+    num_communities: number
+    conductance: { [community: string]: number }
+  }
+}
+
+export interface ElasticityData {
+  model: string
+  elasticity_var: number
+  topic_dispersion_wMAD: number
+  topics_used: number
+}
+
+// Quadrant axes (stance_elasticity_metrics.json). Note the summary medians are
+// keyed by the original plot axes: x_median is the dispersion median and
+// y_median the elasticity median.
+export interface ElasticityResponse {
+  items: ElasticityData[]
+  summary: {
+    x_median: number
+    y_median: number
+  }
+}
+
+// One benchmark evaluation listed in runs.json. File paths are relative to
+// public/data; any file not listed is looked up as `${base}${default name}`.
+export interface BenchmarkRun {
+  id: string
+  label: string
+  date: string | null
+  judge_model: string | null
+  prompt_set_version: string | null
+  base?: string
+  files?: { [file: string]: string }
+  notes?: string
+}
+
+// Run manifest (runs.json)
+export interface RunManifest {
+  default_run: string
+  runs: BenchmarkRun[]
+}